@@ -3,6 +3,7 @@ import { act, renderHook, waitFor } from "@testing-library/react";
 import {
 	WorkerPoolCapacityError,
 	type WorkerPoolEvent,
+	type WorkerPoolStats,
 	type WorkerTerminationError,
 } from "comlink-worker-pool";
 import { type ReactNode, StrictMode } from "react";
@@ -23,6 +24,16 @@ type TestApi = {
 	fail: () => Promise<never>;
 };
 
+type StreamApi = {
+	count: (limit: number) => AsyncGenerator<number>;
+};
+
+const streamApiImpl: StreamApi = {
+	count: async function* (limit) {
+		for (let value = 1; value <= limit; value++) yield value;
+	},
+};
+
 const testApiImpl: TestApi = {
 	add: async (a, b) => a + b,
 	fail: async () => {
@@ -124,6 +135,42 @@ describe("useWorkerPool", () => {
 		expect((callError as Error).message).toMatch(/not initialized/i);
 	});
 
+	it("streams worker method values through the owned pool", async () => {
+		const workerFactory = () => new MockWorker() as unknown as Worker;
+		const proxyFactory = () => streamApiImpl;
+		const { result } = renderHook(() =>
+			useWorkerPool<StreamApi>({ workerFactory, proxyFactory, poolSize: 1 }),
+		);
+		await waitFor(() => {
+			expect(result.current.poolStatus).toBe("ready");
+		});
+		const values: number[] = [];
+		await act(async () => {
+			for await (const value of result.current.stream("count", [3])) {
+				values.push(value);
+			}
+		});
+		expect(values).toEqual([1, 2, 3]);
+	});
+
+	it("rejects streams before the pool is initialized", async () => {
+		const workerFactory = () => new MockWorker() as unknown as Worker;
+		const proxyFactory = () => streamApiImpl;
+		const { result } = renderHook(() =>
+			useWorkerPool<StreamApi>({ workerFactory, proxyFactory, poolSize: 0 }),
+		);
+		await waitFor(() => {
+			expect(result.current.poolStatus).toBe("error");
+		});
+		const stream = result.current.stream("count", [3]);
+		expect(stream[Symbol.asyncIterator]()).toBe(stream);
+		await expect(stream.next()).rejects.toThrow(/not initialized/i);
+		await expect(stream.next()).resolves.toEqual({
+			done: true,
+			value: undefined,
+		});
+	});
+
 	it("closes the owned pool and exposes a closed lifecycle state", async () => {
 		const workers: MockWorker[] = [];
 		const { result } = renderHook(() =>
@@ -163,6 +210,39 @@ describe("useWorkerPool", () => {
 		expect((closedError as Error).message).toMatch(/closed/i);
 	});
 
+	it("pauses and resumes the owned pool across capacity changes", async () => {
+		const stats: WorkerPoolStats[] = [];
+		const { result, rerender } = renderHook(
+			({ poolSize }) =>
+				useWorkerPool<TestApi>({
+					poolSize,
+					workerFactory: () => new MockWorker() as unknown as Worker,
+					proxyFactory: () => testApiImpl,
+					onUpdateStats: (snapshot) => {
+						stats.push(snapshot);
+					},
+				}),
+			{ initialProps: { poolSize: 1 } },
+		);
+		await waitFor(() => expect(result.current.poolStatus).toBe("ready"));
+		const api = result.current.api;
+		act(() => result.current.pause());
+		let sum: Promise<number> | undefined;
+		act(() => {
+			sum = result.current.call("add", 1, 2);
+		});
+		expect(stats.at(-1)).toMatchObject({ state: "paused", queue: 1 });
+
+		rerender({ poolSize: 2 });
+		expect(result.current.api).toBe(api);
+		expect(stats.at(-1)).toMatchObject({ state: "paused", size: 2 });
+		await act(async () => {
+			result.current.resume();
+			await expect(sum).resolves.toBe(3);
+		});
+		expect(stats.at(-1)?.state).toBe("running");
+	});
+
 	it("uses a conservative automatic pool size", async () => {
 		const originalConcurrency = Object.getOwnPropertyDescriptor(
 			navigator,
@@ -210,6 +290,7 @@ describe("useWorkerPool", () => {
 					return worker as unknown as Worker;
 				},
 				proxyFactory: () => testApiImpl,
+				queueOverflowPolicy: () => undefined,
 			}),
 		);
 		await waitFor(() => expect(result.current.api).not.toBeNull());
@@ -226,6 +307,113 @@ describe("useWorkerPool", () => {
 		expect(workers[0].terminateCalls).toBe(1);
 	});
 
+	it("initializes workers with the initializer captured at pool creation", async () => {
+		const initialized: string[] = [];
+		const { result, rerender, unmount } = renderHook(
+			({ key }: { key: string }) =>
+				useWorkerPool<TestApi>({
+					poolSize: 1,
+					workerFactory: () => new MockWorker() as unknown as Worker,
+					proxyFactory: () => testApiImpl,
+					initializeWorker: async (proxy, workerId) => {
+						expect(proxy).toBe(testApiImpl);
+						initialized.push(`${key}:${workerId}`);
+					},
+					workerInitTimeoutMs: 1_000,
+					reconfigureKey: key === "second" ? key : undefined,
+				}),
+			{ initialProps: { key: "first" } },
+		);
+		await waitFor(() => expect(result.current.poolStatus).toBe("ready"));
+		await act(async () => {
+			await result.current.call("add", 1, 2);
+		});
+		expect(initialized).toEqual(["first:0"]);
+
+		rerender({ key: "second" });
+		await waitFor(() => expect(result.current.poolStatus).toBe("ready"));
+		await act(async () => {
+			await result.current.call("add", 1, 2);
+		});
+		expect(initialized).toEqual(["first:0", "second:0"]);
+		unmount();
+	});
+
+	it("resizes the live pool when capacity options change", async () => {
+		const workers: MockWorker[] = [];
+		let release!: () => void;
+		const held = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+		const stats: WorkerPoolStats[] = [];
+		const { result, rerender, unmount } = renderHook(
+			({ size }: { size: number }) =>
+				useWorkerPool<TestApi>({
+					poolSize: size,
+					maxQueueSize: size === 2 ? 8 : undefined,
+					workerFactory: () => {
+						const worker = new MockWorker();
+						workers.push(worker);
+						return worker as unknown as Worker;
+					},
+					proxyFactory: () => ({
+						...testApiImpl,
+						add: async (a, b) => {
+							await held;
+							return a + b;
+						},
+					}),
+					onUpdateStats: (snapshot) => {
+						stats.push(snapshot);
+					},
+				}),
+			{ initialProps: { size: 1 } },
+		);
+		await waitFor(() => expect(result.current.poolStatus).toBe("ready"));
+		const firstApi = result.current.api as TestApi;
+		const inFlight = firstApi.add(1, 2);
+
+		rerender({ size: 2 });
+		expect(result.current.api).toBe(firstApi);
+		expect(stats.at(-1)).toMatchObject({ size: 2, queueCapacity: 8 });
+		rerender({ size: 1 });
+		expect(stats.at(-1)).toMatchObject({ size: 1, queueCapacity: null });
+		release();
+		await expect(inFlight).resolves.toBe(3);
+		expect(workers).toHaveLength(1);
+		unmount();
+	});
+
+	it("recreates the pool when a capacity change cannot be applied", async () => {
+		const { result, rerender, unmount } = renderHook(
+			({ size }: { size: number }) =>
+				useWorkerPool<TestApi>({
+					poolSize: size,
+					workerFactory: () => new MockWorker() as unknown as Worker,
+					proxyFactory: () => testApiImpl,
+				}),
+			{ initialProps: { size: 1 } },
+		);
+		await waitFor(() => expect(result.current.poolStatus).toBe("ready"));
+
+		rerender({ size: 0 });
+		await waitFor(() => expect(result.current.poolStatus).toBe("error"));
+		expect(result.current.error).toBeInstanceOf(RangeError);
+
+		rerender({ size: 2 });
+		await waitFor(() => expect(result.current.poolStatus).toBe("ready"));
+		await act(async () => {
+			await expect(result.current.call("add", 2, 3)).resolves.toBe(5);
+		});
+
+		await act(async () => {
+			await result.current.close();
+		});
+		rerender({ size: 1 });
+		await waitFor(() => expect(result.current.poolStatus).toBe("ready"));
+		unmount();
+	});
+
 	it("rejects retained calls after unmount without creating zombie workers", async () => {
 		let workerCreations = 0;
 		const { result, unmount } = renderHook(() =>
@@ -1,10 +1,12 @@
 import {
 	type PooledApi,
+	type PooledStreamValue,
 	type WorkerFactory,
 	WorkerPool,
 	type WorkerPoolOptions,
 	type WorkerPoolShutdownReport,
 	type WorkerPoolStats,
+	type WorkerTaskOptions,
 } from "comlink-worker-pool";
 import {
 	useCallback,
@@ -49,6 +51,12 @@ export interface UseWorkerPoolOptions<TProxy extends CallableProxy<TProxy>> {
 	onEvent?: WorkerPoolOptions<TProxy>["onEvent"];
 	/** Terminates an idle worker after this duration. */
 	workerIdleTimeoutMs?: number;
+	/** Workers kept alive regardless of the idle timeout. */
+	minWorkers?: WorkerPoolOptions<TProxy>["minWorkers"];
+	/** Prepares each new worker before it receives tasks; captured at pool creation. */
+	initializeWorker?: WorkerPoolOptions<TProxy>["initializeWorker"];
+	/** Deadline for initializeWorker (30 seconds by default). */
+	workerInitTimeoutMs?: WorkerPoolOptions<TProxy>["workerInitTimeoutMs"];
 	/** Retires a worker after this many assigned tasks. */
 	maxTasksPerWorker?: number;
 	/** Retires a worker after this lifetime once active tasks finish. */
@@ -57,14 +65,51 @@ export interface UseWorkerPoolOptions<TProxy extends CallableProxy<TProxy>> {
 	maxConcurrentTasksPerWorker?: number;
 	/** Maximum number of tasks waiting for a worker. */
 	maxQueueSize?: WorkerPoolOptions<TProxy>["maxQueueSize"];
-	/** Behavior when the waiting queue is full. */
+	/**
+	 * Behavior when the waiting queue is full. A new custom evictor takes
+	 * effect when reconfigureKey changes.
+	 */
 	queueOverflowPolicy?: WorkerPoolOptions<TProxy>["queueOverflowPolicy"];
 	/** Default maximum time a task may wait in the queue. */
 	queueTimeoutMs?: WorkerPoolOptions<TProxy>["queueTimeoutMs"];
+	/** Default maximum time a call waits for queue space under the wait policy. */
+	admissionTimeoutMs?: WorkerPoolOptions<TProxy>["admissionTimeoutMs"];
+	/** Budget a call with a deadline needs left to start. */
+	minDispatchBudgetMs?: WorkerPoolOptions<TProxy>["minDispatchBudgetMs"];
+	/** Starts equal-priority calls in deadline order. */
+	earliestDeadlineFirst?: WorkerPoolOptions<TProxy>["earliestDeadlineFirst"];
+	/** Behavior when the worker bound to a call's affinityKey is busy. */
+	affinityFallback?: WorkerPoolOptions<TProxy>["affinityFallback"];
+	/** Affinity keys remembered before the least recently used is forgotten. */
+	maxAffinityKeys?: WorkerPoolOptions<TProxy>["maxAffinityKeys"];
+	/** How busy workers with spare concurrency are chosen. */
+	workerSelection?: WorkerPoolOptions<TProxy>["workerSelection"];
 	/** Rejects overlong tasks and recycles their worker (five-minute default). */
 	taskTimeoutMs?: WorkerPoolOptions<TProxy>["taskTimeoutMs"];
+	/** Grace period after a soft task timeout before the worker is recycled. */
+	taskTimeoutGraceMs?: WorkerPoolOptions<TProxy>["taskTimeoutGraceMs"];
+	/** Fails pooled calls whose worker stops sending heartbeats. */
+	inactivityTimeoutMs?: WorkerPoolOptions<TProxy>["inactivityTimeoutMs"];
+	/** Default retry policy, captured when the pool is created. */
+	retry?: WorkerPoolOptions<TProxy>["retry"];
+	/** Per-method concurrency, queue, timeout, and rate limits, captured when the pool is created. */
+	methodLimits?: WorkerPoolOptions<TProxy>["methodLimits"];
+	/** Pool-wide token-bucket rate limit, captured when the pool is created. */
+	rateLimit?: WorkerPoolOptions<TProxy>["rateLimit"];
+	/** Latency-driven running-task limit, captured when the pool is created. */
+	adaptiveConcurrency?: WorkerPoolOptions<TProxy>["adaptiveConcurrency"];
+	/** Per-method dedupe keys for identical in-flight calls, captured when the pool is created. */
+	dedupe?: WorkerPoolOptions<TProxy>["dedupe"];
+	/** Per-method result cache policies, captured when the pool is created. */
+	cache?: WorkerPoolOptions<TProxy>["cache"];
+	/** Per-method circuit breakers, captured when the pool is created. */
+	circuitBreaker?: WorkerPoolOptions<TProxy>["circuitBreaker"];
+	/** Per-method hedging of slow idempotent calls, captured when the pool is created. */
+	hedge?: WorkerPoolOptions<TProxy>["hedge"];
 	/** Cleans up resources owned by a worker proxy. */
 	proxyCleanup?: (proxy: TProxy) => void;
+	/** Workers expose their API with exposePooled(); enables cooperative cancellation. */
+	pooledWorkers?: WorkerPoolOptions<TProxy>["pooledWorkers"];
 	/** Extra worker slots that preserve capacity after termination failure. */
 	terminationFailureWorkerBuffer?: WorkerPoolOptions<TProxy>["terminationFailureWorkerBuffer"];
 	/** Additional termination attempts after the initial attempt. */
@@ -82,7 +127,10 @@ export interface UseWorkerPoolOptions<TProxy extends CallableProxy<TProxy>> {
 	 *
 	 * Factory identities are intentionally not effect dependencies, so inline
 	 * callbacks cannot create an initialization loop. Change this key when a
-	 * new workerFactory, proxyFactory, proxyCleanup, or workerTerminator must take effect.
+	 * new workerFactory, proxyFactory, initializeWorker, proxyCleanup,
+	 * workerTerminator, retry policy, methodLimits, rateLimit,
+	 * adaptiveConcurrency, dedupe, cache, circuitBreaker, hedge, or custom
+	 * queueOverflowPolicy evictor must take effect.
 	 */
 	reconfigureKey?: unknown;
 }
@@ -104,10 +152,44 @@ export interface UseWorkerPoolResult<TProxy extends CallableProxy<TProxy>> {
 		method: K,
 		...args: Parameters<PooledMethod<TProxy, K>>
 	): Promise<Awaited<ReturnType<PooledMethod<TProxy, K>>>>;
+	/** Streams values yielded by a worker method; fails if no pool is ready. */
+	stream<K extends keyof TProxy>(
+		method: K,
+		args: Parameters<TProxy[K]>,
+		options?: WorkerTaskOptions,
+	): AsyncIterableIterator<PooledStreamValue<ReturnType<TProxy[K]>>>;
+	/** Holds queued calls until resume(); pools recreated meanwhile start paused. */
+	pause(): void;
+	/** Starts calls held by pause() again. */
+	resume(): void;
 	/** Immediately closes the owned pool; null means no pool was created. */
 	close(): Promise<WorkerPoolShutdownReport | null>;
 }
 
+interface PoolCapacity {
+	poolSize?: number;
+	maxConcurrentTasksPerWorker?: number;
+	maxQueueSize?: number;
+}
+
+function defaultPoolSize(): number {
+	const detectedConcurrency =
+		typeof navigator !== "undefined" &&
+		Number.isSafeInteger(navigator.hardwareConcurrency) &&
+		navigator.hardwareConcurrency > 0
+			? navigator.hardwareConcurrency
+			: 2;
+	return Math.max(1, Math.min(4, detectedConcurrency - 1));
+}
+
+function sameCapacity(left: PoolCapacity, right: PoolCapacity): boolean {
+	return (
+		left.poolSize === right.poolSize &&
+		left.maxConcurrentTasksPerWorker === right.maxConcurrentTasksPerWorker &&
+		left.maxQueueSize === right.maxQueueSize
+	);
+}
+
 /**
  * Creates and owns a WorkerPool for the lifetime of a React component.
  *
@@ -136,26 +218,55 @@ export function useWorkerPool<TProxy extends CallableProxy<TProxy>>(
 	const eventCallbackRef = useRef(options.onEvent);
 	const workerFactoryRef = useRef(options.workerFactory);
 	const proxyFactoryRef = useRef(options.proxyFactory);
+	const initializeWorkerRef = useRef(options.initializeWorker);
 	const proxyCleanupRef = useRef(options.proxyCleanup);
 	const workerTerminatorRef = useRef(options.workerTerminator);
+	const retryRef = useRef(options.retry);
+	const methodLimitsRef = useRef(options.methodLimits);
+	const rateLimitRef = useRef(options.rateLimit);
+	const adaptiveConcurrencyRef = useRef(options.adaptiveConcurrency);
+	const dedupeRef = useRef(options.dedupe);
+	const cacheRef = useRef(options.cache);
+	const circuitBreakerRef = useRef(options.circuitBreaker);
+	const hedgeRef = useRef(options.hedge);
+	const queueOverflowPolicyRef = useRef(options.queueOverflowPolicy);
+	const [capacityRevision, setCapacityRevision] = useState(0);
+	const capacityRef = useRef<PoolCapacity>({});
+	// Capacity the live pool was created with or last resized to.
+	const appliedCapacityRef = useRef<PoolCapacity | null>(null);
 	const terminationErrorCallbackRef = useRef(options.onWorkerTerminationError);
+	const pausedRef = useRef(false);
 
 	const {
 		poolSize,
 		workerIdleTimeoutMs,
+		minWorkers,
+		workerInitTimeoutMs,
 		maxTasksPerWorker,
 		maxWorkerLifetimeMs,
 		maxConcurrentTasksPerWorker,
 		maxQueueSize,
 		queueOverflowPolicy,
 		queueTimeoutMs,
+		admissionTimeoutMs,
+		minDispatchBudgetMs,
+		earliestDeadlineFirst,
+		affinityFallback,
+		maxAffinityKeys,
+		workerSelection,
 		taskTimeoutMs,
+		taskTimeoutGraceMs,
+		inactivityTimeoutMs,
+		pooledWorkers,
 		terminationFailureWorkerBuffer,
 		terminationRetryAttempts,
 		terminationRetryDelayMs,
 		terminationAttemptTimeoutMs,
 		reconfigureKey,
 	} = options;
+	// Switching strategies recreates the pool; evictor identities do not.
+	const queueOverflowStrategy =
+		typeof queueOverflowPolicy === "function" ? "custom" : queueOverflowPolicy;
 
 	// Publish dynamic options only after React commits this render.
 	useCommittedLayoutEffect(() => {
@@ -163,19 +274,47 @@ export function useWorkerPool<TProxy extends CallableProxy<TProxy>>(
 		eventCallbackRef.current = options.onEvent;
 		workerFactoryRef.current = options.workerFactory;
 		proxyFactoryRef.current = options.proxyFactory;
+		initializeWorkerRef.current = options.initializeWorker;
 		proxyCleanupRef.current = options.proxyCleanup;
 		workerTerminatorRef.current = options.workerTerminator;
+		retryRef.current = options.retry;
+		methodLimitsRef.current = options.methodLimits;
+		rateLimitRef.current = options.rateLimit;
+		adaptiveConcurrencyRef.current = options.adaptiveConcurrency;
+		dedupeRef.current = options.dedupe;
+		cacheRef.current = options.cache;
+		circuitBreakerRef.current = options.circuitBreaker;
+		hedgeRef.current = options.hedge;
+		queueOverflowPolicyRef.current = options.queueOverflowPolicy;
 		terminationErrorCallbackRef.current = options.onWorkerTerminationError;
 	}, [
 		options.onUpdateStats,
 		options.onEvent,
 		options.workerFactory,
 		options.proxyFactory,
+		options.initializeWorker,
 		options.proxyCleanup,
 		options.workerTerminator,
+		options.retry,
+		options.methodLimits,
+		options.rateLimit,
+		options.adaptiveConcurrency,
+		options.dedupe,
+		options.cache,
+		options.circuitBreaker,
+		options.hedge,
+		options.queueOverflowPolicy,
 		options.onWorkerTerminationError,
 	]);
 
+	useCommittedLayoutEffect(() => {
+		capacityRef.current = {
+			poolSize,
+			maxConcurrentTasksPerWorker,
+			maxQueueSize,
+		};
+	}, [poolSize, maxConcurrentTasksPerWorker, maxQueueSize]);
+
 	useCommittedLayoutEffect(() => {
 		activeCallBindingRef.current = callBinding;
 		return () => {
@@ -187,24 +326,21 @@ export function useWorkerPool<TProxy extends CallableProxy<TProxy>>(
 
 	useEffect(() => {
 		void reconfigureKey;
+		void capacityRevision;
+		void queueOverflowStrategy;
 		const generation = ++generationRef.current;
 		++latestCallIdRef.current;
 		setPoolStatus("initializing");
 		let pool: WorkerPool<TProxy> | null = null;
 
-		try {
-			const detectedConcurrency =
-				typeof navigator !== "undefined" &&
-				Number.isSafeInteger(navigator.hardwareConcurrency) &&
-				navigator.hardwareConcurrency > 0
-					? navigator.hardwareConcurrency
-					: 2;
-			const defaultPoolSize = Math.max(1, Math.min(4, detectedConcurrency - 1));
+		const capacity = capacityRef.current;
+		appliedCapacityRef.current = capacity;
 
+		try {
 			// Capture factories for this generation. reconfigureKey is the explicit
 			// signal for replacing them; callback identity churn alone is ignored.
 			pool = new WorkerPool<TProxy>({
-				size: poolSize ?? defaultPoolSize,
+				size: capacity.poolSize ?? defaultPoolSize(),
 				workerFactory: workerFactoryRef.current,
 				proxyFactory: proxyFactoryRef.current,
 				onUpdateStats: (stats: WorkerPoolStats) =>
@@ -216,13 +352,33 @@ export function useWorkerPool<TProxy extends CallableProxy<TProxy>>(
 						? eventCallbackRef.current?.(event)
 						: undefined,
 				workerIdleTimeoutMs,
+				minWorkers,
+				initializeWorker: initializeWorkerRef.current,
+				workerInitTimeoutMs,
 				maxTasksPerWorker,
 				maxWorkerLifetimeMs,
-				maxConcurrentTasksPerWorker,
-				maxQueueSize,
-				queueOverflowPolicy,
+				maxConcurrentTasksPerWorker: capacity.maxConcurrentTasksPerWorker,
+				maxQueueSize: capacity.maxQueueSize,
+				queueOverflowPolicy: queueOverflowPolicyRef.current,
 				queueTimeoutMs,
+				admissionTimeoutMs,
+				minDispatchBudgetMs,
+				earliestDeadlineFirst,
+				affinityFallback,
+				maxAffinityKeys,
+				workerSelection,
 				taskTimeoutMs,
+				taskTimeoutGraceMs,
+				inactivityTimeoutMs,
+				retry: retryRef.current,
+				methodLimits: methodLimitsRef.current,
+				rateLimit: rateLimitRef.current,
+				adaptiveConcurrency: adaptiveConcurrencyRef.current,
+				dedupe: dedupeRef.current,
+				cache: cacheRef.current,
+				circuitBreaker: circuitBreakerRef.current,
+				hedge: hedgeRef.current,
+				pooledWorkers,
 				proxyCleanup: proxyCleanupRef.current,
 				terminationFailureWorkerBuffer,
 				terminationRetryAttempts,
@@ -235,6 +391,7 @@ export function useWorkerPool<TProxy extends CallableProxy<TProxy>>(
 						: undefined,
 			});
 			poolRef.current = pool;
+			if (pausedRef.current) pool.pause();
 			setApi(pool.getApi());
 			setPoolStatus("ready");
 			setStatus("idle");
@@ -262,15 +419,24 @@ export function useWorkerPool<TProxy extends CallableProxy<TProxy>>(
 		// Factory changes are applied only when reconfigureKey changes. This makes
 		// inline factory callbacks safe and gives reconfiguration explicit timing.
 	}, [
-		poolSize,
+		capacityRevision,
 		workerIdleTimeoutMs,
+		minWorkers,
+		workerInitTimeoutMs,
 		maxTasksPerWorker,
 		maxWorkerLifetimeMs,
-		maxConcurrentTasksPerWorker,
-		maxQueueSize,
-		queueOverflowPolicy,
+		queueOverflowStrategy,
 		queueTimeoutMs,
+		admissionTimeoutMs,
+		minDispatchBudgetMs,
+		earliestDeadlineFirst,
+		affinityFallback,
+		maxAffinityKeys,
+		workerSelection,
 		taskTimeoutMs,
+		taskTimeoutGraceMs,
+		inactivityTimeoutMs,
+		pooledWorkers,
 		terminationFailureWorkerBuffer,
 		terminationRetryAttempts,
 		terminationRetryDelayMs,
@@ -278,6 +444,33 @@ export function useWorkerPool<TProxy extends CallableProxy<TProxy>>(
 		reconfigureKey,
 	]);
 
+	// Capacity changes resize the live pool in place, keeping in-flight work.
+	useEffect(() => {
+		const capacity = {
+			poolSize,
+			maxConcurrentTasksPerWorker,
+			maxQueueSize,
+		};
+		const applied = appliedCapacityRef.current;
+		if (applied && sameCapacity(applied, capacity)) return;
+		const pool = poolRef.current;
+		const state = pool?.getStats().state;
+		if (pool && (state === "running" || state === "paused")) {
+			try {
+				pool.resize({
+					size: poolSize ?? defaultPoolSize(),
+					maxConcurrentTasksPerWorker: maxConcurrentTasksPerWorker ?? 1,
+					maxQueueSize: maxQueueSize ?? null,
+				});
+				appliedCapacityRef.current = capacity;
+				return;
+			} catch {
+				// Recreating the pool reports invalid capacity as an initialization error.
+			}
+		}
+		setCapacityRevision((revision) => revision + 1);
+	}, [poolSize, maxConcurrentTasksPerWorker, maxQueueSize]);
+
 	const callGeneration = generationRef.current;
 	const call = useCallback(
 		async <K extends keyof PooledApi<TProxy>>(
@@ -332,6 +525,41 @@ export function useWorkerPool<TProxy extends CallableProxy<TProxy>>(
 		[api, callBinding, callGeneration, poolStatus],
 	);
 
+	const stream = useCallback(
+		<K extends keyof TProxy>(
+			method: K,
+			args: Parameters<TProxy[K]>,
+			options?: WorkerTaskOptions,
+		): AsyncIterableIterator<PooledStreamValue<ReturnType<TProxy[K]>>> => {
+			const pool = poolRef.current;
+			if (pool) return pool.stream(method, args, options);
+			const notInitialized = new Error("Worker pool not initialized");
+			let failed = false;
+			const failedStream: AsyncIterableIterator<
+				PooledStreamValue<ReturnType<TProxy[K]>>
+			> = {
+				next: () => {
+					if (failed) return Promise.resolve({ done: true, value: undefined });
+					failed = true;
+					return Promise.reject(notInitialized);
+				},
+				[Symbol.asyncIterator]: () => failedStream,
+			};
+			return failedStream;
+		},
+		[],
+	);
+
+	const pause = useCallback(() => {
+		pausedRef.current = true;
+		poolRef.current?.pause();
+	}, []);
+
+	const resume = useCallback(() => {
+		pausedRef.current = false;
+		poolRef.current?.resume();
+	}, []);
+
 	const close =
 		useCallback(async (): Promise<WorkerPoolShutdownReport | null> => {
 			const pool = poolRef.current;
@@ -346,5 +574,16 @@ export function useWorkerPool<TProxy extends CallableProxy<TProxy>>(
 			return pool.close();
 		}, []);
 
-	return { api, poolStatus, status, result, error, call, close };
+	return {
+		api,
+		poolStatus,
+		status,
+		result,
+		error,
+		call,
+		stream,
+		pause,
+		resume,
+		close,
+	};
 }
@@ -1,7 +1,7 @@
 import { defineConfig } from "bunup";
 
 const shared = {
-	entry: "src/index.ts",
+	entry: ["src/index.ts", "src/worker.ts"],
 	dts: true,
 	minify: false,
 	sourcemap: "linked" as const,
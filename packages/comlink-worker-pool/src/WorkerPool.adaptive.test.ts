@@ -0,0 +1,196 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import type { WorkerPoolOptions, WorkerTaskOptions } from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+	holdCalls,
+	sleep,
+} from "./__mocks__/testPool";
+
+type AdaptiveApi = {
+	parse(label: string): Promise<string>;
+	render(label: string): Promise<string>;
+};
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<AdaptiveApi>> = {}) {
+	const { finish, hold, started } = holdCalls();
+	const workers: EventTarget[] = [];
+	const { events, pool, run } = createTestPool<AdaptiveApi>({
+		size: 4,
+		workerFactory: () => {
+			const worker = new EventTarget();
+			workers.push(worker);
+			return worker as unknown as Worker;
+		},
+		proxyFactory: () => ({ parse: hold, render: hold }),
+		...options,
+	});
+	const changes = () =>
+		events.flatMap((event) =>
+			event.type === "concurrency-changed"
+				? [[event.previousLimit, event.limit, event.reason]]
+				: [],
+		);
+	return {
+		changes,
+		events,
+		finish,
+		pool,
+		run: (
+			label: string,
+			taskOptions?: WorkerTaskOptions,
+			method: keyof AdaptiveApi = "render",
+		) => run(method, [label], taskOptions),
+		started,
+		workers,
+	};
+}
+
+describe("WorkerPool - adaptive concurrency", () => {
+	test("grows the limit while work queues and latency stays on target", async () => {
+		const { changes, finish, pool, run, started } = createPool({
+			adaptiveConcurrency: { min: 1, max: 3, targetLatencyMs: 1_000 },
+		});
+		for (const label of ["a", "b", "c", "d", "e", "f", "g"]) run(label);
+		await flushMicrotasks();
+		expect(started).toEqual(["a"]);
+		expect(pool.getStats()).toMatchObject({ concurrencyLimit: 1, queue: 6 });
+		await sleep(20);
+
+		// "a" ran longer than it waited, so it does not count toward growth.
+		await finish("a");
+		expect(started).toEqual(["a", "b"]);
+		await finish("b");
+		expect(started).toEqual(["a", "b", "c", "d"]);
+		await finish("c");
+		await finish("d");
+		expect(started).toEqual(["a", "b", "c", "d", "e", "f", "g"]);
+		expect(pool.getStats().concurrencyLimit).toBe(3);
+		expect(changes()).toEqual([
+			[1, 2, "queue-wait"],
+			[2, 3, "queue-wait"],
+		]);
+	});
+
+	test("backs off once for attempts that exceed the target latency", async () => {
+		const { changes, events, finish, pool, run, started } = createPool({
+			adaptiveConcurrency: {
+				min: 1,
+				max: 4,
+				initial: 4,
+				targetLatencyMs: 10,
+				backoffRatio: 0.5,
+			},
+		});
+		for (const label of ["a", "b", "c", "d", "e"]) run(label);
+		await flushMicrotasks();
+		await sleep(20);
+		await finish("a");
+		await finish("b");
+		expect(changes()).toEqual([[4, 2, "latency"]]);
+		expect(
+			events.find((event) => event.type === "concurrency-changed"),
+		).toMatchObject({
+			latencyMs: expect.any(Number),
+			queueWaitMs: expect.any(Number),
+		});
+		expect(started).toEqual(["a", "b", "c", "d"]);
+		await finish("c");
+		expect(started).toEqual(["a", "b", "c", "d", "e"]);
+		expect(pool.getStats()).toMatchObject({
+			concurrencyLimit: 2,
+			runningTasks: 2,
+		});
+	});
+
+	test("backs off when a worker fails and ignores attempts that never ran", async () => {
+		const { changes, finish, pool, run, workers } = createPool({
+			size: 1,
+			adaptiveConcurrency: { min: 1, max: 4, initial: 2 },
+			maxConcurrentTasksPerWorker: 2,
+		});
+		const controller = new AbortController();
+		run("left", { signal: controller.signal });
+		controller.abort();
+		run("a");
+		await flushMicrotasks();
+		await finish("a");
+		expect(changes()).toEqual([]);
+
+		run("b");
+		await flushMicrotasks();
+		workers[0].dispatchEvent(new Event("error"));
+		await flushMicrotasks();
+		expect(changes()).toEqual([[2, 1, "failure"]]);
+		expect(pool.getStats().concurrencyLimit).toBe(1);
+	});
+
+	test("backs off once for a soft timeout, not again when the worker returns", async () => {
+		const { changes, finish, pool, run } = createPool({
+			size: 1,
+			adaptiveConcurrency: { min: 1, max: 4, initial: 2 },
+			maxConcurrentTasksPerWorker: 2,
+			taskTimeoutMs: 10,
+			taskTimeoutGraceMs: 60_000,
+		});
+		await expect(run("soft")).rejects.toThrow("timed out");
+		expect(changes()).toEqual([[2, 1, "failure"]]);
+		await finish("soft");
+		expect(changes()).toEqual([[2, 1, "failure"]]);
+		expect(pool.getStats().concurrencyLimit).toBe(1);
+	});
+
+	test("derives the target from each method's recent attempts without targetLatencyMs", async () => {
+		const { changes, finish, run } = createPool({
+			adaptiveConcurrency: { min: 1, max: 2, initial: 2, latencyTolerance: 3 },
+		});
+		run("fast");
+		await flushMicrotasks();
+		await finish("fast");
+		// A slower method has its own baseline.
+		run("parse", undefined, "parse");
+		await flushMicrotasks();
+		await sleep(20);
+		await finish("parse");
+		expect(changes()).toEqual([]);
+
+		run("slow");
+		await flushMicrotasks();
+		await sleep(20);
+		await finish("slow");
+		expect(changes()).toEqual([[2, 1, "latency"]]);
+	});
+
+	test("validates adaptive concurrency", () => {
+		const invalid: [unknown, string][] = [
+			[1, "adaptiveConcurrency must be an object"],
+			[{ min: 0, max: 2 }, "adaptiveConcurrency.min must be at least 1"],
+			[{ min: 1, max: 1.5 }, "adaptiveConcurrency.max must be at least 1"],
+			[{ min: 3, max: 2 }, "adaptiveConcurrency.min must not exceed max"],
+			[
+				{ min: 1, max: 2, initial: 3 },
+				"adaptiveConcurrency.initial must be between min and max",
+			],
+			[
+				{ min: 1, max: 2, targetLatencyMs: 0 },
+				"adaptiveConcurrency.targetLatencyMs must be a positive finite number",
+			],
+			[
+				{ min: 1, max: 2, latencyTolerance: 0.5 },
+				"adaptiveConcurrency.latencyTolerance must be a finite number of at least 1",
+			],
+			[
+				{ min: 1, max: 2, backoffRatio: 1 },
+				"adaptiveConcurrency.backoffRatio must be between 0 and 1",
+			],
+		];
+		for (const [adaptiveConcurrency, message] of invalid) {
+			expect(() =>
+				createPool({ adaptiveConcurrency: adaptiveConcurrency as never }),
+			).toThrow(message);
+		}
+	});
+});
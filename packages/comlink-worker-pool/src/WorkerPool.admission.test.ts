@@ -0,0 +1,264 @@
+import { afterEach, describe, expect, jest, test } from "bun:test";
+import {
+	type WorkerPoolOptions,
+	WorkerPoolQueueFullError,
+	WorkerQueueTimeoutError,
+	WorkerTaskAbortedError,
+	type WorkerTaskOptions,
+} from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+	holdCalls,
+	sleep,
+} from "./__mocks__/testPool";
+
+type AdmissionApi = {
+	encode(label: string): Promise<string>;
+	upload(label: string): Promise<string>;
+};
+
+afterEach(async () => {
+	jest.useRealTimers();
+	await closeTestPools();
+});
+
+function createPool(options: Partial<WorkerPoolOptions<AdmissionApi>> = {}) {
+	const { finish, hold, started } = holdCalls();
+	const { pool, run } = createTestPool<AdmissionApi>({
+		maxQueueSize: 1,
+		queueOverflowPolicy: "wait",
+		proxyFactory: () => ({ encode: hold, upload: hold }),
+		...options,
+	});
+	return {
+		finish,
+		pool,
+		run: (
+			label: string,
+			taskOptions?: WorkerTaskOptions,
+			method: keyof AdmissionApi = "encode",
+		) => run(method, [label], taskOptions),
+		started,
+	};
+}
+
+describe("WorkerPool - wait overflow policy", () => {
+	test("holds calls until the queue has room, in priority order", async () => {
+		const { finish, pool, run, started } = createPool();
+		run("running");
+		run("queued");
+		const first = run("first");
+		run("second");
+		run("urgent", { priority: 2 });
+		await flushMicrotasks();
+		expect(pool.getStats()).toMatchObject({
+			queue: 1,
+			queueCapacityRemaining: 0,
+			admissionQueue: 3,
+		});
+		expect(
+			pool.inspect().queued.map(({ id, position }) => [id, position]),
+		).toEqual([
+			[1, 0],
+			[4, null],
+			[2, null],
+			[3, null],
+		]);
+
+		for (const label of ["running", "queued", "urgent", "first"]) {
+			await finish(label);
+		}
+		await expect(first).resolves.toBe("first");
+		expect(started).toEqual(["running", "queued", "urgent", "first", "second"]);
+		expect(pool.getStats()).toMatchObject({
+			admissionQueue: 0,
+			failedTasks: 0,
+		});
+	});
+
+	test("bounds the wait with admissionTimeoutMs and queueTimeoutMs", async () => {
+		const { finish, pool, run } = createPool({ admissionTimeoutMs: 20 });
+		run("running");
+		run("queued");
+		const rejected = run("rejected");
+		const unbounded = run("unbounded", { admissionTimeoutMs: false });
+		const expired = run("expired", {
+			admissionTimeoutMs: 60_000,
+			queueTimeoutMs: 10,
+		});
+		await expect(expired).rejects.toBeInstanceOf(WorkerQueueTimeoutError);
+		await expect(rejected).rejects.toBeInstanceOf(WorkerPoolQueueFullError);
+		await expect(rejected).rejects.toMatchObject({
+			maxQueueSize: 1,
+			dropped: false,
+			method: undefined,
+		});
+		await sleep(20);
+		expect(pool.getStats()).toMatchObject({
+			admissionQueue: 1,
+			failedTasks: 1,
+			timedOutTasks: 1,
+		});
+		await finish("running");
+		await finish("queued");
+		await finish("unbounded");
+		await expect(unbounded).resolves.toBe("unbounded");
+	});
+
+	test("keeps the queue deadline a call had before it was admitted", async () => {
+		jest.useFakeTimers({ now: 0 });
+		const { finish, run } = createPool();
+		run("running");
+		run("queued");
+		let error: unknown;
+		run("late", { queueTimeoutMs: 30 }).catch((reason) => {
+			error = reason;
+		});
+		await flushMicrotasks();
+		jest.advanceTimersByTime(20);
+		await finish("running");
+		jest.advanceTimersByTime(9);
+		await flushMicrotasks();
+		expect(error).toBeUndefined();
+		jest.advanceTimersByTime(1);
+		await flushMicrotasks();
+		expect(error).toBeInstanceOf(WorkerQueueTimeoutError);
+		expect(error).toMatchObject({ timeoutMs: 30 });
+	});
+
+	test("cancels and reprioritizes waiting calls", async () => {
+		const { finish, pool, run, started } = createPool();
+		run("running");
+		run("queued");
+		const controller = new AbortController();
+		const aborted = run("aborted", { signal: controller.signal });
+		const low = pool.submit("encode", ["low"]);
+		const high = pool.submit("encode", ["high"]);
+		await flushMicrotasks();
+		controller.abort();
+		await expect(aborted).rejects.toBeInstanceOf(WorkerTaskAbortedError);
+		expect(low.setPriority(5)).toBe(true);
+		high.cancel();
+		await expect(high.result).rejects.toBeInstanceOf(WorkerTaskAbortedError);
+		expect(pool.getStats().admissionQueue).toBe(1);
+
+		await finish("running");
+		await finish("queued");
+		await finish("low");
+		await expect(low.result).resolves.toBe("low");
+		expect(started).toEqual(["running", "queued", "low"]);
+	});
+
+	test("admits a queued call's slot to the next waiter when it leaves", async () => {
+		const { pool, run } = createPool();
+		run("running");
+		const controller = new AbortController();
+		run("queued", { signal: controller.signal });
+		run("waiting");
+		await flushMicrotasks();
+		controller.abort();
+		await flushMicrotasks();
+		expect(pool.getStats()).toMatchObject({ queue: 1, admissionQueue: 0 });
+	});
+
+	test("waits on a method's own queue limit", async () => {
+		const { finish, pool, run, started } = createPool({
+			maxQueueSize: 10,
+			admissionTimeoutMs: 10,
+			methodLimits: { upload: { maxConcurrent: 1, maxQueueSize: 1 } },
+		});
+		run("upload-running", undefined, "upload");
+		run("upload-queued", undefined, "upload");
+		const waiting = run("upload-waiting", undefined, "upload");
+		run("encode-queued", undefined, "encode");
+		await flushMicrotasks();
+		expect(pool.getStats()).toMatchObject({ queue: 2, admissionQueue: 1 });
+		await expect(waiting).rejects.toMatchObject({
+			maxQueueSize: 1,
+			method: "upload",
+		});
+		await finish("upload-running");
+		expect(started).toEqual(["upload-running", "upload-queued"]);
+	});
+
+	test("moves calls back to waiting when resize lowers maxQueueSize", async () => {
+		const { finish, pool, run, started } = createPool({ maxQueueSize: 3 });
+		run("running");
+		run("a");
+		run("b");
+		run("c");
+		await flushMicrotasks();
+		pool.resize({ maxQueueSize: 1 });
+		expect(pool.getStats()).toMatchObject({ queue: 1, admissionQueue: 2 });
+		pool.resize({ maxQueueSize: null });
+		expect(pool.getStats()).toMatchObject({ queue: 3, admissionQueue: 0 });
+		for (const label of ["running", "a", "b", "c"]) await finish(label);
+		expect(started).toEqual(["running", "a", "b", "c"]);
+	});
+
+	test("whenAvailable() resolves once the queue has room", async () => {
+		const { finish, pool, run } = createPool();
+		await pool.whenAvailable();
+		run("running");
+		run("queued");
+		run("waiting");
+		await flushMicrotasks();
+		let available = false;
+		const waiting = pool.whenAvailable().then(() => {
+			available = true;
+		});
+		await finish("running");
+		// The freed slot went to the waiting call first.
+		expect(available).toBe(false);
+		await finish("queued");
+		await waiting;
+		expect(pool.getStats().queueCapacityRemaining).toBe(1);
+
+		const unbounded = createPool({ maxQueueSize: undefined });
+		await unbounded.pool.whenAvailable();
+	});
+
+	test("closing the pool rejects waiting calls and whenAvailable()", async () => {
+		const { pool, run } = createPool();
+		run("running");
+		run("queued");
+		const waiting = run("waiting");
+		const available = pool.whenAvailable();
+		available.catch(() => {});
+		await pool.close();
+		await expect(waiting).rejects.toThrow("Worker pool has been terminated");
+		await expect(available).rejects.toThrow("Worker pool has been terminated");
+		await expect(pool.whenAvailable()).rejects.toThrow(
+			"Worker pool has been terminated",
+		);
+	});
+
+	test("drain() finishes waiting calls before closing", async () => {
+		const { finish, pool, run } = createPool();
+		run("running");
+		run("queued");
+		const waiting = run("waiting");
+		await flushMicrotasks();
+		const drained = pool.drain();
+		await finish("running");
+		await finish("queued");
+		await finish("waiting");
+		await expect(waiting).resolves.toBe("waiting");
+		await expect(drained).resolves.toMatchObject({ confirmed: true });
+	});
+
+	test("validates the policy and admissionTimeoutMs", async () => {
+		expect(() => createPool({ queueOverflowPolicy: "block" as never })).toThrow(
+			'queueOverflowPolicy must be "reject", "drop-oldest", "drop-newest", "drop-lowest-priority", "wait", or a function',
+		);
+		expect(() => createPool({ admissionTimeoutMs: 0 })).toThrow(
+			"admissionTimeoutMs must be a positive finite number",
+		);
+		const { run } = createPool();
+		await expect(run("invalid", { admissionTimeoutMs: -1 })).rejects.toThrow(
+			"admissionTimeoutMs must be a positive finite number",
+		);
+	});
+});
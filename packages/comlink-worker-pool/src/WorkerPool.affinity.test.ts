@@ -0,0 +1,205 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import type { WorkerPoolOptions, WorkerTaskOptions } from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+	holdCalls,
+} from "./__mocks__/testPool";
+
+type AffinityApi = {
+	run(label: string): Promise<string>;
+};
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<AffinityApi>> = {}) {
+	const { finish, hold } = holdCalls();
+	const workers: EventTarget[] = [];
+	const placements: [label: string, workerId: number][] = [];
+	const { pool, run } = createTestPool<AffinityApi>({
+		size: 2,
+		workerFactory: () => {
+			const worker = new EventTarget();
+			workers.push(worker);
+			return worker as unknown as Worker;
+		},
+		proxyFactory: (worker) => {
+			const workerId = workers.indexOf(worker as unknown as EventTarget);
+			return {
+				run: (label) => {
+					placements.push([label, workerId]);
+					return hold(label);
+				},
+			};
+		},
+		...options,
+	});
+	return {
+		finish,
+		placements,
+		pool,
+		run: (label: string, taskOptions?: WorkerTaskOptions) =>
+			run("run", [label], taskOptions),
+		workers,
+	};
+}
+
+describe("WorkerPool - affinity", () => {
+	test("routes keyed calls to the worker that last served the key", async () => {
+		const { finish, placements, pool, run } = createPool();
+		run("a", { affinityKey: "user-1" });
+		run("b", { affinityKey: "user-2" });
+		await flushMicrotasks();
+		await finish("a");
+		await finish("b");
+
+		run("c", { affinityKey: "user-2" });
+		run("d");
+		await flushMicrotasks();
+		expect(placements).toEqual([
+			["a", 0],
+			["b", 1],
+			["c", 1],
+			["d", 0],
+		]);
+		expect(pool.getStats().affinityKeys).toBe(2);
+	});
+
+	test("falls back to any worker and rebinds the key by default", async () => {
+		const { placements, pool, run } = createPool();
+		run("a", { affinityKey: "doc" });
+		run("b", { affinityKey: "doc" });
+		await flushMicrotasks();
+		expect(placements).toEqual([
+			["a", 0],
+			["b", 1],
+		]);
+		expect(pool.getStats().affinityKeys).toBe(1);
+	});
+
+	test("waits for the bound worker without blocking other calls", async () => {
+		const { finish, placements, pool, run } = createPool({
+			affinityFallback: "wait",
+		});
+		run("a", { affinityKey: "doc" });
+		run("b", { affinityKey: "doc" });
+		run("c");
+		await flushMicrotasks();
+		expect(placements).toEqual([
+			["a", 0],
+			["c", 1],
+		]);
+		expect(pool.getStats()).toMatchObject({ queue: 1, idleWorkers: 0 });
+
+		await finish("c");
+		expect(pool.getStats()).toMatchObject({ queue: 1, idleWorkers: 1 });
+		await finish("a");
+		expect(placements.at(-1)).toEqual(["b", 0]);
+	});
+
+	test("skips waiting keyed calls in priority order", async () => {
+		const { finish, placements, run } = createPool({
+			size: 3,
+			affinityFallback: "wait",
+		});
+		run("a", { affinityKey: "doc" });
+		run("b", { affinityKey: "sheet" });
+		run("held");
+		await flushMicrotasks();
+		run("doc-high", { affinityKey: "doc", priority: 9 });
+		run("sheet-high", { affinityKey: "sheet", priority: 8 });
+		run("doc-mid", { affinityKey: "doc", priority: 7 });
+		run("low", { priority: 1 });
+		run("lowest", { priority: 0 });
+
+		await finish("held");
+		expect(placements.at(-1)).toEqual(["low", 2]);
+		await finish("b");
+		expect(placements.at(-1)).toEqual(["sheet-high", 1]);
+		await finish("a");
+		expect(placements.at(-1)).toEqual(["doc-high", 0]);
+	});
+
+	test("re-homes keys when their worker crashes or retires", async () => {
+		const { finish, placements, pool, run, workers } = createPool({
+			affinityFallback: "wait",
+			maxTasksPerWorker: 2,
+		});
+		const crashed = run("a", { affinityKey: "doc" }).catch(
+			(error: unknown) => error,
+		);
+		run("b", { affinityKey: "doc" });
+		await flushMicrotasks();
+		expect(pool.getStats().queue).toBe(1);
+		expect(pool.inspect().affinity).toEqual({ doc: 0 });
+
+		workers[0].dispatchEvent(new Event("error"));
+		await crashed;
+		await flushMicrotasks();
+		expect(placements).toEqual([
+			["a", 0],
+			["b", 1],
+		]);
+		expect(pool.getStats().affinityKeys).toBe(1);
+		expect(pool.inspect().affinity).toEqual({ doc: 1 });
+
+		run("c", { affinityKey: "doc" });
+		await finish("b");
+		expect(placements.at(-1)).toEqual(["c", 1]);
+		await finish("c");
+		expect(pool.getStats().affinityKeys).toBe(0);
+		expect(pool.inspect().affinity).toEqual({});
+		run("d", { affinityKey: "doc" });
+		await flushMicrotasks();
+		expect(placements.at(-1)).toEqual(["d", 2]);
+		expect(pool.inspect().affinity).toEqual({ doc: 2 });
+	});
+
+	test("forgets the least recently used key beyond maxAffinityKeys", async () => {
+		const { finish, placements, pool, run } = createPool({
+			maxAffinityKeys: 2,
+		});
+		run("a", { affinityKey: "doc" });
+		run("b", { affinityKey: "sheet" });
+		await flushMicrotasks();
+		await finish("a");
+		await finish("b");
+		run("c", { affinityKey: "doc" });
+		await flushMicrotasks();
+		await finish("c");
+		run("d", { affinityKey: "slides" });
+		await flushMicrotasks();
+		await finish("d");
+		expect(pool.getStats().affinityKeys).toBe(2);
+		expect(Object.entries(pool.inspect().affinity)).toEqual([
+			["doc", 0],
+			["slides", 1],
+		]);
+
+		// "doc" was used after "sheet", so "sheet" was forgotten and its next
+		// call no longer goes back to worker 1.
+		run("e", { affinityKey: "sheet" });
+		await flushMicrotasks();
+		expect(placements).toEqual([
+			["a", 0],
+			["b", 1],
+			["c", 0],
+			["d", 1],
+			["e", 0],
+		]);
+	});
+
+	test("validates affinity options", async () => {
+		expect(() => createPool({ affinityFallback: "sticky" as never })).toThrow(
+			RangeError,
+		);
+		expect(() => createPool({ maxAffinityKeys: 0 })).toThrow(
+			"maxAffinityKeys must be at least 1 and a safe integer",
+		);
+		const { pool } = createPool();
+		await expect(
+			pool.run("run", ["job"], { affinityKey: 1 as never }),
+		).rejects.toBeInstanceOf(TypeError);
+	});
+});
@@ -0,0 +1,233 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import * as Comlink from "comlink";
+import {
+	WorkerCrashedError,
+	WorkerInitializationError,
+	type WorkerPoolOptions,
+	WorkerPoolTerminatedError,
+} from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+} from "./__mocks__/testPool";
+import { type PooledTaskContext, exposePooled } from "./worker";
+
+type BroadcastApi = {
+	configure(version: string): Promise<string>;
+	load(model: string): Promise<string>;
+	run(label: string): Promise<string>;
+};
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<BroadcastApi>> = {}) {
+	const workers: EventTarget[] = [];
+	const calls: string[] = [];
+	const held = new Set<string>();
+	const failing = new Set<string>();
+	const { events, pool } = createTestPool<BroadcastApi>({
+		size: 2,
+		workerFactory: () => {
+			const worker = new EventTarget();
+			workers.push(worker);
+			return worker as unknown as Worker;
+		},
+		proxyFactory: (worker) => {
+			const workerId = workers.indexOf(worker as unknown as EventTarget);
+			const call = async (name: string, value: string) => {
+				const entry = `${name}:${value}@${workerId}`;
+				calls.push(entry);
+				if (held.has(value)) await new Promise(() => {});
+				if (failing.has(entry)) throw new Error(`${entry} failed`);
+				return entry;
+			};
+			return {
+				configure: (version) => call("configure", version),
+				load: (model) => call("load", model),
+				run: (label) => call("run", label),
+			};
+		},
+		...options,
+	});
+	return { calls, events, failing, held, pool, workers };
+}
+
+describe("WorkerPool - broadcast", () => {
+	test("runs the call on every worker and keys outcomes by worker id", async () => {
+		const { failing, pool } = createPool();
+		await pool.warmup();
+		failing.add("configure:v2@1");
+
+		await expect(pool.broadcast("configure", ["v2"])).resolves.toEqual({
+			0: { status: "fulfilled", value: "configure:v2@0" },
+			1: {
+				status: "rejected",
+				reason: new Error("configure:v2@1 failed"),
+			},
+		});
+		await expect(
+			createPool().pool.broadcast("configure", ["v1"]),
+		).resolves.toEqual({});
+	});
+
+	test("reaches busy workers without using the task queue", async () => {
+		const { calls, held, pool } = createPool({ size: 1 });
+		held.add("busy");
+		pool.run("run", ["busy"]).catch(() => {});
+		await flushMicrotasks();
+
+		await expect(pool.broadcast("configure", ["v2"])).resolves.toEqual({
+			0: { status: "fulfilled", value: "configure:v2@0" },
+		});
+		expect(calls).toEqual(["run:busy@0", "configure:v2@0"]);
+		expect(pool.getStats()).toMatchObject({
+			submittedTasks: 1,
+			startedTasks: 1,
+			runningTasks: 1,
+			queue: 0,
+		});
+	});
+
+	test("skips workers retiring after a resize", async () => {
+		const { calls, held, pool } = createPool();
+		held.add("busy");
+		pool.run("run", ["busy"]).catch(() => {});
+		pool.run("run", ["busy"]).catch(() => {});
+		await flushMicrotasks();
+		pool.resize({ size: 1 });
+
+		await expect(pool.broadcast("configure", ["v2"])).resolves.toEqual({
+			1: { status: "fulfilled", value: "configure:v2@1" },
+		});
+		expect(calls).toEqual(["run:busy@0", "run:busy@1", "configure:v2@1"]);
+	});
+
+	test("waits for initializing workers", async () => {
+		let ready!: () => void;
+		const { calls, pool } = createPool({
+			size: 1,
+			initializeWorker: () =>
+				new Promise<void>((resolve) => {
+					ready = resolve;
+				}),
+		});
+		void pool.warmup();
+		const broadcast = pool.broadcast("configure", ["v2"]);
+		await flushMicrotasks();
+		expect(calls).toEqual([]);
+
+		ready();
+		await expect(broadcast).resolves.toEqual({
+			0: { status: "fulfilled", value: "configure:v2@0" },
+		});
+
+		const failing = createPool({
+			size: 1,
+			initializeWorker: async () => {
+				throw new Error("no model");
+			},
+		});
+		failing.pool.warmup().catch(() => {});
+		const outcome = await failing.pool.broadcast("configure", ["v2"]);
+		expect(outcome[0]).toMatchObject({ status: "rejected" });
+		expect((outcome[0] as PromiseRejectedResult).reason).toBeInstanceOf(
+			WorkerInitializationError,
+		);
+	});
+
+	test("replays the latest replayed broadcast of each method to new workers", async () => {
+		const { calls, pool } = createPool({
+			initializeWorker: (proxy) => proxy.configure("init"),
+		});
+		await pool.warmup(1);
+		await pool.broadcast("configure", ["v1"], { replay: true });
+		await pool.broadcast("load", ["small"], { replay: true });
+		await pool.broadcast("configure", ["v2"], { replay: true });
+		await pool.broadcast("load", ["ignored"]);
+		calls.length = 0;
+
+		await pool.warmup(2);
+		await expect(pool.run("run", ["job"])).resolves.toBe("run:job@0");
+		expect(calls).toEqual([
+			"configure:init@1",
+			"load:small@1",
+			"configure:v2@1",
+			"run:job@0",
+		]);
+	});
+
+	test("fails a new worker whose replay fails", async () => {
+		const { events, failing, pool } = createPool({ size: 1 });
+		await pool.broadcast("load", ["large"], { replay: true });
+		failing.add("load:large@0");
+
+		await expect(pool.run("run", ["job"])).rejects.toBeInstanceOf(
+			WorkerInitializationError,
+		);
+		expect(events).toContainEqual({
+			type: "worker-init-failed",
+			timestamp: expect.any(Number),
+			workerId: 0,
+			reason: "error",
+		});
+	});
+
+	test("rejects calls whose worker leaves the pool", async () => {
+		const { held, pool, workers } = createPool();
+		await pool.warmup();
+		held.add("stuck");
+		const broadcast = pool.broadcast("configure", ["stuck"]);
+		await flushMicrotasks();
+
+		workers[0].dispatchEvent(new Event("error"));
+		await pool.close();
+		const outcome = await broadcast;
+		expect((outcome[0] as PromiseRejectedResult).reason).toBeInstanceOf(
+			WorkerCrashedError,
+		);
+		expect((outcome[1] as PromiseRejectedResult).reason).toMatchObject({
+			name: "WorkerPoolTerminatedError",
+			message: "Worker 1 was removed before the broadcast settled",
+		});
+		await expect(pool.broadcast("configure", ["v3"])).rejects.toBeInstanceOf(
+			WorkerPoolTerminatedError,
+		);
+	});
+
+	test("calls pooled workers through their control channel", async () => {
+		const api = {
+			configure(this: PooledTaskContext, version: string) {
+				return `${version}#${this.taskId}`;
+			},
+		};
+		const { pool } = createTestPool<typeof api>({
+			pooledWorkers: true,
+			workerFactory: () => {
+				const worker = Object.assign(new EventTarget(), {
+					channel: new MessageChannel(),
+				});
+				exposePooled(api, worker.channel.port1);
+				return worker as unknown as Worker;
+			},
+			proxyFactory: (worker) =>
+				Comlink.wrap<typeof api>(
+					(worker as unknown as { channel: MessageChannel }).channel.port2,
+				) as unknown as typeof api,
+			workerTerminator: (worker) => {
+				const { channel } = worker as unknown as { channel: MessageChannel };
+				channel.port1.close();
+				channel.port2.close();
+			},
+		});
+		await pool.warmup();
+		await expect(pool.broadcast("configure", ["v2"])).resolves.toEqual({
+			0: { status: "fulfilled", value: "v2#-1" },
+		});
+		await expect(pool.broadcast("configure", ["v3"])).resolves.toEqual({
+			0: { status: "fulfilled", value: "v3#-2" },
+		});
+		// Broadcasts leave task ids to tasks.
+		await expect(pool.run("configure", ["task"])).resolves.toBe("task#0");
+	});
+});
@@ -0,0 +1,243 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import type { WorkerPoolOptions } from "./WorkerPool";
+import { closeTestPools, createTestPool, sleep } from "./__mocks__/testPool";
+
+type CacheApi = {
+	analyze(text: string): Promise<{ text: string; run: number }>;
+	measure(value: unknown): Promise<unknown>;
+};
+
+afterEach(closeTestPools);
+
+const byFirstArg = (_method: string, args: readonly unknown[]) =>
+	String(args[0]);
+
+function createPool(options: Partial<WorkerPoolOptions<CacheApi>> = {}) {
+	const calls: string[] = [];
+	const { events, pool } = createTestPool<CacheApi>({
+		proxyFactory: () => ({
+			analyze: async (text) => {
+				calls.push(text);
+				if (text === "bad") throw new Error("unparseable");
+				return { text, run: calls.length };
+			},
+			measure: async (value) => value,
+		}),
+		cache: { analyze: { key: byFirstArg } },
+		...options,
+	});
+	const outcomes = () =>
+		events.flatMap((event) =>
+			event.type === "task-settled" ? [event.outcome] : [],
+		);
+	return { calls, events, outcomes, pool };
+}
+
+describe("WorkerPool - result cache", () => {
+	test("answers repeated calls without scheduling a task", async () => {
+		const { calls, events, outcomes, pool } = createPool();
+		const first = await pool.run("analyze", ["a"]);
+		await expect(pool.run("analyze", ["a"])).resolves.toBe(first);
+		await expect(pool.getApi().analyze("a")).resolves.toBe(first);
+		expect(calls).toEqual(["a"]);
+		expect(outcomes()).toEqual(["fulfilled", "cached", "cached"]);
+		expect(events.filter((event) => event.type === "task-queued")).toHaveLength(
+			1,
+		);
+		expect(events.at(-1)).toMatchObject({
+			type: "task-settled",
+			method: "analyze",
+			outcome: "cached",
+			durationMs: 0,
+			callers: 1,
+		});
+		expect(pool.getStats()).toMatchObject({
+			cacheHits: 2,
+			cacheMisses: 1,
+			submittedTasks: 1,
+			completedTasks: 1,
+		});
+
+		await expect(pool.run("analyze", ["bad"])).rejects.toThrow("unparseable");
+		await expect(pool.run("analyze", ["bad"])).rejects.toThrow("unparseable");
+		expect(calls).toEqual(["a", "bad", "bad"]);
+	});
+
+	test("counts a call that joins an in-flight task as neither hit nor miss", async () => {
+		const { calls, pool } = createPool({ dedupe: { analyze: byFirstArg } });
+		const [first, joined] = await Promise.all([
+			pool.run("analyze", ["a"]),
+			pool.run("analyze", ["a"]),
+		]);
+		expect(joined).toBe(first);
+		expect(calls).toEqual(["a"]);
+		expect(pool.getStats()).toMatchObject({
+			cacheHits: 0,
+			cacheMisses: 1,
+			dedupedCalls: 1,
+		});
+	});
+
+	test("expires results after ttlMs", async () => {
+		const { calls, pool } = createPool({
+			cache: { analyze: { key: byFirstArg, ttlMs: 15 } },
+		});
+		await pool.run("analyze", ["a"]);
+		await pool.run("analyze", ["a"]);
+		await sleep(30);
+		await expect(pool.run("analyze", ["a"])).resolves.toEqual({
+			text: "a",
+			run: 2,
+		});
+		expect(calls).toEqual(["a", "a"]);
+	});
+
+	test("evicts the least recently used results", async () => {
+		const { calls, pool } = createPool({
+			cache: { analyze: { key: byFirstArg, maxEntries: 2 } },
+		});
+		await pool.run("analyze", ["a"]);
+		await pool.run("analyze", ["b"]);
+		await pool.run("analyze", ["a"]);
+		await pool.run("analyze", ["c"]);
+		await pool.run("analyze", ["a"]);
+		await pool.run("analyze", ["b"]);
+		expect(calls).toEqual(["a", "b", "c", "b"]);
+	});
+
+	test("bounds cached bytes", async () => {
+		const sized = createPool({
+			cache: {
+				analyze: { key: byFirstArg, maxBytes: 10, sizeOf: () => 4 },
+			},
+		});
+		for (const text of ["a", "b", "c", "a", "huge"]) {
+			await sized.pool.run("analyze", [text]);
+		}
+		expect(sized.calls).toEqual(["a", "b", "c", "a", "huge"]);
+
+		const cycle: Record<string, unknown> = { id: 1 };
+		cycle.self = cycle;
+		const value = {
+			text: "ab",
+			bytes: new Uint8Array(16),
+			buffer: new ArrayBuffer(8),
+			flags: [true, 2n, undefined, null],
+			map: new Map([["k", "v"]]),
+			set: new Set(["s"]),
+			cycle,
+		};
+		// Keys 62, "ab" 4, binary 24, flags 12, map 4, set 2, cycle 20.
+		const bytes = 128;
+		const measured = createPool({
+			cache: { measure: { key: byFirstArg, maxBytes: bytes } },
+		});
+		await measured.pool.run("measure", [value]);
+		await measured.pool.run("measure", [value]);
+		expect(measured.pool.getStats().cacheHits).toBe(1);
+
+		const tooSmall = createPool({
+			cache: { measure: { key: byFirstArg, maxBytes: bytes - 1 } },
+		});
+		await tooSmall.pool.run("measure", [value]);
+		await tooSmall.pool.run("measure", [value]);
+		expect(tooSmall.pool.getStats().cacheHits).toBe(0);
+	});
+
+	test("invalidates results by method and key", async () => {
+		let release!: () => void;
+		const { calls, pool } = createPool({
+			cache: {
+				analyze: { key: byFirstArg },
+				measure: { key: byFirstArg },
+			},
+		});
+		await pool.run("analyze", ["a"]);
+		await pool.run("analyze", ["b"]);
+		await pool.run("measure", ["m"]);
+		expect(pool.cache.invalidate("analyze", (key) => key === "a")).toBe(1);
+		await pool.run("analyze", ["a"]);
+		await pool.run("analyze", ["b"]);
+		expect(calls).toEqual(["a", "b", "a"]);
+		expect(pool.cache.invalidate()).toBe(3);
+		expect(pool.cache.invalidate("measure")).toBe(0);
+
+		const slow = createPool({
+			proxyFactory: () => ({
+				analyze: (text) =>
+					new Promise((resolve) => {
+						release = () => resolve({ text, run: 0 });
+					}),
+				measure: async (value) => value,
+			}),
+		});
+		const inFlight = slow.pool.run("analyze", ["a"]);
+		await sleep(0);
+		slow.pool.cache.invalidate("analyze");
+		release();
+		await inFlight;
+		const refreshed = slow.pool.run("analyze", ["a"]);
+		await sleep(0);
+		release();
+		await refreshed;
+		expect(slow.pool.getStats()).toMatchObject({ cacheMisses: 2 });
+
+		await pool.close();
+		expect(pool.cache.invalidate()).toBe(0);
+	});
+
+	test("skips the cache per call, for undefined keys, and for streams", async () => {
+		const { calls, pool } = createPool({
+			cache: {
+				analyze: {
+					key: (_method, [text]) =>
+						text === "live" ? undefined : String(text),
+				},
+			},
+		});
+		await pool.run("analyze", ["a"]);
+		await pool.run("analyze", ["a"], { cache: false });
+		await pool.run("analyze", ["live"]);
+		await pool.run("analyze", ["live"]);
+		pool
+			.stream("analyze", ["a"])
+			.next()
+			.catch(() => {});
+		await sleep(0);
+		expect(calls).toEqual(["a", "a", "live", "live", "a"]);
+		expect(pool.getStats()).toMatchObject({ cacheHits: 0, cacheMisses: 1 });
+	});
+
+	test("validates cache policies and keys", async () => {
+		expect(() => createPool({ cache: 1 as never })).toThrow(
+			"cache must be an object",
+		);
+		expect(() => createPool({ cache: { analyze: null as never } })).toThrow(
+			"cache.analyze must be an object",
+		);
+		expect(() => createPool({ cache: { analyze: {} as never } })).toThrow(
+			"cache.analyze.key must be a function",
+		);
+		expect(() =>
+			createPool({ cache: { analyze: { key: byFirstArg, maxEntries: 0 } } }),
+		).toThrow(RangeError);
+		expect(() =>
+			createPool({ cache: { analyze: { key: byFirstArg, maxBytes: 1.5 } } }),
+		).toThrow(RangeError);
+		expect(() =>
+			createPool({ cache: { analyze: { key: byFirstArg, ttlMs: -1 } } }),
+		).toThrow(RangeError);
+		expect(() =>
+			createPool({
+				cache: { analyze: { key: byFirstArg, sizeOf: 1 as never } },
+			}),
+		).toThrow(TypeError);
+
+		const { pool } = createPool({
+			cache: { analyze: { key: () => 1 as never } },
+		});
+		await expect(pool.run("analyze", ["a"])).rejects.toThrow(
+			"cache keys must be strings",
+		);
+	});
+});
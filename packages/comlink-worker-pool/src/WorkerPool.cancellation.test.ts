@@ -0,0 +1,222 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import * as Comlink from "comlink";
+import {
+	type WorkerPoolOptions,
+	WorkerPoolTerminatedError,
+	WorkerTaskAbortedError,
+	WorkerTaskTimeoutError,
+} from "./WorkerPool";
+import { closeTestPools, createTestPool } from "./__mocks__/testPool";
+import { type PooledTaskContext, exposePooled } from "./worker";
+
+const observedAborts: { taskId: number; reason: unknown }[] = [];
+
+const cooperativeApi = {
+	waitForAbort(this: PooledTaskContext, label: string): Promise<string> {
+		return new Promise((_resolve, reject) => {
+			this.signal.addEventListener("abort", () => {
+				observedAborts.push({
+					taskId: this.taskId,
+					reason: this.signal.reason,
+				});
+				reject(this.signal.reason);
+			});
+			void label;
+		});
+	},
+	async pulse(this: PooledTaskContext, beats: number): Promise<number> {
+		for (let beat = 0; beat < beats; beat++) {
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			this.heartbeat();
+		}
+		return beats;
+	},
+	beatOnce(this: PooledTaskContext, timeoutMs: number): Promise<never> {
+		this.heartbeat(timeoutMs);
+		return new Promise(() => {});
+	},
+	label(value: string) {
+		return `value:${value}`;
+	},
+	format(
+		this: PooledTaskContext & { label(value: string): string },
+		value: string,
+	) {
+		return `${this.label(value)}#${this.taskId}`;
+	},
+};
+
+type CooperativeApi = typeof cooperativeApi;
+
+class ChannelWorker extends EventTarget {
+	readonly channel = new MessageChannel();
+	terminated = false;
+
+	constructor() {
+		super();
+		exposePooled(cooperativeApi, this.channel.port1);
+	}
+
+	terminate(): void {
+		this.terminated = true;
+		// Deferred closing models a terminator that lets posted messages drain.
+		setTimeout(() => {
+			this.channel.port1.close();
+			this.channel.port2.close();
+		}, 5);
+	}
+}
+
+function createPool(options: Partial<WorkerPoolOptions<CooperativeApi>> = {}) {
+	return createTestPool<CooperativeApi>({
+		pooledWorkers: true,
+		...options,
+		workerFactory: () => new ChannelWorker() as unknown as Worker,
+		proxyFactory: (worker) =>
+			Comlink.wrap<CooperativeApi>(
+				(worker as unknown as ChannelWorker).channel.port2,
+			) as unknown as CooperativeApi,
+		workerTerminator: (worker) => worker.terminate(),
+	}).pool;
+}
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+	for (let attempt = 0; attempt < 50 && !predicate(); attempt++) {
+		await new Promise((resolve) => setTimeout(resolve, 1));
+	}
+	expect(predicate()).toBe(true);
+}
+
+afterEach(async () => {
+	await closeTestPools();
+	observedAborts.length = 0;
+});
+
+describe("WorkerPool - cooperative cancellation", () => {
+	test("binds a task context that keeps sibling API members reachable", async () => {
+		const pool = createPool();
+		const events: number[] = [];
+		const observed = createPool({
+			onEvent: (event) => {
+				if (event.type === "task-started") events.push(event.taskId);
+			},
+		});
+		await expect(pool.run("format", ["a"])).resolves.toBe("value:a#0");
+		await expect(observed.run("format", ["b"])).resolves.toBe(
+			`value:b#${events[0]}`,
+		);
+	});
+
+	test("forwards caller aborts and frees the slot once the worker stops", async () => {
+		const pool = createPool();
+		const controller = new AbortController();
+		const running = pool.run("waitForAbort", ["job"], {
+			signal: controller.signal,
+		});
+		await waitFor(() => pool.getStats().runningTasks === 1);
+		await new Promise((resolve) => setTimeout(resolve, 1));
+		controller.abort("navigated away");
+		await expect(running).rejects.toBeInstanceOf(WorkerTaskAbortedError);
+		await waitFor(() => pool.getStats().runningTasks === 0);
+		expect(observedAborts).toHaveLength(1);
+		expect(observedAborts[0]).toMatchObject({
+			taskId: 0,
+			reason: { name: "WorkerTaskAbortedError" },
+		});
+		expect(pool.getStats()).toMatchObject({ workers: 1, cancelledTasks: 1 });
+	});
+
+	test("forwards task timeouts and shutdown before workers are recycled", async () => {
+		const timed = createPool({ taskTimeoutMs: 20 });
+		await expect(timed.run("waitForAbort", ["slow"])).rejects.toBeInstanceOf(
+			WorkerTaskTimeoutError,
+		);
+		const closing = createPool();
+		const pending = closing.run("waitForAbort", ["closing"]);
+		await waitFor(() => closing.getStats().runningTasks === 1);
+		await new Promise((resolve) => setTimeout(resolve, 1));
+		closing.terminateAll();
+		await expect(pending).rejects.toBeInstanceOf(WorkerPoolTerminatedError);
+		await waitFor(() => observedAborts.length === 2);
+		expect(observedAborts.map(({ reason }) => (reason as Error).name)).toEqual([
+			"WorkerTaskTimeoutError",
+			"WorkerPoolTerminatedError",
+		]);
+	});
+
+	test("keeps a worker that stops at the soft task deadline", async () => {
+		const removed: string[] = [];
+		const pool = createPool({
+			taskTimeoutMs: 20,
+			taskTimeoutGraceMs: 60_000,
+			onEvent: (event) => {
+				if (event.type === "worker-removed") removed.push(event.reason);
+			},
+		});
+		await expect(pool.run("waitForAbort", ["slow"])).rejects.toBeInstanceOf(
+			WorkerTaskTimeoutError,
+		);
+		await waitFor(() => pool.getStats().runningTasks === 0);
+		expect(observedAborts[0]?.reason).toMatchObject({
+			name: "WorkerTaskTimeoutError",
+		});
+		expect(removed).toEqual([]);
+		expect(pool.getStats()).toMatchObject({ workers: 1, timedOutTasks: 1 });
+	});
+
+	test("fails calls whose worker stops sending heartbeats", async () => {
+		const removed: string[] = [];
+		const pool = createPool({
+			size: 2,
+			taskTimeoutMs: false,
+			inactivityTimeoutMs: 30,
+			onEvent: (event) => {
+				if (event.type === "worker-removed") removed.push(event.reason);
+			},
+		});
+		await expect(pool.run("pulse", [8])).resolves.toBe(8);
+		await expect(pool.run("waitForAbort", ["silent"])).rejects.toMatchObject({
+			name: "WorkerTaskTimeoutError",
+			timeoutMs: 30,
+			inactivity: true,
+		});
+		await expect(pool.run("beatOnce", [5])).rejects.toMatchObject({
+			timeoutMs: 5,
+			inactivity: true,
+		});
+		await expect(pool.run("beatOnce", [0])).rejects.toThrow(
+			"timeoutMs must be a positive finite number",
+		);
+		expect(removed).toEqual(["task-timeout", "task-timeout"]);
+		expect(observedAborts[0]?.reason).toMatchObject({
+			name: "WorkerTaskTimeoutError",
+			message: "Worker task sent no heartbeat for 30ms",
+		});
+	});
+
+	test("does not invoke work aborted before it reached the worker", async () => {
+		const calls: string[] = [];
+		const { pool } = createTestPool<{ run(value: string): Promise<string> }>({
+			proxyFactory: () => ({
+				run: async (value) => {
+					calls.push(value);
+					return value;
+				},
+			}),
+		});
+		const controller = new AbortController();
+		const aborted = pool.run("run", ["aborted"], { signal: controller.signal });
+		controller.abort();
+		await expect(aborted).rejects.toBeInstanceOf(WorkerTaskAbortedError);
+		await expect(pool.run("run", ["next"])).resolves.toBe("next");
+		expect(calls).toEqual(["next"]);
+	});
+
+	test("reports a missing pooled control channel as a task failure", async () => {
+		const { pool } = createTestPool<{ run(): Promise<void> }>({
+			pooledWorkers: true,
+			proxyFactory: () => ({ run: async () => {} }),
+		});
+		await expect(pool.run("run", [])).rejects.toThrow(/exposePooled/);
+	});
+});
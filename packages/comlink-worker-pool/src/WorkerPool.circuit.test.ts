@@ -0,0 +1,268 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	WorkerCircuitOpenError,
+	type WorkerPoolOptions,
+	WorkerTaskAbortedError,
+	type WorkerTaskOptions,
+} from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+	holdCalls,
+	sleep,
+} from "./__mocks__/testPool";
+
+type CircuitApi = {
+	parse(label: string): Promise<string>;
+	render(label: string): Promise<string>;
+};
+
+const breaker = {
+	failureThreshold: 0.5,
+	windowMs: 1_000,
+	minimumCalls: 2,
+	openMs: 30,
+};
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<CircuitApi>> = {}) {
+	const { finish, hold, started } = holdCalls();
+	const { events, pool, run } = createTestPool<CircuitApi>({
+		size: 2,
+		proxyFactory: () => ({ parse: hold, render: hold }),
+		circuitBreaker: { parse: breaker },
+		...options,
+	});
+	const transitions = () =>
+		events.flatMap((event) =>
+			event.type === "circuit-state-changed" ? [event.state] : [],
+		);
+	return {
+		events,
+		finish,
+		pool,
+		run: (
+			method: keyof CircuitApi,
+			label: string,
+			taskOptions?: WorkerTaskOptions,
+		) => run(method, [label], taskOptions),
+		started,
+		transitions,
+	};
+}
+
+/** Fails enough parse attempts to open the default test breaker. */
+async function trip(
+	run: ReturnType<typeof createPool>["run"],
+	finish: ReturnType<typeof createPool>["finish"],
+): Promise<void> {
+	run("parse", "bad1");
+	run("parse", "bad2");
+	await flushMicrotasks();
+	await finish("bad1", new Error("corrupt data"));
+	await finish("bad2", new Error("corrupt data"));
+}
+
+describe("WorkerPool - circuit breaker", () => {
+	test("opens at the failure threshold and fails calls fast", async () => {
+		const { events, finish, pool, run, started, transitions } = createPool();
+		run("parse", "ok");
+		await flushMicrotasks();
+		await finish("ok");
+		await trip(run, finish);
+		expect(transitions()).toEqual(["open"]);
+
+		const rejected = run("parse", "next");
+		await expect(rejected).rejects.toBeInstanceOf(WorkerCircuitOpenError);
+		await expect(rejected).rejects.toMatchObject({
+			method: "parse",
+			retryAfterMs: expect.any(Number),
+		});
+		expect(events.at(-1)).toMatchObject({
+			type: "task-settled",
+			method: "parse",
+			outcome: "circuit-open",
+		});
+		run("render", "other");
+		await flushMicrotasks();
+		expect(started).toEqual(["ok", "bad1", "bad2", "other"]);
+		expect(pool.getStats().methods.parse.circuit).toEqual({
+			state: "open",
+			attempts: 0,
+			failureRate: 0,
+			retryAfterMs: expect.any(Number),
+		});
+		expect(pool.getStats().methods.render.circuit).toBeNull();
+	});
+
+	test("closes after successful half-open probes", async () => {
+		const { finish, pool, run, started, transitions } = createPool({
+			circuitBreaker: { parse: { ...breaker, halfOpenProbes: 2 } },
+		});
+		await trip(run, finish);
+		await sleep(40);
+		expect(transitions()).toEqual(["open", "half-open"]);
+
+		const probes = ["p1", "p2", "p3"].map((label) => run("parse", label));
+		await flushMicrotasks();
+		expect(started).toEqual(["bad1", "bad2", "p1", "p2"]);
+		expect(pool.getStats().methods.parse.queue).toBe(1);
+		await finish("p1");
+		expect(started).toEqual(["bad1", "bad2", "p1", "p2", "p3"]);
+		await finish("p2");
+		await finish("p3");
+		await expect(Promise.all(probes)).resolves.toEqual(["p1", "p2", "p3"]);
+		expect(transitions()).toEqual(["open", "half-open", "closed"]);
+		expect(pool.getStats().methods.parse.circuit).toMatchObject({
+			state: "closed",
+			attempts: 1,
+			failureRate: 0,
+		});
+	});
+
+	test("reopens when a probe fails and rejects waiting calls", async () => {
+		const { finish, pool, run, transitions } = createPool();
+		await trip(run, finish);
+		await sleep(40);
+		const probe = run("parse", "probe");
+		const waiting = run("parse", "waiting");
+		await flushMicrotasks();
+		expect(pool.getStats().methods.parse.queue).toBe(1);
+
+		const failure = new Error("still corrupt");
+		await finish("probe", failure);
+		await expect(probe).rejects.toBe(failure);
+		await expect(waiting).rejects.toBeInstanceOf(WorkerCircuitOpenError);
+		expect(transitions()).toEqual(["open", "half-open", "open"]);
+		expect(pool.getStats()).toMatchObject({ queue: 0, failedTasks: 4 });
+	});
+
+	test("frees the probe slot when its caller leaves", async () => {
+		const { finish, run, started } = createPool();
+		await trip(run, finish);
+		await sleep(40);
+		const controller = new AbortController();
+		const probe = run("parse", "left", { signal: controller.signal });
+		const next = run("parse", "next");
+		await flushMicrotasks();
+		controller.abort();
+		await expect(probe).rejects.toBeInstanceOf(WorkerTaskAbortedError);
+		await finish("left");
+		expect(started).toEqual(["bad1", "bad2", "left", "next"]);
+		await finish("next");
+		await expect(next).resolves.toBe("next");
+	});
+
+	test("forgets failures older than the window", async () => {
+		const { finish, run, transitions } = createPool({
+			circuitBreaker: {
+				parse: { failureThreshold: 1, windowMs: 15, openMs: 30 },
+			},
+		});
+		for (let index = 0; index < 4; index++) {
+			run("parse", `bad${index}`);
+			await flushMicrotasks();
+			await finish(`bad${index}`, new Error("flaky"));
+		}
+		await sleep(25);
+		run("parse", "bad4");
+		await flushMicrotasks();
+		await finish("bad4", new Error("flaky"));
+		expect(transitions()).toEqual([]);
+	});
+
+	test("counts only failures selected by failureOn", async () => {
+		const { finish, run, transitions } = createPool({
+			circuitBreaker: {
+				parse: {
+					...breaker,
+					failureThreshold: 0.4,
+					failureOn: (_outcome, error) => {
+						if ((error as Error).message === "throw") {
+							throw new Error("classifier failed");
+						}
+						return (error as Error).message !== "bad input";
+					},
+				},
+			},
+		});
+		for (const message of ["bad input", "bad input", "bad input", "throw"]) {
+			run("parse", message);
+			await flushMicrotasks();
+			await finish(message, new Error(message));
+		}
+		expect(transitions()).toEqual([]);
+		run("parse", "crash");
+		await flushMicrotasks();
+		await finish("crash", new Error("crash"));
+		expect(transitions()).toEqual(["open"]);
+	});
+
+	test("stops retrying calls once the breaker opens", async () => {
+		const { finish, pool, run, started } = createPool({
+			circuitBreaker: {
+				parse: {
+					failureThreshold: 1,
+					windowMs: 1_000,
+					minimumCalls: 2,
+					openMs: 30,
+				},
+			},
+			retry: { maxAttempts: 3, backoffMs: 20, retryOn: () => true },
+		});
+		const first = run("parse", "a");
+		const second = run("parse", "b");
+		await flushMicrotasks();
+		await finish("a", new Error("a failed"));
+		const failure = new Error("b failed");
+		await finish("b", failure);
+		await expect(second).rejects.toBe(failure);
+		await expect(first).rejects.toBeInstanceOf(WorkerCircuitOpenError);
+		expect(started).toEqual(["a", "b"]);
+		expect(pool.getStats().retriedTasks).toBe(1);
+		await pool.close();
+	});
+
+	test("validates circuit breaker policies", () => {
+		expect(() => createPool({ circuitBreaker: 1 as never })).toThrow(
+			"circuitBreaker must be an object",
+		);
+		expect(() =>
+			createPool({ circuitBreaker: { parse: null as never } }),
+		).toThrow("circuitBreaker.parse must be an object");
+		for (const failureThreshold of [0, 1.5, "1" as never]) {
+			expect(() =>
+				createPool({
+					circuitBreaker: { parse: { ...breaker, failureThreshold } },
+				}),
+			).toThrow("circuitBreaker.parse.failureThreshold");
+		}
+		expect(() =>
+			createPool({
+				circuitBreaker: { parse: { ...breaker, openMs: undefined as never } },
+			}),
+		).toThrow("circuitBreaker.parse.openMs must be a positive finite number");
+		expect(() =>
+			createPool({
+				circuitBreaker: { parse: { ...breaker, windowMs: -1 } },
+			}),
+		).toThrow(RangeError);
+		expect(() =>
+			createPool({
+				circuitBreaker: { parse: { ...breaker, minimumCalls: 0 } },
+			}),
+		).toThrow(RangeError);
+		expect(() =>
+			createPool({
+				circuitBreaker: { parse: { ...breaker, halfOpenProbes: 0 } },
+			}),
+		).toThrow(RangeError);
+		expect(() =>
+			createPool({
+				circuitBreaker: { parse: { ...breaker, failureOn: true as never } },
+			}),
+		).toThrow(TypeError);
+	});
+});
@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	WorkerDeadlineExceededError,
+	type WorkerPoolOptions,
+	type WorkerTaskOptions,
+} from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+	holdCalls,
+	sleep,
+} from "./__mocks__/testPool";
+
+type DeadlineApi = {
+	render(label: string): Promise<string>;
+};
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<DeadlineApi>> = {}) {
+	const { finish, hold, started } = holdCalls();
+	const { events, pool, run } = createTestPool<DeadlineApi>({
+		proxyFactory: () => ({ render: hold }),
+		...options,
+	});
+	return {
+		events,
+		finish,
+		pool,
+		run: (label: string, taskOptions?: WorkerTaskOptions) =>
+			run("render", [label], taskOptions),
+		started,
+	};
+}
+
+describe("WorkerPool - deadlines", () => {
+	test("rejects a call whose deadline passes while it waits", async () => {
+		const { events, finish, pool, run, started } = createPool();
+		run("running");
+		const late = run("late", { deadlineMs: 20 });
+		await expect(late).rejects.toBeInstanceOf(WorkerDeadlineExceededError);
+		await expect(late).rejects.toMatchObject({ budgetMs: 20, started: false });
+		expect(pool.getStats()).toMatchObject({ queue: 0, timedOutTasks: 1 });
+		expect(events).toContainEqual(
+			expect.objectContaining({
+				type: "task-settled",
+				taskId: 1,
+				outcome: "deadline-exceeded",
+			}),
+		);
+		await finish("running");
+		expect(started).toEqual(["running"]);
+	});
+
+	test("rejects a running call at its deadline and keeps its worker", async () => {
+		const { events, finish, pool, run } = createPool();
+		const running = run("running", {
+			deadline: performance.now() + 60_000,
+			deadlineMs: 15,
+		});
+		const next = run("next");
+		await expect(running).rejects.toMatchObject({
+			name: "WorkerDeadlineExceededError",
+			budgetMs: 15,
+			started: true,
+		});
+		// The attempt keeps its slot until the worker returns.
+		expect(pool.getStats()).toMatchObject({ runningTasks: 1, queue: 1 });
+		await finish("running");
+		await finish("next");
+		await expect(next).resolves.toBe("next");
+		expect(events.some(({ type }) => type === "worker-removed")).toBe(false);
+	});
+
+	test("skips dispatch when less than minDispatchBudgetMs remains", async () => {
+		const { finish, run, started } = createPool({ minDispatchBudgetMs: 50 });
+		run("running");
+		const skipped = run("skipped", { deadlineMs: 60 });
+		const rejected = run("rejected", { deadline: performance.now() + 10 });
+		await expect(rejected).rejects.toMatchObject({ started: false });
+		await sleep(15);
+		await finish("running");
+		await expect(skipped).rejects.toMatchObject({
+			name: "WorkerDeadlineExceededError",
+			started: false,
+		});
+		expect(started).toEqual(["running"]);
+	});
+
+	test("does not retry when the backoff would outlast the deadline", async () => {
+		const { finish, pool, run, started } = createPool({
+			retry: { maxAttempts: 3, backoffMs: 50, retryOn: () => true },
+		});
+		const failed = run("failed", { deadlineMs: 40 });
+		await flushMicrotasks();
+		await finish("failed", new Error("boom"));
+		await expect(failed).rejects.toThrow("boom");
+		expect(started).toEqual(["failed"]);
+		expect(pool.getStats()).toMatchObject({ retriedTasks: 0, failedTasks: 1 });
+	});
+
+	test("orders equal priorities earliest deadline first when enabled", async () => {
+		const order = async (earliestDeadlineFirst: boolean) => {
+			const { finish, run, started } = createPool({ earliestDeadlineFirst });
+			run("running");
+			run("later", { deadlineMs: 60_000 });
+			run("unbounded");
+			run("sooner", { deadlineMs: 30_000 });
+			run("urgent", { priority: 1, deadlineMs: 90_000 });
+			await flushMicrotasks();
+			while (started.length < 5) {
+				await finish(started[started.length - 1]);
+			}
+			return started;
+		};
+		expect(await order(true)).toEqual([
+			"running",
+			"urgent",
+			"sooner",
+			"later",
+			"unbounded",
+		]);
+		expect(await order(false)).toEqual([
+			"running",
+			"urgent",
+			"later",
+			"unbounded",
+			"sooner",
+		]);
+	});
+
+	test("validates deadline options", async () => {
+		expect(() => createPool({ minDispatchBudgetMs: -1 })).toThrow(
+			"minDispatchBudgetMs must be a positive finite number",
+		);
+		const { run } = createPool();
+		await expect(run("invalid", { deadline: Number.NaN })).rejects.toThrow(
+			"deadline must be a finite number",
+		);
+		await expect(run("invalid", { deadlineMs: 0 })).rejects.toThrow(
+			"deadlineMs must be a positive finite number",
+		);
+	});
+});
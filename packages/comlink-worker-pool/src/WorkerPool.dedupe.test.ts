@@ -0,0 +1,216 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	type WorkerPoolOptions,
+	WorkerTaskAbortedError,
+	type WorkerTaskOptions,
+} from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+	holdCalls,
+} from "./__mocks__/testPool";
+
+type DedupeApi = {
+	analyzeText(text: string): Promise<string>;
+	render(text: string): Promise<string>;
+};
+
+const byText = (_method: string, args: readonly unknown[]) => String(args[0]);
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<DedupeApi>> = {}) {
+	const { finish, hold } = holdCalls();
+	const calls: string[] = [];
+	const record = (method: keyof DedupeApi) => (text: string) => {
+		calls.push(`${method}:${text}`);
+		return hold(text, `${method}:${text}`);
+	};
+	const { events, pool, run } = createTestPool<DedupeApi>({
+		proxyFactory: () => ({
+			analyzeText: record("analyzeText"),
+			render: record("render"),
+		}),
+		dedupe: { analyzeText: byText },
+		...options,
+	});
+	const settled = () =>
+		events.flatMap((event) =>
+			event.type === "task-settled" ? [[event.outcome, event.callers]] : [],
+		);
+	return {
+		calls,
+		finish,
+		pool,
+		run: (
+			method: keyof DedupeApi,
+			text: string,
+			taskOptions?: WorkerTaskOptions,
+		) => run(method, [text], taskOptions),
+		settled,
+	};
+}
+
+describe("WorkerPool - dedupe", () => {
+	test("shares queued and running tasks among identical calls", async () => {
+		const { calls, finish, pool, run, settled } = createPool();
+		const running = [run("analyzeText", "a")];
+		const queued = [run("analyzeText", "b"), run("analyzeText", "b")];
+		await flushMicrotasks();
+		running.push(run("analyzeText", "a"));
+		queued.push(run("analyzeText", "b"));
+		expect(pool.getStats()).toMatchObject({
+			submittedTasks: 2,
+			dedupedCalls: 3,
+			queue: 1,
+		});
+
+		await finish("a");
+		await expect(Promise.all(running)).resolves.toEqual([
+			"analyzeText:a",
+			"analyzeText:a",
+		]);
+		await finish("b");
+		await expect(Promise.all(queued)).resolves.toEqual([
+			"analyzeText:b",
+			"analyzeText:b",
+			"analyzeText:b",
+		]);
+		expect(calls).toEqual(["analyzeText:a", "analyzeText:b"]);
+		expect(settled()).toEqual([
+			["fulfilled", 2],
+			["fulfilled", 3],
+		]);
+
+		const again = run("analyzeText", "a");
+		await flushMicrotasks();
+		await finish("a");
+		await expect(again).resolves.toBe("analyzeText:a");
+		expect(calls).toEqual(["analyzeText:a", "analyzeText:b", "analyzeText:a"]);
+	});
+
+	test("shares failures with every caller", async () => {
+		const { finish, run } = createPool();
+		const first = run("analyzeText", "a");
+		const second = run("analyzeText", "a");
+		const failure = new Error("parse failed");
+		await flushMicrotasks();
+		await finish("a", failure);
+		await expect(first).rejects.toBe(failure);
+		await expect(second).rejects.toBe(failure);
+	});
+
+	test("keys calls per method and honors per-call options", async () => {
+		const { calls, pool, run } = createPool({
+			dedupe: {
+				analyzeText: byText,
+				render: (_method, args) => (args[0] === "skip" ? undefined : "same"),
+			},
+		});
+		run("analyzeText", "x");
+		run("render", "x");
+		run("render", "y");
+		run("render", "skip");
+		run("render", "skip");
+		run("analyzeText", "x", { dedupe: false });
+		run("render", "z", { dedupe: () => "other" });
+		run("render", "w", { dedupe: () => "other" });
+		await flushMicrotasks();
+		expect(pool.getStats()).toMatchObject({
+			submittedTasks: 6,
+			dedupedCalls: 2,
+		});
+		expect(calls).toEqual(["analyzeText:x"]);
+
+		const streaming = createPool();
+		for (let index = 0; index < 2; index++) {
+			streaming.pool
+				.stream("analyzeText", ["s"])
+				.next()
+				.catch(() => {});
+		}
+		expect(streaming.pool.getStats()).toMatchObject({
+			submittedTasks: 2,
+			dedupedCalls: 0,
+		});
+	});
+
+	test("an abort detaches only its caller until every caller has left", async () => {
+		const { calls, finish, pool, run, settled } = createPool();
+		run("render", "busy");
+		const first = new AbortController();
+		const second = new AbortController();
+		const left = run("analyzeText", "a", { signal: first.signal });
+		const stayed = run("analyzeText", "a");
+		const queued = run("analyzeText", "b", { signal: second.signal });
+		const alsoQueued = run("analyzeText", "b", { signal: second.signal });
+
+		first.abort("navigated away");
+		await expect(left).rejects.toBeInstanceOf(WorkerTaskAbortedError);
+		second.abort("closed");
+		await expect(queued).rejects.toMatchObject({ cause: "closed" });
+		await expect(alsoQueued).rejects.toBeInstanceOf(WorkerTaskAbortedError);
+		expect(pool.getStats()).toMatchObject({ queue: 1, cancelledTasks: 1 });
+
+		await finish("busy");
+		await finish("a");
+		await expect(stayed).resolves.toBe("analyzeText:a");
+		expect(calls).toEqual(["render:busy", "analyzeText:a"]);
+		expect(settled()).toEqual([
+			["aborted", 2],
+			["fulfilled", 1],
+			["fulfilled", 2],
+		]);
+	});
+
+	test("aborts a running task once its last caller leaves", async () => {
+		const { pool, run } = createPool();
+		const controller = new AbortController();
+		const first = run("analyzeText", "a", { signal: controller.signal });
+		const second = run("analyzeText", "a", { signal: controller.signal });
+		await flushMicrotasks();
+		expect(pool.getStats().runningTasks).toBe(1);
+
+		controller.abort();
+		await expect(first).rejects.toBeInstanceOf(WorkerTaskAbortedError);
+		await expect(second).rejects.toBeInstanceOf(WorkerTaskAbortedError);
+		expect(pool.getStats().cancelledTasks).toBe(1);
+	});
+
+	test("validates dedupe options and keys", async () => {
+		expect(() => createPool({ dedupe: 1 as never })).toThrow(
+			"dedupe must be an object",
+		);
+		expect(() =>
+			createPool({ dedupe: { analyzeText: "text" as never } }),
+		).toThrow("dedupe.analyzeText must be a function");
+
+		const { pool, run } = createPool();
+		await expect(
+			pool.run("render", ["x"], { dedupe: "key" as never }),
+		).rejects.toBeInstanceOf(TypeError);
+		await expect(
+			pool.run("render", ["x"], { dedupe: () => 1 as never }),
+		).rejects.toThrow("dedupe keys must be strings");
+
+		const failure = new Error("listener failed");
+		const signal = {
+			aborted: false,
+			addEventListener: () => {
+				throw failure;
+			},
+			removeEventListener: () => {},
+		} as unknown as AbortSignal;
+		run("analyzeText", "held");
+		await expect(pool.run("analyzeText", ["a"], { signal })).rejects.toBe(
+			failure,
+		);
+		const shared = run("analyzeText", "b");
+		await expect(pool.run("analyzeText", ["b"], { signal })).rejects.toBe(
+			failure,
+		);
+		expect(pool.getStats()).toMatchObject({ queue: 1, failedTasks: 1 });
+		void shared;
+	});
+});
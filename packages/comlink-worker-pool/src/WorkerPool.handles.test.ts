@@ -0,0 +1,172 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	type WorkerPoolOptions,
+	WorkerTaskAbortedError,
+	type WorkerTaskOptions,
+	type WorkerTaskState,
+} from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+	holdCalls,
+} from "./__mocks__/testPool";
+
+type HandleApi = {
+	render(label: string): Promise<string>;
+};
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<HandleApi>> = {}) {
+	const { finish, hold, started } = holdCalls();
+	const { events, pool, submit } = createTestPool<HandleApi>({
+		proxyFactory: () => ({ render: hold }),
+		...options,
+	});
+	return {
+		events,
+		finish,
+		pool,
+		started,
+		submit: (label: string, taskOptions?: WorkerTaskOptions) =>
+			submit("render", [label], taskOptions),
+	};
+}
+
+describe("WorkerPool - task handles", () => {
+	test("reports state, worker, and timing of a submitted call", async () => {
+		const { events, finish, submit } = createPool();
+		const before = Date.now();
+		const first = submit("first");
+		const second = submit("second");
+		const states: WorkerTaskState[] = [];
+		second.onStateChange((state) => {
+			states.push(state);
+		});
+		const unsubscribed: WorkerTaskState[] = [];
+		second.onStateChange((state) => {
+			unsubscribed.push(state);
+		})();
+		await flushMicrotasks();
+		expect(first).toMatchObject({
+			state: "running",
+			workerId: expect.any(Number),
+		});
+		expect(first.queuedAt).toBeGreaterThanOrEqual(before);
+		expect(first.startedAt).toBeGreaterThanOrEqual(first.queuedAt);
+		expect(second).toMatchObject({ state: "queued", workerId: undefined });
+		expect(
+			events.flatMap((event) =>
+				event.type === "task-queued" ? [event.taskId] : [],
+			),
+		).toEqual([first.id as number, second.id as number]);
+
+		await finish("first");
+		await expect(first.result).resolves.toBe("first");
+		expect(first.state).toBe("fulfilled");
+		expect(second.state).toBe("running");
+		await finish("second", new Error("broken"));
+		await expect(second.result).rejects.toThrow("broken");
+		expect(states).toEqual(["running", "rejected"]);
+		expect(unsubscribed).toEqual([]);
+	});
+
+	test("repositions waiting calls when their priority changes", async () => {
+		const { finish, started, submit } = createPool();
+		const running = submit("running");
+		const handles = ["a", "b", "c", "d"].map((label) => submit(label));
+		await flushMicrotasks();
+		expect(handles[3].setPriority(5)).toBe(true);
+		expect(handles[0].setPriority(-1)).toBe(true);
+		expect(handles[2].setPriority(5)).toBe(true);
+		expect(handles[3].setPriority(1)).toBe(true);
+		expect(running.setPriority(10)).toBe(false);
+		expect(() => handles[1].setPriority(Number.NaN)).toThrow(RangeError);
+
+		for (const label of ["running", "c", "d", "b", "a"]) {
+			await finish(label);
+		}
+		expect(started).toEqual(["running", "c", "d", "b", "a"]);
+		expect(handles[0].setPriority(3)).toBe(false);
+	});
+
+	test("cancels queued and running calls", async () => {
+		const { finish, pool, started, submit } = createPool();
+		const running = submit("running");
+		const queued = submit("queued");
+		await flushMicrotasks();
+		queued.cancel("not needed");
+		await expect(queued.result).rejects.toBeInstanceOf(WorkerTaskAbortedError);
+		await expect(queued.result).rejects.toMatchObject({
+			cause: "not needed",
+		});
+		expect(queued.state).toBe("cancelled");
+
+		running.cancel();
+		await expect(running.result).rejects.toBeInstanceOf(WorkerTaskAbortedError);
+		expect(running.state).toBe("cancelled");
+		// The worker slot stays busy until the abandoned call returns.
+		const next = submit("next");
+		await finish("running");
+		await finish("next");
+		await expect(next.result).resolves.toBe("next");
+		expect(started).toEqual(["running", "next"]);
+		expect(pool.getStats().cancelledTasks).toBe(2);
+	});
+
+	test("cancels through the caller's signal", async () => {
+		const { submit } = createPool();
+		const controller = new AbortController();
+		const handle = submit("signalled", { signal: controller.signal });
+		controller.abort("gone");
+		await expect(handle.result).rejects.toMatchObject({ cause: "gone" });
+
+		const early = submit("early", { signal: controller.signal });
+		expect(early).toMatchObject({ state: "cancelled", id: undefined });
+
+		const malformed = {
+			aborted: false,
+			addEventListener() {
+				throw new Error("bad signal");
+			},
+		} as unknown as AbortSignal;
+		const rejected = submit("malformed", { signal: malformed });
+		await expect(rejected.result).rejects.toThrow("bad signal");
+		expect(rejected.state).toBe("rejected");
+	});
+
+	test("tracks retries, shared tasks, and cached results", async () => {
+		const { finish, submit } = createPool({
+			retry: { maxAttempts: 2, backoffMs: 0, retryOn: () => true },
+			dedupe: { render: (_method, [label]) => String(label) },
+			cache: { render: { key: (_method, [label]) => String(label) } },
+		});
+		const owner = submit("shared");
+		const joined = submit("shared");
+		expect(joined.id).toBe(owner.id);
+		await flushMicrotasks();
+		expect(joined.state).toBe("running");
+		const states: WorkerTaskState[] = [];
+		owner.onStateChange((state) => {
+			states.push(state);
+			throw new Error("listener failed");
+		});
+
+		joined.cancel();
+		await expect(joined.result).rejects.toBeInstanceOf(WorkerTaskAbortedError);
+		await finish("shared", new Error("flaky"));
+		await flushMicrotasks();
+		expect(states).toEqual(["queued", "running"]);
+		await finish("shared");
+		await expect(owner.result).resolves.toBe("shared");
+
+		const cached = submit("shared");
+		expect(cached).toMatchObject({
+			state: "fulfilled",
+			id: expect.any(Number),
+		});
+		expect(cached.setPriority(1)).toBe(false);
+		await expect(cached.result).resolves.toBe("shared");
+	});
+});
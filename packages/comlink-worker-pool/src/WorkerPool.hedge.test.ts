@@ -0,0 +1,256 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import type { WorkerPoolOptions, WorkerTaskOptions } from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+	holdCalls,
+	sleep,
+} from "./__mocks__/testPool";
+
+type HedgeApi = {
+	lookup(label: string): Promise<string>;
+};
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<HedgeApi>> = {}) {
+	// Attempts as label@worker, in the order they reached a worker.
+	const { finish, hold, started } = holdCalls();
+	const workers: EventTarget[] = [];
+	const { events, pool, run } = createTestPool<HedgeApi>({
+		size: 2,
+		hedge: { lookup: { delayMs: 10 } },
+		workerFactory: () => {
+			const worker = new EventTarget();
+			workers.push(worker);
+			return worker as unknown as Worker;
+		},
+		proxyFactory: (worker) => {
+			const index = workers.indexOf(worker as unknown as EventTarget);
+			return { lookup: (label) => hold(`${label}@${index}`) };
+		},
+		...options,
+	});
+	return {
+		events,
+		finish,
+		pool,
+		run: (label: string, taskOptions?: WorkerTaskOptions) =>
+			run("lookup", [label], taskOptions),
+		started,
+	};
+}
+
+describe("WorkerPool - hedged calls", () => {
+	test("settles a slow call with its duplicate's result", async () => {
+		const { events, finish, pool, run, started } = createPool();
+		const call = run("slow");
+		await sleep(30);
+		expect(started).toEqual(["slow@0", "slow@1"]);
+		expect(events.find((event) => event.type === "task-hedged")).toEqual({
+			type: "task-hedged",
+			timestamp: expect.any(Number),
+			taskId: 0,
+			method: "lookup",
+			workerId: 1,
+			attempt: 1,
+			delayMs: 10,
+		});
+		expect(pool.inspect().running).toEqual([
+			expect.objectContaining({ workerId: 0, hedge: false }),
+			expect.objectContaining({ workerId: 1, hedge: true }),
+		]);
+
+		await finish("slow@1");
+		await expect(call).resolves.toBe("slow@1");
+		expect(pool.inspect().running).toEqual([
+			expect.objectContaining({ workerId: 0, abandoned: true }),
+		]);
+		await finish("slow@0");
+		expect(pool.getStats()).toMatchObject({
+			startedTasks: 1,
+			completedTasks: 1,
+			hedgedTasks: 1,
+			runningTasks: 0,
+		});
+		expect(
+			events.filter((event) => event.type === "task-settled"),
+		).toMatchObject([{ taskId: 0, outcome: "fulfilled", workerId: 1 }]);
+	});
+
+	test("abandons the duplicate when the original attempt wins", async () => {
+		const { events, finish, pool, run } = createPool();
+		const call = run("race");
+		await sleep(30);
+		await finish("race@0");
+		await expect(call).resolves.toBe("race@0");
+		expect(pool.inspect().running).toEqual([
+			expect.objectContaining({ workerId: 1, hedge: true, abandoned: true }),
+		]);
+		await finish("race@1", new Error("late failure"));
+		expect(pool.getStats()).toMatchObject({
+			completedTasks: 1,
+			failedTasks: 0,
+			runningTasks: 0,
+		});
+		expect(
+			events.filter((event) => event.type === "task-settled"),
+		).toHaveLength(1);
+	});
+
+	test("lets a failed attempt wait for the other", async () => {
+		const { finish, pool, run } = createPool();
+		const recovered = run("recovered");
+		await sleep(30);
+		await finish("recovered@0", new Error("first failed"));
+		await finish("recovered@1");
+		await expect(recovered).resolves.toBe("recovered@1");
+
+		const failed = run("failed");
+		await sleep(30);
+		await finish("failed@1", new Error("duplicate failed"));
+		await finish("failed@0", new Error("original failed"));
+		await expect(failed).rejects.toThrow("original failed");
+		expect(pool.getStats()).toMatchObject({
+			completedTasks: 1,
+			failedTasks: 1,
+			hedgedTasks: 2,
+		});
+	});
+
+	test("retries after both attempts fail", async () => {
+		const { finish, pool, run, started } = createPool({
+			retry: { maxAttempts: 2, retryOn: () => true },
+		});
+		const call = run("flaky");
+		await sleep(30);
+		await finish("flaky@0", new Error("original failed"));
+		await finish("flaky@1", new Error("duplicate failed"));
+		expect(started).toEqual(["flaky@0", "flaky@1", "flaky@0"]);
+		await finish("flaky@0");
+		await expect(call).resolves.toBe("flaky@0");
+		expect(pool.getStats()).toMatchObject({ retriedTasks: 1, hedgedTasks: 1 });
+	});
+
+	test("does not count duplicates as circuit probes", async () => {
+		const { finish, pool, run, started } = createPool({
+			size: 3,
+			circuitBreaker: {
+				lookup: {
+					failureThreshold: 0.5,
+					windowMs: 1_000,
+					minimumCalls: 2,
+					openMs: 10,
+					halfOpenProbes: 2,
+				},
+			},
+		});
+		run("bad1");
+		run("bad2");
+		await flushMicrotasks();
+		for (const attempt of [...started]) {
+			await finish(attempt, new Error("corrupt data"));
+		}
+		await sleep(20);
+		expect(pool.getStats().methods.lookup.circuit?.state).toBe("half-open");
+
+		run("probe");
+		await sleep(30);
+		run("second-probe");
+		await flushMicrotasks();
+		expect(started.map((attempt) => attempt.split("@")[0])).toEqual([
+			"bad1",
+			"bad2",
+			"probe",
+			"probe",
+			"second-probe",
+		]);
+		expect(pool.getStats()).toMatchObject({ startedTasks: 4, hedgedTasks: 1 });
+	});
+
+	test("only hedges with spare capacity", async () => {
+		const { finish, pool, run, started } = createPool({
+			methodLimits: { lookup: { maxConcurrent: 2 } },
+		});
+		run("first");
+		run("second");
+		run("queued");
+		await sleep(30);
+		expect(started).toEqual(["first@0", "second@1"]);
+
+		await finish("first@0");
+		await finish("second@1");
+		run("opted-out", { hedge: false });
+		await sleep(30);
+		await finish("queued@0");
+		await finish("opted-out@1");
+		run("paused");
+		await flushMicrotasks();
+		pool.pause();
+		await sleep(30);
+		expect(pool.getStats().hedgedTasks).toBe(0);
+		expect(started).toEqual([
+			"first@0",
+			"second@1",
+			"queued@0",
+			"opted-out@1",
+			"paused@0",
+		]);
+	});
+
+	test("waits for samples before hedging at a percentile", async () => {
+		const { events, finish, run, started } = createPool({
+			hedge: { lookup: { percentile: 100, minSamples: 2 } },
+		});
+		for (const label of ["a", "b"]) {
+			const call = run(label);
+			await sleep(20);
+			await finish(`${label}@0`);
+			await call;
+		}
+		expect(started).toEqual(["a@0", "b@0"]);
+		run("c");
+		await sleep(80);
+		expect(started).toEqual(["a@0", "b@0", "c@0", "c@1"]);
+		const hedged = events.find((event) => event.type === "task-hedged");
+		expect(hedged).toMatchObject({ taskId: 2 });
+		expect(hedged?.type === "task-hedged" && hedged.delayMs).toBeGreaterThan(
+			10,
+		);
+	});
+
+	test("hedges calls that opt in and validates policies", async () => {
+		const { run, started } = createPool({ hedge: undefined });
+		run("plain");
+		run("hedged", { hedge: { delayMs: 5 } });
+		await sleep(30);
+		expect(started).toEqual(["plain@0", "hedged@1"]);
+		await expect(run("invalid", { hedge: {} })).rejects.toThrow(
+			"hedge requires delayMs or percentile",
+		);
+		expect(() => createPool({ hedge: { lookup: { percentile: 0 } } })).toThrow(
+			"hedge.lookup.percentile must be greater than 0 and at most 100",
+		);
+		expect(() =>
+			createPool({ hedge: { lookup: { delayMs: 5, minSamples: 0 } } }),
+		).toThrow("hedge.lookup.minSamples must be at least 1 and a safe integer");
+		expect(() =>
+			createPool({ hedge: { lookup: { percentile: 95, minSamples: 101 } } }),
+		).toThrow(
+			"hedge.lookup.minSamples must be at most 100, the samples kept per method",
+		);
+		expect(() => createPool({ hedge: "fast" as never })).toThrow(
+			"hedge must be an object",
+		);
+	});
+
+	test("closing the pool settles a call waiting on its duplicate", async () => {
+		const { finish, pool, run } = createPool();
+		const call = run("closing");
+		await sleep(30);
+		await finish("closing@0", new Error("original failed"));
+		await pool.close();
+		await expect(call).rejects.toThrow("Worker pool has been terminated");
+	});
+});
@@ -0,0 +1,268 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	WorkerInitializationError,
+	type WorkerPoolOptions,
+} from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+} from "./__mocks__/testPool";
+
+type InitApi = {
+	init(): Promise<void>;
+	run(label: string): Promise<string>;
+};
+
+afterEach(closeTestPools);
+
+function deferred() {
+	let resolve!: () => void;
+	let reject!: (reason: unknown) => void;
+	const promise = new Promise<void>((innerResolve, innerReject) => {
+		resolve = innerResolve;
+		reject = innerReject;
+	});
+	return { promise, reject, resolve };
+}
+
+function createPool(options: Partial<WorkerPoolOptions<InitApi>> = {}) {
+	const workers: EventTarget[] = [];
+	const terminated: EventTarget[] = [];
+	const ran: string[] = [];
+	const { events, pool } = createTestPool<InitApi>({
+		size: 2,
+		workerFactory: () => {
+			const worker = new EventTarget();
+			workers.push(worker);
+			return worker as unknown as Worker;
+		},
+		proxyFactory: () => ({
+			init: async () => {},
+			run: async (label) => {
+				ran.push(label);
+				return label;
+			},
+		}),
+		workerTerminator: (worker) => {
+			terminated.push(worker as unknown as EventTarget);
+		},
+		...options,
+	});
+	const eventTypes = () => events.map((event) => event.type);
+	return { eventTypes, events, pool, ran, terminated, workers };
+}
+
+describe("WorkerPool - worker initialization", () => {
+	test("holds queued tasks until the worker finishes initializing", async () => {
+		const ready = deferred();
+		const calls: number[] = [];
+		const { eventTypes, pool, ran } = createPool({
+			size: 1,
+			initializeWorker: (proxy, workerId) => {
+				calls.push(workerId);
+				return proxy.init().then(() => ready.promise);
+			},
+		});
+
+		const task = pool.run("run", ["job"]);
+		await flushMicrotasks();
+		expect(calls).toEqual([0]);
+		expect(ran).toEqual([]);
+		expect(pool.getStats()).toMatchObject({
+			workers: 1,
+			initializingWorkers: 1,
+			idleWorkers: 0,
+			availableForConcurrency: 0,
+			queue: 1,
+		});
+
+		ready.resolve();
+		await expect(task).resolves.toBe("job");
+		expect(eventTypes()).toEqual([
+			"task-queued",
+			"worker-created",
+			"task-started",
+			"task-settled",
+		]);
+		expect(pool.getStats()).toMatchObject({
+			initializingWorkers: 0,
+			idleWorkers: 1,
+		});
+	});
+
+	test("spawns initializing workers to cover the backlog", async () => {
+		const pending: (() => void)[] = [];
+		const { pool, workers } = createPool({
+			size: 3,
+			initializeWorker: () =>
+				new Promise<void>((resolve) => pending.push(resolve)),
+		});
+
+		const first = pool.run("run", ["a"]);
+		const second = pool.run("run", ["b"]);
+		await flushMicrotasks();
+		expect(workers).toHaveLength(2);
+		expect(pool.getStats().initializingWorkers).toBe(2);
+
+		pending[1]();
+		await expect(Promise.race([first, second])).resolves.toBe("a");
+		pending[0]();
+		await expect(second).resolves.toBe("b");
+		expect(workers).toHaveLength(2);
+	});
+
+	test("quarantines a worker whose initializer rejects", async () => {
+		const failure = new Error("wasm missing");
+		const { events, pool, terminated, workers } = createPool({
+			size: 1,
+			initializeWorker: async () => {
+				throw failure;
+			},
+		});
+
+		const error = await pool.run("run", ["job"]).catch((reason) => reason);
+		expect(error).toBeInstanceOf(WorkerInitializationError);
+		expect(error).toMatchObject({ workerId: 0, timedOut: false });
+		expect((error as Error).cause).toBe(failure);
+		expect(terminated).toEqual([workers[0]]);
+		expect(
+			events.filter(
+				(event) =>
+					event.type === "worker-init-failed" ||
+					event.type === "worker-removed",
+			),
+		).toEqual([
+			{
+				type: "worker-init-failed",
+				timestamp: expect.any(Number),
+				workerId: 0,
+				reason: "error",
+			},
+			{
+				type: "worker-removed",
+				timestamp: expect.any(Number),
+				workerId: 0,
+				reason: "init-failure",
+			},
+		]);
+		expect(pool.getStats()).toMatchObject({ workers: 0, failedTasks: 1 });
+
+		await flushMicrotasks();
+		expect(workers).toHaveLength(1);
+		await expect(pool.run("run", ["again"])).rejects.toBeInstanceOf(
+			WorkerInitializationError,
+		);
+		expect(workers).toHaveLength(2);
+	});
+
+	test("times out a stalled initializer", async () => {
+		const { events, pool } = createPool({
+			size: 1,
+			initializeWorker: () => new Promise(() => {}),
+			workerInitTimeoutMs: 15,
+		});
+
+		await expect(pool.run("run", ["job"])).rejects.toMatchObject({
+			name: "WorkerInitializationError",
+			timedOut: true,
+		});
+		expect(events).toContainEqual({
+			type: "worker-init-failed",
+			timestamp: expect.any(Number),
+			workerId: 0,
+			reason: "timeout",
+		});
+	});
+
+	test("keeps queued work on healthy workers when a replacement fails", async () => {
+		let initializations = 0;
+		const release = deferred();
+		const { pool, ran, workers } = createPool({
+			size: 2,
+			initializeWorker: async () => {
+				if (++initializations > 1) throw new Error("flaky init");
+			},
+			proxyFactory: () => ({
+				init: async () => {},
+				run: async (label) => {
+					ran.push(label);
+					if (label === "held") await release.promise;
+					return label;
+				},
+			}),
+		});
+
+		const held = pool.run("run", ["held"]);
+		await flushMicrotasks();
+		const queued = pool.run("run", ["queued"]);
+		await flushMicrotasks();
+		expect(workers).toHaveLength(2);
+		expect(pool.getStats()).toMatchObject({ healthyWorkers: 1, queue: 1 });
+
+		release.resolve();
+		await expect(Promise.all([held, queued])).resolves.toEqual([
+			"held",
+			"queued",
+		]);
+		expect(workers).toHaveLength(2);
+	});
+
+	test("warmup resolves once workers are initialized", async () => {
+		const pending: (() => void)[] = [];
+		const { pool } = createPool({
+			initializeWorker: () =>
+				new Promise<void>((resolve) => pending.push(resolve)),
+		});
+
+		let warmed = false;
+		const warming = pool.warmup().then(() => {
+			warmed = true;
+		});
+		await flushMicrotasks();
+		expect(pending).toHaveLength(2);
+		pending[0]();
+		await flushMicrotasks();
+		expect(warmed).toBe(false);
+		pending[1]();
+		await warming;
+		expect(pool.getStats()).toMatchObject({
+			initializingWorkers: 0,
+			idleWorkers: 2,
+		});
+	});
+
+	test("warmup rejects when initialization fails or the worker is lost", async () => {
+		const failing = createPool({
+			initializeWorker: async () => {
+				throw new Error("no database");
+			},
+		});
+		await expect(failing.pool.warmup(1)).rejects.toBeInstanceOf(
+			WorkerInitializationError,
+		);
+
+		const crashing = createPool({
+			initializeWorker: () => new Promise(() => {}),
+		});
+		const warming = crashing.pool.warmup(1);
+		crashing.workers[0].dispatchEvent(new Event("error"));
+		await expect(warming).rejects.toBeInstanceOf(WorkerInitializationError);
+		expect(crashing.pool.getStats().initializingWorkers).toBe(0);
+
+		const closing = createPool({
+			initializeWorker: () => new Promise(() => {}),
+		});
+		const closed = closing.pool.warmup(1);
+		await closing.pool.close();
+		await expect(closed).rejects.toBeInstanceOf(WorkerInitializationError);
+	});
+
+	test("validates initialization options", () => {
+		expect(() => createPool({ initializeWorker: "init" as never })).toThrow(
+			TypeError,
+		);
+		expect(() => createPool({ workerInitTimeoutMs: 0 })).toThrow(RangeError);
+		expect(() => createPool({ workerInitTimeoutMs: false })).not.toThrow();
+	});
+});
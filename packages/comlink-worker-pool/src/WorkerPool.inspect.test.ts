@@ -0,0 +1,184 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import type { WorkerPoolOptions, WorkerTaskOptions } from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+	holdCalls,
+} from "./__mocks__/testPool";
+
+type InspectApi = {
+	parse(label: string, secret?: string): Promise<string>;
+	render(label: string): Promise<string>;
+};
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<InspectApi>> = {}) {
+	const { finish, hold } = holdCalls();
+	const { pool, run } = createTestPool<InspectApi>({
+		proxyFactory: () => ({ parse: hold, render: hold }),
+		...options,
+	});
+	return {
+		finish,
+		pool,
+		run: (
+			method: keyof InspectApi,
+			args: [string, string?],
+			taskOptions?: WorkerTaskOptions,
+		) => run(method, args as [string], taskOptions),
+	};
+}
+
+describe("WorkerPool - inspect", () => {
+	test("lists queued calls in priority order and running calls", async () => {
+		const { pool, run } = createPool({
+			taskTimeoutMs: 60_000,
+			methodLimits: { render: { maxConcurrent: 1 } },
+		});
+		run("parse", ["running"], { deadlineMs: 30_000 });
+		run("render", ["low"], { queueTimeoutMs: 60_000 });
+		run("parse", ["high"], { priority: 5, deadlineMs: 40_000 });
+		run("render", ["middle"], { priority: 1 });
+		await flushMicrotasks();
+
+		const snapshot = pool.inspect();
+		expect(snapshot.state).toBe("running");
+		expect(snapshot.queued).toEqual([
+			{
+				id: 2,
+				method: "parse",
+				priority: 5,
+				attempt: 1,
+				ageMs: expect.any(Number),
+				queueDeadlineInMs: null,
+				deadlineInMs: expect.any(Number),
+				position: 0,
+			},
+			expect.objectContaining({ id: 3, method: "render", position: 1 }),
+			expect.objectContaining({
+				id: 1,
+				method: "render",
+				deadlineInMs: null,
+				position: 2,
+			}),
+		]);
+		expect(snapshot.queued[0].deadlineInMs).toBeGreaterThan(39_000);
+		expect(snapshot.queued[0].deadlineInMs).toBeLessThanOrEqual(40_000);
+		expect(snapshot.queued[2].queueDeadlineInMs).toBeGreaterThan(59_000);
+		expect(snapshot.running).toEqual([
+			{
+				id: 0,
+				method: "parse",
+				workerId: snapshot.workers[0].id,
+				attempt: 1,
+				elapsedMs: expect.any(Number),
+				taskDeadlineInMs: expect.any(Number),
+				deadlineInMs: expect.any(Number),
+				abandoned: false,
+				hedge: false,
+			},
+		]);
+		expect(snapshot.running[0].taskDeadlineInMs).toBeGreaterThan(59_000);
+		expect(snapshot.running[0].deadlineInMs).toBeGreaterThan(29_000);
+		expect(snapshot.running[0].deadlineInMs).toBeLessThanOrEqual(30_000);
+		expect(snapshot.workers).toEqual([
+			{
+				id: expect.any(Number),
+				state: "busy",
+				runningTasks: 1,
+				taskCount: 1,
+				ageMs: expect.any(Number),
+				idleDeadlineInMs: null,
+				retirementReason: null,
+			},
+		]);
+		expect(snapshot.quarantinedWorkers).toEqual([]);
+	});
+
+	test("includes arguments only through redactArgs", async () => {
+		const { pool, run } = createPool();
+		run("parse", ["running", "token"]);
+		run("parse", ["queued", "token"]);
+		await flushMicrotasks();
+		const snapshot = pool.inspect({
+			redactArgs: (method, [label]) => `${method}:${label}`,
+		});
+		expect(snapshot.running[0].args).toBe("parse:running");
+		expect(snapshot.queued[0].args).toBe("parse:queued");
+		expect("args" in pool.inspect().queued[0]).toBe(false);
+		expect(() => pool.inspect({ redactArgs: true as never })).toThrow(
+			"redactArgs must be a function",
+		);
+	});
+
+	test("reports retries, abandoned calls, and worker lifecycle", async () => {
+		const { finish, pool, run } = createPool({
+			size: 2,
+			maxTasksPerWorker: 1,
+			workerIdleTimeoutMs: 60_000,
+			retry: { maxAttempts: 2, backoffMs: 60_000, retryOn: () => true },
+		});
+		const controller = new AbortController();
+		run("parse", ["left"], { signal: controller.signal });
+		run("render", ["flaky"]);
+		await flushMicrotasks();
+		controller.abort();
+		await finish("flaky", new Error("flaky"));
+
+		const snapshot = pool.inspect();
+		expect(snapshot.queued).toEqual([
+			expect.objectContaining({ id: 1, attempt: 2, position: null }),
+		]);
+		expect(snapshot.running).toEqual([
+			expect.objectContaining({ id: 0, abandoned: true }),
+		]);
+		expect(snapshot.workers).toEqual([
+			expect.objectContaining({ state: "busy", retirementReason: "max-tasks" }),
+		]);
+	});
+
+	test("lists initializing, idle, and quarantined workers", async () => {
+		let ready: () => void = () => {};
+		let initialized = 0;
+		let terminated: (() => void) | undefined;
+		const { finish, pool, run } = createPool({
+			size: 2,
+			maxTasksPerWorker: 1,
+			workerIdleTimeoutMs: 60_000,
+			initializeWorker: () =>
+				initialized++ === 0
+					? undefined
+					: new Promise<void>((resolve) => {
+							ready = resolve;
+						}),
+			// Only the retired worker's termination hangs, so close() stays prompt.
+			workerTerminator: () =>
+				terminated
+					? undefined
+					: new Promise<void>((resolve) => {
+							terminated = resolve;
+						}),
+		});
+		await pool.warmup(1);
+		const warming = pool.warmup(2);
+		expect(pool.inspect().workers.map((worker) => worker.state)).toEqual([
+			"idle",
+			"initializing",
+		]);
+		expect(pool.inspect().workers[0].idleDeadlineInMs).toBeGreaterThan(59_000);
+		await flushMicrotasks();
+		ready();
+		await warming;
+		run("parse", ["once"]);
+		await flushMicrotasks();
+		await finish("once");
+		expect(pool.inspect().quarantinedWorkers).toEqual([
+			{ id: expect.any(Number), terminationAttempts: 1, exhausted: false },
+		]);
+		terminated?.();
+		await flushMicrotasks();
+		expect(pool.inspect().quarantinedWorkers).toEqual([]);
+	});
+});
@@ -0,0 +1,242 @@
+import { afterEach, describe, expect, jest, test } from "bun:test";
+import {
+	type WorkerPoolOptions,
+	WorkerPoolQueueFullError,
+	WorkerQueueTimeoutError,
+	type WorkerTaskOptions,
+	WorkerTaskTimeoutError,
+} from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+	holdCalls,
+} from "./__mocks__/testPool";
+
+type MethodApi = {
+	render(label: string): Promise<string>;
+	analyzeText(label: string): Promise<string>;
+};
+
+afterEach(async () => {
+	jest.useRealTimers();
+	await closeTestPools();
+});
+
+function createPool(options: Partial<WorkerPoolOptions<MethodApi>> = {}) {
+	const { finish, hold, started } = holdCalls();
+	const { pool, run } = createTestPool<MethodApi>({
+		size: 3,
+		proxyFactory: () => ({ render: hold, analyzeText: hold }),
+		...options,
+	});
+	return {
+		finish,
+		pool,
+		run: (
+			method: keyof MethodApi,
+			label: string,
+			taskOptions?: WorkerTaskOptions,
+		) => run(method, [label], taskOptions),
+		started,
+	};
+}
+
+describe("WorkerPool - method limits", () => {
+	test("caps a method pool-wide without blocking other methods", async () => {
+		const { finish, pool, run, started } = createPool({
+			methodLimits: { render: { maxConcurrent: 1 } },
+		});
+		run("render", "r1");
+		run("render", "r2");
+		run("analyzeText", "a1");
+		run("analyzeText", "a2");
+		await flushMicrotasks();
+		expect(started).toEqual(["r1", "a1", "a2"]);
+		expect(pool.getStats().methods).toEqual({
+			render: {
+				queue: 1,
+				runningTasks: 1,
+				maxConcurrent: 1,
+				queueCapacity: null,
+				submittedTasks: 2,
+				completedTasks: 0,
+				failedTasks: 0,
+				rateLimit: null,
+				circuit: null,
+			},
+			analyzeText: {
+				queue: 0,
+				runningTasks: 2,
+				maxConcurrent: null,
+				queueCapacity: null,
+				submittedTasks: 2,
+				completedTasks: 0,
+				failedTasks: 0,
+				rateLimit: null,
+				circuit: null,
+			},
+		});
+
+		await finish("a1");
+		expect(started).toEqual(["r1", "a1", "a2"]);
+		expect(pool.getStats()).toMatchObject({ idleWorkers: 1, queue: 1 });
+		await finish("r1");
+		expect(started).toEqual(["r1", "a1", "a2", "r2"]);
+		expect(pool.getStats().methods.render).toMatchObject({
+			queue: 0,
+			runningTasks: 1,
+			completedTasks: 1,
+		});
+	});
+
+	test("keeps priority order across method queues", async () => {
+		const { finish, run, started } = createPool({
+			size: 1,
+			methodLimits: { render: { maxConcurrent: 2 } },
+		});
+		run("analyzeText", "held");
+		run("analyzeText", "low", { priority: 0 });
+		run("render", "high", { priority: 5 });
+		run("render", "first", { priority: 0 });
+		await flushMicrotasks();
+
+		await finish("held");
+		await finish("high");
+		await finish("low");
+		expect(started).toEqual(["held", "high", "low", "first"]);
+	});
+
+	test("applies a method queue limit alongside the pool limit", async () => {
+		const { pool, run } = createPool({
+			size: 1,
+			maxQueueSize: 3,
+			methodLimits: { render: { maxConcurrent: 1, maxQueueSize: 1 } },
+		});
+		run("render", "r1");
+		run("render", "r2");
+		const rejected = run("render", "r3").catch((error: unknown) => error);
+		await expect(rejected).resolves.toBeInstanceOf(WorkerPoolQueueFullError);
+		await expect(rejected).resolves.toMatchObject({
+			maxQueueSize: 1,
+			method: "render",
+			message: "Worker pool render queue limit of 1 was reached",
+		});
+
+		run("analyzeText", "a1");
+		run("analyzeText", "a2");
+		const overflow = run("analyzeText", "a3").catch((error: unknown) => error);
+		await expect(overflow).resolves.toMatchObject({
+			maxQueueSize: 3,
+			method: undefined,
+		});
+		expect(pool.getStats()).toMatchObject({ queue: 3, failedTasks: 2 });
+		expect(pool.getStats().methods.render).toMatchObject({
+			queue: 1,
+			queueCapacity: 1,
+			failedTasks: 1,
+		});
+	});
+
+	test("drops the method's oldest waiting call under drop-oldest", async () => {
+		const { pool, run } = createPool({
+			size: 1,
+			queueOverflowPolicy: "drop-oldest",
+			methodLimits: { render: { maxQueueSize: 1 } },
+		});
+		run("analyzeText", "held");
+		const oldest = run("render", "r1").catch((error: unknown) => error);
+		run("analyzeText", "a1");
+		run("render", "r2");
+		await expect(oldest).resolves.toMatchObject({
+			dropped: true,
+			method: "render",
+		});
+		expect(pool.getStats()).toMatchObject({ queue: 2, droppedTasks: 1 });
+	});
+
+	test("overrides task and queue timeouts per method", async () => {
+		jest.useFakeTimers({ now: 1_000 });
+		const { pool, run, started } = createPool({
+			size: 1,
+			taskTimeoutMs: 60_000,
+			queueTimeoutMs: 60_000,
+			methodLimits: {
+				render: { taskTimeoutMs: 20 },
+				analyzeText: { queueTimeoutMs: 10 },
+			},
+		});
+		const timedOut = run("render", "slow").catch((error: unknown) => error);
+		const expired = run("analyzeText", "waiting").catch(
+			(error: unknown) => error,
+		);
+		run("analyzeText", "kept", { queueTimeoutMs: false });
+		await flushMicrotasks();
+		jest.advanceTimersByTime(10);
+		await expect(expired).resolves.toBeInstanceOf(WorkerQueueTimeoutError);
+		expect(started).toEqual(["slow"]);
+		jest.advanceTimersByTime(10);
+		await expect(timedOut).resolves.toBeInstanceOf(WorkerTaskTimeoutError);
+		await flushMicrotasks();
+		expect(started).toEqual(["slow", "kept"]);
+		expect(pool.getStats()).toMatchObject({ runningTasks: 1, queue: 0 });
+
+		const unbounded = createPool({
+			size: 1,
+			taskTimeoutMs: 15,
+			methodLimits: { render: { taskTimeoutMs: false } },
+		});
+		unbounded.run("render", "long");
+		await flushMicrotasks();
+		jest.advanceTimersByTime(60_000);
+		expect(unbounded.pool.getStats()).toMatchObject({
+			runningTasks: 1,
+			timedOutTasks: 0,
+		});
+		await unbounded.finish("long");
+		expect(unbounded.pool.getStats().methods.render.completedTasks).toBe(1);
+	});
+
+	test("releases method slots when workers fail", async () => {
+		const workers: EventTarget[] = [];
+		const { pool, run, started } = createPool({
+			size: 2,
+			workerFactory: () => {
+				const worker = new EventTarget();
+				workers.push(worker);
+				return worker as unknown as Worker;
+			},
+			methodLimits: { render: { maxConcurrent: 1 } },
+		});
+		const crashed = run("render", "r1").catch((error: unknown) => error);
+		run("render", "r2");
+		await flushMicrotasks();
+		workers[0].dispatchEvent(new Event("error"));
+		await crashed;
+		await flushMicrotasks();
+		expect(started).toEqual(["r1", "r2"]);
+		expect(pool.getStats().methods.render).toMatchObject({
+			runningTasks: 1,
+			failedTasks: 1,
+		});
+	});
+
+	test("validates method limits", () => {
+		expect(() => createPool({ methodLimits: 1 as never })).toThrow(TypeError);
+		expect(() =>
+			createPool({ methodLimits: { render: null as never } }),
+		).toThrow(TypeError);
+		expect(() =>
+			createPool({ methodLimits: { render: { maxConcurrent: 0 } } }),
+		).toThrow("methodLimits.render.maxConcurrent");
+		expect(() =>
+			createPool({ methodLimits: { render: { maxQueueSize: -1 } } }),
+		).toThrow(RangeError);
+		expect(() =>
+			createPool({ methodLimits: { render: { taskTimeoutMs: 0 } } }),
+		).toThrow(RangeError);
+		expect(() =>
+			createPool({ methodLimits: { render: { queueTimeoutMs: -5 } } }),
+		).toThrow(RangeError);
+	});
+});
@@ -1,10 +1,18 @@
 import { afterEach, describe, expect, jest, test } from "bun:test";
 import {
+	type QueueOverflowStrategy,
 	WorkerPool,
 	WorkerQueueTimeoutError,
 	WorkerTaskTimeoutError,
 } from "./WorkerPool";
 
+const OVERFLOW_POLICIES: QueueOverflowStrategy[] = [
+	"drop-oldest",
+	"reject",
+	"drop-newest",
+	"drop-lowest-priority",
+];
+
 type ModelApi = {
 	run(id: number): Promise<number>;
 };
@@ -127,7 +135,7 @@ describe("WorkerPool - deterministic lifecycle model", () => {
 				size,
 				maxConcurrentTasksPerWorker: concurrency,
 				maxQueueSize,
-				queueOverflowPolicy: seed % 2 === 0 ? "drop-oldest" : "reject",
+				queueOverflowPolicy: OVERFLOW_POLICIES[seed % OVERFLOW_POLICIES.length],
 				queueTimeoutMs: 30,
 				taskTimeoutMs: 45,
 				workerIdleTimeoutMs: 20,
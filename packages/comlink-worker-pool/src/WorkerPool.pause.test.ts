@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	type WorkerPoolOptions,
+	WorkerPoolQueueFullError,
+	WorkerQueueTimeoutError,
+	type WorkerTaskOptions,
+} from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+	holdCalls,
+	sleep,
+} from "./__mocks__/testPool";
+
+type PauseApi = {
+	analyze(label: string): Promise<string>;
+};
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<PauseApi>> = {}) {
+	const { finish, hold, started } = holdCalls();
+	let created = 0;
+	const { pool, run } = createTestPool<PauseApi>({
+		workerFactory: () => {
+			created++;
+			return new EventTarget() as unknown as Worker;
+		},
+		proxyFactory: () => ({ analyze: hold }),
+		...options,
+	});
+	return {
+		created: () => created,
+		finish,
+		pool,
+		run: (label: string) => run("analyze", [label]),
+		started,
+	};
+}
+
+describe("WorkerPool - pause and resume", () => {
+	test("holds queued calls while running tasks finish", async () => {
+		const { finish, pool, run, started } = createPool();
+		const running = run("running");
+		await flushMicrotasks();
+		pool.pause();
+		const held = run("held");
+		await finish("running");
+		await expect(running).resolves.toBe("running");
+		expect(started).toEqual(["running"]);
+		expect(pool.getStats()).toMatchObject({
+			state: "paused",
+			queue: 1,
+			runningTasks: 0,
+		});
+
+		pool.resume();
+		await flushMicrotasks();
+		expect(started).toEqual(["running", "held"]);
+		expect(pool.getStats().state).toBe("running");
+		await finish("held");
+		await expect(held).resolves.toBe("held");
+	});
+
+	test("applies queue limits and timeouts while paused", async () => {
+		const { pool, run } = createPool({ maxQueueSize: 1, queueTimeoutMs: 20 });
+		pool.pause();
+		const waiting = run("waiting");
+		await expect(run("overflow")).rejects.toBeInstanceOf(
+			WorkerPoolQueueFullError,
+		);
+		await expect(waiting).rejects.toBeInstanceOf(WorkerQueueTimeoutError);
+		expect(pool.getStats()).toMatchObject({ queue: 0, timedOutTasks: 1 });
+	});
+
+	test("keeps reclaiming idle workers while paused", async () => {
+		const { created, finish, pool, run, started } = createPool({
+			workerIdleTimeoutMs: 10,
+		});
+		run("first");
+		await flushMicrotasks();
+		pool.pause();
+		run("second");
+		await finish("first");
+		await sleep(30);
+		expect(pool.getStats()).toMatchObject({ workers: 0, queue: 1 });
+
+		pool.resume();
+		await flushMicrotasks();
+		expect(started).toEqual(["first", "second"]);
+		expect(created()).toBe(2);
+	});
+
+	test("drains a paused pool and ignores pause once closing", async () => {
+		const { finish, pool, run } = createPool();
+		pool.pause();
+		pool.pause();
+		const held = run("held");
+		const drained = pool.drain();
+		pool.pause();
+		await flushMicrotasks();
+		expect(pool.getStats().state).toBe("draining");
+		await finish("held");
+		await expect(held).resolves.toBe("held");
+		await expect(drained).resolves.toMatchObject({ confirmed: true });
+		pool.resume();
+		expect(pool.getStats().state).toBe("closed");
+	});
+});
@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	type WorkerPoolOptions,
+	WorkerPoolTerminatedError,
+	WorkerQueueTimeoutError,
+	type WorkerTaskOptions,
+} from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+	sleep,
+} from "./__mocks__/testPool";
+
+type RateApi = {
+	geocode(label: string): Promise<string>;
+	render(label: string): Promise<string>;
+};
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<RateApi>> = {}) {
+	const started: string[] = [];
+	const record = async (label: string) => {
+		started.push(label);
+		return label;
+	};
+	const { pool, run } = createTestPool<RateApi>({
+		size: 4,
+		proxyFactory: () => ({ geocode: record, render: record }),
+		...options,
+	});
+	return {
+		pool,
+		run: (
+			method: keyof RateApi,
+			label: string,
+			taskOptions?: WorkerTaskOptions,
+		) => run(method, [label], taskOptions),
+		started,
+	};
+}
+
+describe("WorkerPool - rate limits", () => {
+	test("starts a burst, then one task per refilled token", async () => {
+		const { pool, run, started } = createPool({
+			rateLimit: { tokensPerInterval: 1, intervalMs: 40, burst: 2 },
+		});
+		expect(pool.getStats().rateLimit).toEqual({ tokens: 2, nextTokenInMs: 0 });
+		const tasks = ["a", "b", "c", "d"].map((label) => run("render", label));
+		await flushMicrotasks();
+		expect(started).toEqual(["a", "b"]);
+		const { rateLimit, queue } = pool.getStats();
+		expect(queue).toBe(2);
+		expect(rateLimit?.tokens).toBeLessThan(1);
+		expect(rateLimit?.nextTokenInMs).toBeGreaterThan(0);
+		expect(rateLimit?.nextTokenInMs).toBeLessThanOrEqual(40);
+
+		await tasks[2];
+		expect(started).toEqual(["a", "b", "c"]);
+		await expect(Promise.all(tasks)).resolves.toEqual(["a", "b", "c", "d"]);
+	});
+
+	test("limits a method without holding up other methods", async () => {
+		const { pool, run, started } = createPool({
+			methodLimits: {
+				geocode: { rateLimit: { tokensPerInterval: 1, intervalMs: 30 } },
+			},
+		});
+		const geocoded = [run("geocode", "g1"), run("geocode", "g2")];
+		run("render", "r1");
+		await flushMicrotasks();
+		expect(started).toEqual(["g1", "r1"]);
+		expect(pool.getStats().methods.geocode).toMatchObject({
+			queue: 1,
+			rateLimit: { tokens: expect.any(Number) },
+		});
+		expect(pool.getStats().methods.render.rateLimit).toBeNull();
+		await expect(Promise.all(geocoded)).resolves.toEqual(["g1", "g2"]);
+	});
+
+	test("applies the pool limit across methods", async () => {
+		const { run, started } = createPool({
+			rateLimit: { tokensPerInterval: 1, intervalMs: 1_000 },
+			methodLimits: {
+				geocode: { rateLimit: { tokensPerInterval: 5, intervalMs: 10 } },
+			},
+		});
+		run("geocode", "g1");
+		run("render", "r1");
+		run("geocode", "g2");
+		await sleep(20);
+		expect(started).toEqual(["g1"]);
+	});
+
+	test("counts token waits toward the queue timeout", async () => {
+		const { pool, run } = createPool({
+			rateLimit: { tokensPerInterval: 1, intervalMs: 1_000 },
+			queueTimeoutMs: 20,
+		});
+		await run("render", "first");
+		await expect(run("render", "second")).rejects.toBeInstanceOf(
+			WorkerQueueTimeoutError,
+		);
+		expect(pool.getStats()).toMatchObject({ queue: 0, timedOutTasks: 1 });
+
+		const waiting = run("render", "third");
+		await pool.close();
+		await expect(waiting).rejects.toBeInstanceOf(WorkerPoolTerminatedError);
+	});
+
+	test("validates rate limits", () => {
+		expect(() => createPool({ rateLimit: 1 as never })).toThrow(
+			"rateLimit must be an object",
+		);
+		expect(() =>
+			createPool({
+				rateLimit: { tokensPerInterval: 0, intervalMs: 10 },
+			}),
+		).toThrow("rateLimit.tokensPerInterval must be at least 1");
+		expect(() =>
+			createPool({ rateLimit: { tokensPerInterval: 1 } as never }),
+		).toThrow("rateLimit.intervalMs must be a positive finite number");
+		expect(() =>
+			createPool({
+				rateLimit: { tokensPerInterval: 1, intervalMs: Number.NaN },
+			}),
+		).toThrow(RangeError);
+		expect(() =>
+			createPool({
+				methodLimits: {
+					render: {
+						rateLimit: { tokensPerInterval: 1, intervalMs: 10, burst: 0.5 },
+					},
+				},
+			}),
+		).toThrow("methodLimits.render.rateLimit.burst must be at least 1");
+	});
+});
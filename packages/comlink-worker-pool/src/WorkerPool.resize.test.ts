@@ -0,0 +1,218 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	type WorkerPoolOptions,
+	WorkerPoolQueueFullError,
+	type WorkerTaskOptions,
+} from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+	holdCalls,
+} from "./__mocks__/testPool";
+
+type ResizeApi = {
+	run(label: string): Promise<string>;
+};
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<ResizeApi>> = {}) {
+	const { finish, hold, started } = holdCalls();
+	const { events, pool, run } = createTestPool<ResizeApi>({
+		proxyFactory: () => ({ run: hold }),
+		...options,
+	});
+	const removals = () =>
+		events.flatMap((event) =>
+			event.type === "worker-removed" ? [event.reason] : [],
+		);
+	return {
+		events,
+		finish,
+		pool,
+		removals,
+		run: (label: string) => run("run", [label]),
+		started,
+	};
+}
+
+describe("WorkerPool - resize", () => {
+	test("growing schedules queued work at once", async () => {
+		const { finish, pool, run, started } = createPool();
+		const tasks = ["a", "b", "c"].map(run);
+		await flushMicrotasks();
+		expect(pool.getStats()).toMatchObject({ runningTasks: 1, queue: 2 });
+
+		pool.resize({ size: 3 });
+		await flushMicrotasks();
+		expect(started).toEqual(["a", "b", "c"]);
+		expect(pool.getStats()).toMatchObject({
+			size: 3,
+			maxConcurrentTasks: 3,
+			healthyWorkers: 3,
+			runningTasks: 3,
+			queue: 0,
+			terminationFailureWorkerBuffer: 2,
+		});
+		for (const label of started) await finish(label);
+		await expect(Promise.all(tasks)).resolves.toEqual(["a", "b", "c"]);
+	});
+
+	test("raising per-worker concurrency reuses existing workers", async () => {
+		const { pool, run } = createPool();
+		run("a");
+		run("b");
+		await flushMicrotasks();
+
+		pool.resize({ maxConcurrentTasksPerWorker: 2 });
+		await flushMicrotasks();
+		expect(pool.getStats()).toMatchObject({
+			healthyWorkers: 1,
+			runningTasks: 2,
+			maxConcurrentTasks: 2,
+		});
+	});
+
+	test("shrinking retires idle workers first and busy workers once they finish", async () => {
+		const { finish, pool, removals, run } = createPool({ size: 3 });
+		for (const label of ["a", "b", "c"]) run(label);
+		await flushMicrotasks();
+		await finish("c");
+
+		pool.resize({ size: 1 });
+		expect(removals()).toEqual(["resize"]);
+		expect(pool.getStats()).toMatchObject({
+			size: 1,
+			healthyWorkers: 2,
+			runningTasks: 2,
+		});
+
+		run("d");
+		await flushMicrotasks();
+		expect(pool.getStats()).toMatchObject({ runningTasks: 2, queue: 1 });
+
+		await finish("a");
+		expect(removals()).toEqual(["resize", "resize"]);
+		await finish("b");
+		expect(pool.getStats()).toMatchObject({
+			healthyWorkers: 1,
+			runningTasks: 1,
+			queue: 0,
+		});
+	});
+
+	test("growing again keeps workers still waiting to retire", async () => {
+		const { finish, pool, removals, run } = createPool({ size: 2 });
+		run("a");
+		run("b");
+		await flushMicrotasks();
+
+		pool.resize({ size: 1 });
+		pool.resize({ size: 2 });
+		await finish("a");
+		await finish("b");
+		expect(removals()).toEqual([]);
+		expect(pool.getStats()).toMatchObject({ healthyWorkers: 2 });
+	});
+
+	test("lowering maxQueueSize evicts waiting work by overflow policy", async () => {
+		const rejecting = createPool({ maxQueueSize: 3 });
+		rejecting.run("active");
+		const queued = ["a", "b", "c"].map((label) =>
+			rejecting.run(label).catch((error: unknown) => error),
+		);
+		await flushMicrotasks();
+		rejecting.pool.resize({ maxQueueSize: 1 });
+		const [first, second, third] = await Promise.all([
+			Promise.race([queued[0], flushMicrotasks().then(() => "waiting")]),
+			queued[1],
+			queued[2],
+		]);
+		expect(first).toBe("waiting");
+		expect(second).toBeInstanceOf(WorkerPoolQueueFullError);
+		expect(third).toMatchObject({ maxQueueSize: 1, dropped: false });
+		expect(rejecting.pool.getStats()).toMatchObject({
+			queue: 1,
+			queueCapacity: 1,
+			failedTasks: 2,
+		});
+
+		const dropping = createPool({
+			maxQueueSize: 2,
+			queueOverflowPolicy: "drop-oldest",
+		});
+		dropping.run("active");
+		const oldest = dropping.run("a").catch((error: unknown) => error);
+		dropping.run("b");
+		await flushMicrotasks();
+		dropping.pool.resize({ maxQueueSize: 1 });
+		await expect(oldest).resolves.toMatchObject({ dropped: true });
+		expect(dropping.pool.getStats().droppedTasks).toBe(1);
+
+		dropping.pool.resize({ maxQueueSize: null });
+		expect(dropping.pool.getStats()).toMatchObject({
+			queueCapacity: null,
+			queueCapacityRemaining: null,
+		});
+	});
+
+	test("lowering maxQueueSize trims by drop and custom policies", async () => {
+		const lowest = createPool({
+			maxQueueSize: 2,
+			queueOverflowPolicy: "drop-lowest-priority",
+		});
+		lowest.run("active");
+		const background = lowest.pool
+			.run("run", ["background"], { priority: -1 })
+			.catch((error: unknown) => error);
+		lowest.run("interactive");
+		await flushMicrotasks();
+		lowest.pool.resize({ maxQueueSize: 1 });
+		await expect(background).resolves.toMatchObject({
+			dropped: true,
+			policy: "drop-lowest-priority",
+		});
+
+		const submitted: unknown[] = [];
+		const custom = createPool({
+			maxQueueSize: 2,
+			queueOverflowPolicy: (queued, call) => {
+				submitted.push(call);
+				return queued[0].id;
+			},
+		});
+		custom.run("active");
+		const first = custom.run("a").catch((error: unknown) => error);
+		custom.run("b");
+		await flushMicrotasks();
+		custom.pool.resize({ maxQueueSize: 1 });
+		await expect(first).resolves.toMatchObject({
+			dropped: true,
+			policy: "custom",
+		});
+		expect(submitted).toEqual([undefined]);
+	});
+
+	test("rejects invalid capacity without changing the pool", () => {
+		const { pool } = createPool({ size: 2 });
+		expect(() => pool.resize({ size: 0 })).toThrow(RangeError);
+		expect(() => pool.resize({ maxConcurrentTasksPerWorker: 1.5 })).toThrow(
+			RangeError,
+		);
+		expect(() =>
+			pool.resize({ size: 2, maxConcurrentTasksPerWorker: 2 ** 52 }),
+		).toThrow(RangeError);
+		expect(() => pool.resize({ maxQueueSize: -1 })).toThrow(RangeError);
+		expect(() =>
+			createPool({
+				terminationFailureWorkerBuffer: Number.MAX_SAFE_INTEGER - 2,
+			}).pool.resize({ size: 3 }),
+		).toThrow(RangeError);
+		expect(pool.getStats()).toMatchObject({
+			size: 2,
+			maxConcurrentTasks: 2,
+			queueCapacity: null,
+		});
+	});
+});
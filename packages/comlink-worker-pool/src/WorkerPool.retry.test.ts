@@ -0,0 +1,366 @@
+import { afterEach, describe, expect, jest, test } from "bun:test";
+import {
+	WorkerCrashedError,
+	type WorkerPoolOptions,
+	WorkerPoolQueueFullError,
+	WorkerPoolTerminatedError,
+	WorkerQueueTimeoutError,
+	WorkerRetryQueueFullError,
+	WorkerTaskAbortedError,
+	WorkerTaskTimeoutError,
+} from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+} from "./__mocks__/testPool";
+
+type RetryApi = {
+	run(label: string): Promise<string>;
+};
+
+type Handler = (
+	label: string,
+	worker: EventTarget,
+	workerIndex: number,
+) => Promise<string>;
+
+afterEach(async () => {
+	jest.useRealTimers();
+	await closeTestPools();
+});
+
+function createPool(
+	handler: Handler,
+	options: Partial<WorkerPoolOptions<RetryApi>> = {},
+) {
+	const workers: EventTarget[] = [];
+	const { events, pool } = createTestPool<RetryApi>({
+		workerFactory: () => {
+			const worker = new EventTarget();
+			workers.push(worker);
+			return worker as unknown as Worker;
+		},
+		proxyFactory: (worker) => {
+			const index = workers.indexOf(worker as unknown as EventTarget);
+			return {
+				run: (label) => handler(label, worker as unknown as EventTarget, index),
+			};
+		},
+		...options,
+	});
+	return { events, pool, workers };
+}
+
+function crash(worker: EventTarget): Promise<never> {
+	queueMicrotask(() => worker.dispatchEvent(new Event("error")));
+	return new Promise(() => {});
+}
+
+describe("WorkerPool - retry", () => {
+	test("re-runs a crashed worker's task on a fresh worker", async () => {
+		const { events, pool, workers } = createPool(
+			async (label, worker, index) =>
+				index === 0 ? crash(worker) : `${label}@${index}`,
+			{ retry: { maxAttempts: 2 } },
+		);
+
+		await expect(pool.run("run", ["job"])).resolves.toBe("job@1");
+		expect(workers).toHaveLength(2);
+		expect(events.find((event) => event.type === "task-retried")).toEqual({
+			type: "task-retried",
+			timestamp: expect.any(Number),
+			taskId: 0,
+			method: "run",
+			workerId: 0,
+			outcome: "worker-failure",
+			attempt: 2,
+			delayMs: 0,
+		});
+		expect(
+			events
+				.filter((event) => event.type === "task-started")
+				.map((event) => event.taskId),
+		).toEqual([0, 0]);
+		expect(pool.getStats()).toMatchObject({
+			submittedTasks: 1,
+			startedTasks: 2,
+			completedTasks: 1,
+			failedTasks: 0,
+			retriedTasks: 1,
+		});
+	});
+
+	test("retries task timeouts after the configured backoff", async () => {
+		jest.useFakeTimers({ now: 1_000 });
+		const attempts: number[] = [];
+		let calls = 0;
+		const { pool } = createPool(
+			async (label) => {
+				calls++;
+				if (calls === 1) return new Promise(() => {});
+				return label;
+			},
+			{
+				taskTimeoutMs: 20,
+				retry: {
+					maxAttempts: 3,
+					backoffMs: (attempt) => {
+						attempts.push(attempt);
+						return 15;
+					},
+				},
+			},
+		);
+
+		const task = pool.run("run", ["slow"]);
+		await flushMicrotasks();
+		jest.advanceTimersByTime(20);
+		await flushMicrotasks();
+		expect(attempts).toEqual([1]);
+		jest.advanceTimersByTime(14);
+		await flushMicrotasks();
+		expect(calls).toBe(1);
+		jest.advanceTimersByTime(1);
+		await expect(task).resolves.toBe("slow");
+		expect(calls).toBe(2);
+		expect(pool.getStats()).toMatchObject({
+			retriedTasks: 1,
+			timedOutTasks: 0,
+		});
+	});
+
+	test("settles with the last failure once attempts are exhausted", async () => {
+		const { events, pool } = createPool(
+			async (_label, worker) => crash(worker),
+			{
+				retry: { maxAttempts: 3 },
+			},
+		);
+
+		await expect(pool.run("run", ["job"])).rejects.toBeInstanceOf(
+			WorkerCrashedError,
+		);
+		expect(
+			events
+				.filter((event) => event.type === "task-retried")
+				.map((event) => event.type === "task-retried" && event.attempt),
+		).toEqual([2, 3]);
+		expect(pool.getStats()).toMatchObject({ failedTasks: 1, retriedTasks: 2 });
+	});
+
+	test("retries rejected calls only when retryOn selects them", async () => {
+		const failed = new Set<string>();
+		const flaky: Handler = async (label) => {
+			if (failed.has(label)) return label;
+			failed.add(label);
+			throw new Error("flaky");
+		};
+		const { pool } = createPool(flaky, { retry: { maxAttempts: 2 } });
+		await expect(pool.run("run", ["a"])).rejects.toThrow("flaky");
+
+		const seen: unknown[] = [];
+		await expect(
+			pool.run("run", ["b"], {
+				retry: {
+					maxAttempts: 2,
+					retryOn: (outcome, error) => {
+						seen.push(outcome, (error as Error).message);
+						return outcome === "rejected";
+					},
+				},
+			}),
+		).resolves.toBe("b");
+		expect(seen).toEqual(["rejected", "flaky"]);
+	});
+
+	test("lets a call opt out of the pool retry policy", async () => {
+		const { pool } = createPool(async (_label, worker) => crash(worker), {
+			retry: { maxAttempts: 5 },
+		});
+		await expect(
+			pool.run("run", ["job"], { retry: false }),
+		).rejects.toBeInstanceOf(WorkerCrashedError);
+		expect(pool.getStats().retriedTasks).toBe(0);
+	});
+
+	test("keeps submission order ahead of later work", async () => {
+		const order: string[] = [];
+		const { pool } = createPool(
+			async (label, worker, index) => {
+				if (label === "first" && index === 0) return crash(worker);
+				order.push(label);
+				return label;
+			},
+			{ retry: { maxAttempts: 2 } },
+		);
+
+		await Promise.all([
+			pool.run("run", ["first"]),
+			pool.run("run", ["second"]),
+			pool.run("run", ["third"]),
+		]);
+		expect(order).toEqual(["first", "second", "third"]);
+	});
+
+	test("does not retry calls that transferred arguments", async () => {
+		const { pool } = createPool(async (_label, worker) => crash(worker), {
+			retry: { maxAttempts: 3 },
+		});
+		const bytes = new Uint8Array(8);
+		await expect(
+			pool.run("run", [bytes as unknown as string], {
+				transfer: [bytes.buffer],
+			}),
+		).rejects.toBeInstanceOf(WorkerCrashedError);
+		expect(pool.getStats()).toMatchObject({ retriedTasks: 0, failedTasks: 1 });
+	});
+
+	test("applies queue limits and timeouts again when a retry re-enters the queue", async () => {
+		jest.useFakeTimers({ now: 1_000 });
+		const pending = new Map<string, () => void>();
+		const hold: Handler = (label) =>
+			new Promise((resolve, reject) => {
+				pending.set(label, () =>
+					label === "retried" ? reject(new Error("flaky")) : resolve(label),
+				);
+			});
+		const retry = { maxAttempts: 2, backoffMs: 10, retryOn: () => true };
+
+		const full = createPool(hold, { maxQueueSize: 1, retry });
+		const rejected = full.pool.run("run", ["retried"]);
+		await flushMicrotasks();
+		pending.get("retried")?.();
+		await flushMicrotasks();
+		full.pool.run("run", ["running"]).catch(() => {});
+		full.pool.run("run", ["queued"]).catch(() => {});
+		jest.advanceTimersByTime(10);
+		const error = await rejected.catch((reason: unknown) => reason);
+		expect(error).toBeInstanceOf(WorkerRetryQueueFullError);
+		expect(error).toMatchObject({ attempt: 2 });
+		expect((error as Error).cause).toBeInstanceOf(WorkerPoolQueueFullError);
+		expect(full.pool.getStats()).toMatchObject({ retriedTasks: 1, queue: 1 });
+
+		const timed = createPool(hold, { queueTimeoutMs: 30, retry });
+		const timedOut = timed.pool.run("run", ["retried"]);
+		await flushMicrotasks();
+		jest.advanceTimersByTime(25);
+		pending.get("retried")?.();
+		await flushMicrotasks();
+		timed.pool.run("run", ["running"]).catch(() => {});
+		jest.advanceTimersByTime(39);
+		await flushMicrotasks();
+		expect(timed.pool.getStats().queue).toBe(1);
+		jest.advanceTimersByTime(1);
+		await expect(timedOut).rejects.toBeInstanceOf(WorkerQueueTimeoutError);
+		await expect(timedOut).rejects.toMatchObject({ timeoutMs: 30 });
+	});
+
+	test("reports retries that newer submissions drop from a full queue", async () => {
+		jest.useFakeTimers({ now: 1_000 });
+		let failed = false;
+		const { events, pool } = createPool(
+			async (label) => {
+				if (label !== "retried" || failed) return new Promise(() => {});
+				failed = true;
+				throw new Error("flaky");
+			},
+			{
+				maxQueueSize: 1,
+				queueOverflowPolicy: "drop-oldest",
+				retry: { maxAttempts: 2, backoffMs: 10, retryOn: () => true },
+			},
+		);
+		const retried = pool.run("run", ["retried"]);
+		await flushMicrotasks();
+		pool.run("run", ["running"]).catch(() => {});
+		jest.advanceTimersByTime(10);
+		expect(pool.getStats().queue).toBe(1);
+
+		pool.run("run", ["newer"]).catch(() => {});
+		const error = await retried.catch((reason: unknown) => reason);
+		expect(error).toBeInstanceOf(WorkerRetryQueueFullError);
+		expect((error as Error).cause).toMatchObject({ dropped: true });
+		expect(events.at(-1)).toMatchObject({
+			type: "task-settled",
+			taskId: 0,
+			outcome: "dropped",
+		});
+	});
+
+	test("cancels, closes, and drains tasks waiting to retry", async () => {
+		const { pool } = createPool(async (_label, worker) => crash(worker), {
+			retry: { maxAttempts: 2, backoffMs: 1_000 },
+		});
+
+		const controller = new AbortController();
+		const aborted = pool.run("run", ["aborted"], {
+			signal: controller.signal,
+		});
+		await flushMicrotasks();
+		expect(pool.getStats()).toMatchObject({ retriedTasks: 1, queue: 0 });
+		controller.abort("stop");
+		await expect(aborted).rejects.toBeInstanceOf(WorkerTaskAbortedError);
+
+		const closed = pool.run("run", ["closed"]);
+		await flushMicrotasks();
+		const drained = pool.drain();
+		let drainSettled = false;
+		void drained.then(() => {
+			drainSettled = true;
+		});
+		await flushMicrotasks();
+		expect(drainSettled).toBe(false);
+		await pool.close();
+		await expect(closed).rejects.toBeInstanceOf(WorkerPoolTerminatedError);
+		expect(pool.getStats().retriedTasks).toBe(2);
+	});
+
+	test("validates retry policies", async () => {
+		expect(() =>
+			createPool(async (label) => label, { retry: { maxAttempts: 0 } }),
+		).toThrow(RangeError);
+		expect(() =>
+			createPool(async (label) => label, {
+				retry: { maxAttempts: 2, backoffMs: -1 },
+			}),
+		).toThrow(RangeError);
+		const { pool } = createPool(async (label) => label);
+		await expect(
+			pool.run("run", ["job"], {
+				retry: { maxAttempts: 2, retryOn: "always" as never },
+			}),
+		).rejects.toBeInstanceOf(TypeError);
+		await expect(
+			pool.run("run", ["job"], { retry: null as never }),
+		).rejects.toBeInstanceOf(TypeError);
+	});
+
+	test("settles with the original failure when a policy callback misbehaves", async () => {
+		const { pool } = createPool(
+			async () => {
+				throw new WorkerTaskTimeoutError(1);
+			},
+			{
+				retry: {
+					maxAttempts: 2,
+					retryOn: () => true,
+					backoffMs: () => Number.NaN,
+				},
+			},
+		);
+		await expect(pool.run("run", ["job"])).rejects.toBeInstanceOf(
+			WorkerTaskTimeoutError,
+		);
+		const throwing = pool.run("run", ["job"], {
+			retry: {
+				maxAttempts: 2,
+				retryOn: () => {
+					throw new Error("observer bug");
+				},
+			},
+		});
+		await expect(throwing).rejects.toBeInstanceOf(WorkerTaskTimeoutError);
+		expect(pool.getStats().retriedTasks).toBe(0);
+	});
+});
@@ -194,16 +194,19 @@ describe("WorkerPool - lifecycle robustness", () => {
 			state: "closed",
 			size: 1,
 			maxConcurrentTasks: 1,
+			concurrencyLimit: null,
 			available: 0,
 			queue: 0,
 			queueCapacity: null,
 			queueCapacityRemaining: null,
+			admissionQueue: 0,
 			oldestQueuedTaskAgeMs: null,
 			workers: 0,
 			healthyWorkers: 0,
 			quarantinedWorkers: 0,
 			terminationFailureWorkerBuffer: 2,
 			terminationFailures: 0,
+			initializingWorkers: 0,
 			idleWorkers: 0,
 			runningTasks: 0,
 			availableForConcurrency: 0,
@@ -214,6 +217,26 @@ describe("WorkerPool - lifecycle robustness", () => {
 			cancelledTasks: 0,
 			timedOutTasks: 0,
 			droppedTasks: 0,
+			retriedTasks: 0,
+			hedgedTasks: 0,
+			dedupedCalls: 0,
+			cacheHits: 0,
+			cacheMisses: 0,
+			rateLimit: null,
+			methods: {
+				run: {
+					queue: 0,
+					runningTasks: 0,
+					maxConcurrent: null,
+					queueCapacity: null,
+					submittedTasks: 2,
+					completedTasks: 0,
+					failedTasks: 2,
+					rateLimit: null,
+					circuit: null,
+				},
+			},
+			affinityKeys: 0,
 		});
 		await expect(api.run("after close")).rejects.toBeInstanceOf(
 			WorkerPoolTerminatedError,
@@ -99,6 +99,137 @@ describe("WorkerPool - scheduling controls", () => {
 		]);
 	});
 
+	test("drop-newest evicts the most recently queued task", async () => {
+		const { invocations, pool } = createHarness({
+			maxQueueSize: 2,
+			queueOverflowPolicy: "drop-newest",
+		});
+		const active = pool.run("run", ["active"]);
+		await flush();
+		const kept = pool.run("run", ["kept"]);
+		const dropped = pool.run("run", ["dropped"]);
+		const latest = pool.run("run", ["latest"]);
+		await expect(dropped).rejects.toMatchObject({
+			name: "WorkerPoolQueueFullError",
+			dropped: true,
+			policy: "drop-newest",
+		});
+		for (const [index, value] of ["active", "kept", "latest"].entries()) {
+			await flush();
+			invocations[index].resolve(value);
+		}
+		await expect(Promise.all([active, kept, latest])).resolves.toEqual([
+			"active",
+			"kept",
+			"latest",
+		]);
+	});
+
+	test("drop-lowest-priority evicts background work for urgent calls", async () => {
+		const { invocations, pool } = createHarness({
+			maxQueueSize: 2,
+			queueOverflowPolicy: "drop-lowest-priority",
+		});
+		const active = pool.run("run", ["active"]);
+		await flush();
+		const older = pool.run("run", ["older"], { priority: -1 });
+		const newer = pool.run("run", ["newer"], { priority: -1 });
+		const urgent = pool.run("run", ["urgent"], { priority: 5 });
+		await expect(newer).rejects.toMatchObject({
+			dropped: true,
+			policy: "drop-lowest-priority",
+		});
+		await expect(
+			pool.run("run", ["lowest"], { priority: -2 }),
+		).rejects.toMatchObject({
+			dropped: false,
+			policy: "drop-lowest-priority",
+		});
+		for (const [index, value] of ["active", "urgent", "older"].entries()) {
+			await flush();
+			invocations[index].resolve(value);
+		}
+		await expect(Promise.all([active, urgent, older])).resolves.toEqual([
+			"active",
+			"urgent",
+			"older",
+		]);
+	});
+
+	test("a custom evictor picks the call to drop from the queue view", async () => {
+		const views: unknown[] = [];
+		const { invocations, pool } = createHarness({
+			maxQueueSize: 2,
+			queueOverflowPolicy: (queued, submitted) => {
+				views.push({
+					queued: queued.map(({ id }) => id),
+					submitted: submitted?.id,
+				});
+				if (submitted?.priority === 0) return undefined;
+				return queued.find(({ priority }) => priority === 1)?.id;
+			},
+		});
+		const active = pool.run("run", ["active"]);
+		await flush();
+		const first = pool.run("run", ["first"], { priority: 1 });
+		const second = pool.run("run", ["second"], { priority: 2 });
+		const rejected = pool.run("run", ["rejected"]);
+		const replacement = pool.run("run", ["replacement"], { priority: 3 });
+		await expect(rejected).rejects.toMatchObject({
+			dropped: false,
+			policy: "custom",
+		});
+		await expect(first).rejects.toMatchObject({
+			dropped: true,
+			policy: "custom",
+		});
+		expect(views).toEqual([
+			{ queued: [2, 1, 3], submitted: 3 },
+			{ queued: [4, 2, 1], submitted: 4 },
+		]);
+		for (const [index, value] of [
+			"active",
+			"replacement",
+			"second",
+		].entries()) {
+			await flush();
+			invocations[index].resolve(value);
+		}
+		await expect(Promise.all([active, replacement, second])).resolves.toEqual([
+			"active",
+			"replacement",
+			"second",
+		]);
+	});
+
+	test("an evictor that throws or names no waiting call rejects the new call", async () => {
+		let evict: () => number | undefined = () => {
+			throw new Error("evictor failed");
+		};
+		const { invocations, pool } = createHarness({
+			maxQueueSize: 1,
+			queueOverflowPolicy: () => evict(),
+		});
+		const active = pool.run("run", ["active"]);
+		await flush();
+		const queued = pool.run("run", ["queued"]);
+		await expect(pool.run("run", ["thrown"])).rejects.toMatchObject({
+			dropped: false,
+		});
+		evict = () => 99;
+		await expect(pool.run("run", ["unknown"])).rejects.toMatchObject({
+			dropped: false,
+		});
+		expect(pool.getStats().queue).toBe(1);
+		invocations[0].resolve("active");
+		await flush();
+		invocations[1].resolve("queued");
+		await expect(Promise.all([active, queued])).resolves.toEqual([
+			"active",
+			"queued",
+		]);
+	});
+
 	test("prioritizes queued work while preserving FIFO ties", async () => {
 		const { invocations, pool } = createHarness();
 		const calls = [
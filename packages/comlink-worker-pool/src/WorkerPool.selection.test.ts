@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import type { WorkerPoolOptions, WorkerTaskOptions } from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	flushMicrotasks,
+	holdCalls,
+	sleep,
+} from "./__mocks__/testPool";
+
+type SelectionApi = {
+	render(label: string): Promise<string>;
+};
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<SelectionApi>> = {}) {
+	const { finish, hold } = holdCalls();
+	const workers: EventTarget[] = [];
+	// Label of each started task and the 1-based creation order of its worker.
+	const placements: Record<string, number> = {};
+	const { pool, run } = createTestPool<SelectionApi>({
+		size: 3,
+		maxConcurrentTasksPerWorker: 3,
+		workerFactory: () => {
+			const worker = new EventTarget();
+			workers.push(worker);
+			return worker as unknown as Worker;
+		},
+		proxyFactory: (worker) => ({
+			render: (label) => {
+				placements[label] = workers.indexOf(worker) + 1;
+				return hold(label);
+			},
+		}),
+		...options,
+	});
+	return {
+		finish,
+		placements,
+		pool,
+		run: async (...labels: string[]) => {
+			for (const label of labels) run("render", [label]);
+			await flushMicrotasks();
+		},
+	};
+}
+
+/** Leaves workers 1 and 3 with one running task and worker 2 with two. */
+async function loadUnevenly(
+	run: ReturnType<typeof createPool>["run"],
+	finish: ReturnType<typeof createPool>["finish"],
+): Promise<void> {
+	await run("a", "b", "c", "d", "e");
+	await finish("d");
+}
+
+describe("WorkerPool - worker selection", () => {
+	test("uses idle workers first and then the least loaded worker", async () => {
+		const { finish, placements, run } = createPool();
+		await loadUnevenly(run, finish);
+		await run("f", "g");
+		expect(placements).toEqual({ a: 1, b: 2, c: 3, d: 1, e: 2, f: 1, g: 3 });
+	});
+
+	test("rotates through busy workers with round-robin", async () => {
+		const { finish, placements, run } = createPool({
+			workerSelection: "round-robin",
+		});
+		await loadUnevenly(run, finish);
+		await run("f", "g", "h");
+		expect(placements).toMatchObject({ f: 3, g: 1, h: 2 });
+	});
+
+	test("keeps the less loaded of two random workers", async () => {
+		const random = spyOn(Math, "random");
+		try {
+			const { finish, placements, run } = createPool({
+				workerSelection: "random-two-choices",
+			});
+			// d and e compare workers 1 and 2, f compares 2 and 3, g compares 1 and 2.
+			for (const value of [0, 0, 0, 0, 0.5, 0.5, 0, 0]) {
+				random.mockReturnValueOnce(value);
+			}
+			await loadUnevenly(run, finish);
+			await run("f", "g");
+			expect(placements).toMatchObject({ d: 1, e: 2, f: 3, g: 1 });
+		} finally {
+			random.mockRestore();
+		}
+	});
+
+	test("avoids workers with slow recent tasks under ewma-latency", async () => {
+		const { finish, placements, pool, run } = createPool({
+			size: 2,
+			workerSelection: "ewma-latency",
+		});
+		await run("slow", "fast");
+		await finish("fast");
+		await sleep(30);
+		await finish("slow");
+		await run("c", "d", "e", "f");
+		expect(placements).toMatchObject({ slow: 1, fast: 2, e: 2, f: 2 });
+		expect(pool.getStats().runningTasks).toBe(4);
+	});
+
+	test("moves new tasks off a worker stuck on its first slow task", async () => {
+		const { placements, run } = createPool({
+			size: 2,
+			workerSelection: "ewma-latency",
+		});
+		await run("stuck");
+		await sleep(30);
+		await run("fresh", "c", "d");
+		// Neither worker has a sample yet; the stuck task's run time counts.
+		expect(placements).toEqual({ stuck: 1, fresh: 2, c: 2, d: 2 });
+	});
+
+	test("validates the selection strategy", () => {
+		expect(() => createPool({ workerSelection: "fastest" as never })).toThrow(
+			'workerSelection must be one of "least-loaded", "round-robin", "random-two-choices", "ewma-latency"',
+		);
+	});
+});
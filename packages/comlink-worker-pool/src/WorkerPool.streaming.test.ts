@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import * as Comlink from "comlink";
+import { WorkerTaskAbortedError, WorkerTaskTimeoutError } from "./WorkerPool";
+import { closeTestPools, createTestPool, sleep } from "./__mocks__/testPool";
+import { type PooledTaskContext, exposePooled, transferResult } from "./worker";
+
+type StreamApi = {
+	count(limit: number): AsyncGenerator<number>;
+	single(value: string): Promise<string>;
+	hang(): AsyncGenerator<number>;
+};
+
+afterEach(closeTestPools);
+
+function createPool(taskTimeoutMs: number | false = false) {
+	const produced: number[] = [];
+	const closed: number[] = [];
+	const { events, pool } = createTestPool<StreamApi>({
+		taskTimeoutMs,
+		proxyFactory: () => ({
+			async *count(limit) {
+				try {
+					for (let value = 1; value <= limit; value++) {
+						produced.push(value);
+						yield value;
+					}
+				} finally {
+					closed.push(limit);
+				}
+			},
+			single: async (value) => value,
+			async *hang() {
+				yield 0;
+				await new Promise(() => {});
+			},
+		}),
+	});
+	return { closed, events, pool, produced };
+}
+
+async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+	const values: T[] = [];
+	for await (const value of stream) values.push(value);
+	return values;
+}
+
+describe("WorkerPool - streaming", () => {
+	test("yields values in order while holding one worker slot", async () => {
+		const { pool } = createPool();
+		const first = pool.stream("count", [3]);
+		const second = pool.stream("count", [2]);
+		await expect(first.next()).resolves.toEqual({ done: false, value: 1 });
+		expect(pool.getStats()).toMatchObject({ runningTasks: 1, queue: 1 });
+		await expect(collect(first)).resolves.toEqual([2, 3]);
+		await expect(collect(second)).resolves.toEqual([1, 2]);
+		expect(pool.getStats()).toMatchObject({
+			completedTasks: 2,
+			runningTasks: 0,
+		});
+	});
+
+	test("pulls at most one value ahead of the consumer", async () => {
+		const { pool, produced } = createPool();
+		const stream = pool.stream("count", [100]);
+		await stream.next();
+		await sleep(5);
+		expect(produced.length).toBeLessThanOrEqual(2);
+		await stream.return?.();
+	});
+
+	test("aborts the task and closes the source when the consumer stops", async () => {
+		const { closed, events, pool } = createPool();
+		for await (const value of pool.stream("count", [10])) {
+			if (value === 2) break;
+		}
+		await sleep(1);
+		expect(closed).toEqual([10]);
+		expect(
+			events.findLast((event) => event.type === "task-settled"),
+		).toMatchObject({
+			outcome: "aborted",
+		});
+		expect(pool.getStats()).toMatchObject({
+			runningTasks: 0,
+			cancelledTasks: 1,
+		});
+	});
+
+	test("applies abort signals and the task timeout to the whole stream", async () => {
+		const { pool } = createPool(20);
+		const controller = new AbortController();
+		const aborted = pool.stream("count", [5], { signal: controller.signal });
+		await aborted.next();
+		controller.abort();
+		await expect(aborted.next()).rejects.toBeInstanceOf(WorkerTaskAbortedError);
+
+		const hanging = pool.stream("hang", []);
+		await expect(hanging.next()).resolves.toEqual({ done: false, value: 0 });
+		await expect(hanging.next()).rejects.toBeInstanceOf(WorkerTaskTimeoutError);
+	});
+
+	test("yields a non-iterable result once", async () => {
+		const { pool } = createPool();
+		await expect(collect(pool.stream("single", ["only"]))).resolves.toEqual([
+			"only",
+		]);
+	});
+
+	test("pulls generators through the pooled protocol", async () => {
+		const seen: number[] = [];
+		const api = {
+			async *frames(this: PooledTaskContext, count: number) {
+				for (let index = 0; index < count; index++) {
+					this.signal.throwIfAborted();
+					const frame = new Uint8Array([index]);
+					yield transferResult(frame);
+					seen.push(frame.byteLength);
+				}
+			},
+		};
+		const channel = new MessageChannel();
+		exposePooled(api, channel.port1);
+		const { pool } = createTestPool<typeof api>({
+			pooledWorkers: true,
+			proxyFactory: () =>
+				Comlink.wrap<typeof api>(channel.port2) as unknown as typeof api,
+		});
+		const frames: number[] = [];
+		for await (const frame of pool.stream("frames", [3])) {
+			frames.push(frame[0]);
+		}
+		expect(frames).toEqual([0, 1, 2]);
+		expect(seen).toEqual([0, 0, 0]);
+
+		const controller = new AbortController();
+		const stream = pool.stream("frames", [5], { signal: controller.signal });
+		await stream.next();
+		controller.abort();
+		await expect(stream.next()).rejects.toBeInstanceOf(WorkerTaskAbortedError);
+		await pool.close();
+		channel.port1.close();
+		channel.port2.close();
+	});
+
+	test("reports pooled stream failures and early consumer exits", async () => {
+		const closed: string[] = [];
+		const api = {
+			missing: undefined as unknown as () => AsyncGenerator<number>,
+			async *broken() {
+				yield 1;
+				throw new Error("source failed");
+			},
+			async *endless() {
+				try {
+					for (let value = 0; ; value++) yield value;
+				} finally {
+					closed.push("endless");
+				}
+			},
+		};
+		const channel = new MessageChannel();
+		exposePooled(api, channel.port1);
+		const { pool } = createTestPool<typeof api>({
+			pooledWorkers: true,
+			proxyFactory: () =>
+				Comlink.wrap<typeof api>(channel.port2) as unknown as typeof api,
+		});
+
+		await expect(collect(pool.stream("missing", []))).rejects.toThrow(
+			"Pooled worker method missing is not a function",
+		);
+		await expect(collect(pool.stream("broken", []))).rejects.toThrow(
+			"source failed",
+		);
+		const endless = pool.stream("endless", []);
+		await expect(endless.next()).resolves.toEqual({ done: false, value: 0 });
+		await endless.return?.();
+		for (let attempt = 0; attempt < 20 && closed.length === 0; attempt++) {
+			await sleep(1);
+		}
+		expect(closed).toEqual(["endless"]);
+		await pool.close();
+		channel.port1.close();
+		channel.port2.close();
+	});
+});
@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	type WorkerPoolOptions,
+	type WorkerTaskOptions,
+	WorkerTaskTimeoutError,
+} from "./WorkerPool";
+import {
+	closeTestPools,
+	createTestPool,
+	holdCalls,
+	sleep,
+} from "./__mocks__/testPool";
+
+type TimeoutApi = {
+	render(label: string): Promise<string>;
+};
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<TimeoutApi>> = {}) {
+	const { finish, hold } = holdCalls();
+	const { events, pool, run } = createTestPool<TimeoutApi>({
+		proxyFactory: () => ({ render: hold }),
+		...options,
+	});
+	return {
+		events,
+		finish,
+		pool,
+		run: (label: string, taskOptions?: WorkerTaskOptions) =>
+			run("render", [label], taskOptions),
+	};
+}
+
+describe("WorkerPool - task timeouts", () => {
+	test("overrides the method and pool timeouts per call", async () => {
+		const { events, finish, pool, run } = createPool({
+			size: 2,
+			taskTimeoutMs: 60_000,
+			methodLimits: { render: { taskTimeoutMs: 60_000 } },
+		});
+		const timedOut = run("short", { taskTimeoutMs: 10 });
+		const unbounded = run("unbounded", { taskTimeoutMs: false });
+		await expect(timedOut).rejects.toBeInstanceOf(WorkerTaskTimeoutError);
+		await expect(timedOut).rejects.toMatchObject({ timeoutMs: 10 });
+		expect(events).toContainEqual(
+			expect.objectContaining({
+				type: "worker-removed",
+				reason: "task-timeout",
+			}),
+		);
+		await finish("unbounded");
+		await expect(unbounded).resolves.toBe("unbounded");
+		expect(pool.getStats()).toMatchObject({ timedOutTasks: 1 });
+	});
+
+	test("rejects at the soft deadline and keeps a worker that returns in the grace period", async () => {
+		const { events, finish, pool, run } = createPool({
+			taskTimeoutMs: 10,
+			taskTimeoutGraceMs: 60_000,
+		});
+		const soft = run("soft");
+		const queued = run("queued");
+		await expect(soft).rejects.toBeInstanceOf(WorkerTaskTimeoutError);
+		expect(events).toContainEqual(
+			expect.objectContaining({
+				type: "task-soft-timeout",
+				taskId: 0,
+				method: "render",
+				timeoutMs: 10,
+				graceMs: 60_000,
+			}),
+		);
+		// The attempt keeps its slot until the worker returns.
+		expect(pool.getStats()).toMatchObject({
+			runningTasks: 1,
+			queue: 1,
+			timedOutTasks: 1,
+		});
+		await finish("soft");
+		expect(events).toContainEqual({
+			type: "task-soft-timeout-returned",
+			timestamp: expect.any(Number),
+			taskId: 0,
+			method: "render",
+			workerId: 0,
+			outcome: "fulfilled",
+			overrunMs: expect.any(Number),
+		});
+		await finish("queued");
+		await expect(queued).resolves.toBe("queued");
+		expect(events.some(({ type }) => type === "worker-removed")).toBe(false);
+		expect(
+			events.filter(
+				(event) => event.type === "task-settled" && event.taskId === 0,
+			),
+		).toEqual([expect.objectContaining({ outcome: "task-soft-timeout" })]);
+	});
+
+	test("recycles the worker once the grace period ends", async () => {
+		const { events, finish, pool, run } = createPool({
+			taskTimeoutMs: 10,
+			taskTimeoutGraceMs: 10,
+		});
+		const stuck = run("stuck");
+		const queued = run("queued", { taskTimeoutMs: false });
+		await expect(stuck).rejects.toBeInstanceOf(WorkerTaskTimeoutError);
+		await sleep(30);
+		expect(events).toContainEqual(
+			expect.objectContaining({
+				type: "worker-removed",
+				reason: "task-timeout",
+			}),
+		);
+		expect(
+			events.filter(({ type }) => type === "task-soft-timeout"),
+		).toHaveLength(1);
+		await finish("queued");
+		await expect(queued).resolves.toBe("queued");
+		expect(pool.getStats()).toMatchObject({ timedOutTasks: 1, failedTasks: 0 });
+	});
+
+	test("times out hard when a call opts out of the grace period", async () => {
+		const { events, run } = createPool({ taskTimeoutGraceMs: 60_000 });
+		const hard = run("hard", { taskTimeoutMs: 10, taskTimeoutGraceMs: false });
+		await expect(hard).rejects.toBeInstanceOf(WorkerTaskTimeoutError);
+		expect(events.some(({ type }) => type === "task-soft-timeout")).toBe(false);
+		expect(events).toContainEqual(
+			expect.objectContaining({
+				type: "worker-removed",
+				reason: "task-timeout",
+			}),
+		);
+	});
+
+	test("validates the timeout options", async () => {
+		expect(() => createPool({ taskTimeoutGraceMs: 0 })).toThrow(
+			"taskTimeoutGraceMs must be a positive finite number",
+		);
+		const { run } = createPool();
+		await expect(run("invalid", { taskTimeoutMs: -1 })).rejects.toThrow(
+			"taskTimeoutMs must be a positive finite number",
+		);
+		await expect(
+			run("invalid", { taskTimeoutGraceMs: Number.NaN }),
+		).rejects.toThrow("taskTimeoutGraceMs must be a positive finite number");
+		expect(() => createPool({ inactivityTimeoutMs: 10 })).toThrow(
+			"inactivityTimeoutMs requires pooledWorkers",
+		);
+		await expect(run("invalid", { inactivityTimeoutMs: 10 })).rejects.toThrow(
+			"inactivityTimeoutMs requires pooledWorkers",
+		);
+	});
+});
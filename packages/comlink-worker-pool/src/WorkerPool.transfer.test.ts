@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import * as Comlink from "comlink";
+import type { WorkerPoolOptions } from "./WorkerPool";
+import { closeTestPools, createTestPool } from "./__mocks__/testPool";
+import { detectTransferables } from "./transfer";
+import { transferResult } from "./worker";
+
+type TransferApi = {
+	measure(payload: { bytes: Uint8Array }): Promise<number>;
+};
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<TransferApi>> = {}) {
+	return createTestPool<TransferApi>({
+		...options,
+		workerFactory: () =>
+			new Worker(new URL("./__mocks__/comlinkWorker.ts", import.meta.url), {
+				type: "module",
+			}),
+		proxyFactory: (worker) => Comlink.wrap<TransferApi>(worker),
+		workerTerminator: (worker) => worker.terminate(),
+	}).pool;
+}
+
+describe("WorkerPool - transferables", () => {
+	test("transfers an explicit list instead of cloning it", async () => {
+		const pool = createPool();
+		const bytes = new Uint8Array([1, 2, 3, 4]);
+		await expect(
+			pool.run("measure", [{ bytes }], { transfer: [bytes.buffer] }),
+		).resolves.toBe(10);
+		expect(bytes.buffer.byteLength).toBe(0);
+	});
+
+	test("applies the pool detector to getApi calls unless a call opts out", async () => {
+		const pool = createPool({ transfer: detectTransferables });
+		const transferred = new Uint8Array([5, 5]);
+		await expect(pool.getApi().measure({ bytes: transferred })).resolves.toBe(
+			10,
+		);
+		expect(transferred.byteLength).toBe(0);
+
+		const cloned = new Uint8Array([7]);
+		await expect(
+			pool.run("measure", [{ bytes: cloned }], { transfer: false }),
+		).resolves.toBe(7);
+		expect(cloned.byteLength).toBe(1);
+	});
+
+	test("transfers results marked by the worker", async () => {
+		const allocations: Uint8Array[] = [];
+		const channel = new MessageChannel();
+		Comlink.expose(
+			{
+				allocate(size: number) {
+					const bytes = new Uint8Array(size).fill(1);
+					allocations.push(bytes);
+					return transferResult(bytes);
+				},
+			},
+			channel.port1,
+		);
+		const { pool } = createTestPool<{
+			allocate(size: number): Promise<Uint8Array>;
+		}>({ proxyFactory: () => Comlink.wrap(channel.port2) });
+		const result = await pool.run("allocate", [16]);
+		expect(result.byteLength).toBe(16);
+		expect(allocations[0].byteLength).toBe(0);
+		expect(transferResult(3)).toBe(3);
+		await pool.close();
+		channel.port1.close();
+		channel.port2.close();
+	});
+
+	test("rejects a transfer list without an object argument to carry it", async () => {
+		const pool = createPool();
+		await expect(
+			pool.run("measure", [null as never], {
+				transfer: [new ArrayBuffer(1)],
+			}),
+		).rejects.toBeInstanceOf(TypeError);
+		expect(pool.getStats()).toMatchObject({ submittedTasks: 0, workers: 0 });
+	});
+
+	test("detects nested transferables once and skips shared or opaque values", () => {
+		const buffer = new ArrayBuffer(8);
+		const port = Object.create(MessagePort.prototype) as MessagePort;
+		class Opaque {
+			readonly hidden = new ArrayBuffer(1);
+		}
+		const found = detectTransferables([
+			{ first: new Uint8Array(buffer), second: new Float32Array(buffer) },
+			[new Map([["port", port]]), new Set([buffer])],
+			new SharedArrayBuffer(4),
+			new Opaque(),
+			"text",
+		]);
+		expect(found).toHaveLength(2);
+		expect(found).toContain(buffer);
+		expect(found).toContain(port);
+	});
+});
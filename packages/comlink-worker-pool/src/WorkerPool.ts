@@ -1,35 +1,97 @@
-import { releaseProxy } from "comlink";
+import { releaseProxy, transfer } from "comlink";
 import {
+	WorkerCircuitOpenError,
 	WorkerCrashedError,
+	WorkerDeadlineExceededError,
+	WorkerInitializationError,
 	WorkerPoolCapacityError,
 	WorkerPoolQueueFullError,
 	WorkerPoolTerminatedError,
 	WorkerQueueTimeoutError,
+	WorkerRetryQueueFullError,
 	WorkerTaskAbortedError,
 	WorkerTaskTimeoutError,
 	type WorkerTerminationError,
 } from "./errors";
+import {
+	ConcurrencyLimiter,
+	assertAdaptiveConcurrency,
+} from "./internal/adaptive";
+import { ResultCache, assertCachePolicies } from "./internal/cache";
+import { CircuitBreaker, assertCircuitBreakers } from "./internal/circuit";
+import { SharedCall, type SharedCaller } from "./internal/dedupe";
+import { PoolTaskHandle } from "./internal/handle";
+import {
+	LatencySamples,
+	assertHedgePolicies,
+	assertHedgePolicy,
+	hedgeDelay,
+} from "./internal/hedge";
 import {
 	DEFAULT_TASK_TIMEOUT_MS,
+	DEFAULT_WORKER_INIT_TIMEOUT_MS,
 	MAX_TIMER_DELAY_MS,
 	type WorkerMetadata,
 	assertFunction,
 	assertNonNegativeInteger,
 	assertOptionalFunction,
+	assertPoolCapacity,
 	assertPositiveDuration,
 	assertPositiveInteger,
 	isolateAsyncFailure,
 	monotonicNow,
 } from "./internal/lifecycle";
-import { type ScheduledTask, SchedulerQueue } from "./internal/scheduler";
+import {
+	type MethodState,
+	assertMethodLimits,
+	createMethodState,
+	resolveDuration,
+} from "./internal/methods";
+import {
+	POOLED_WORKER_KEY,
+	type PooledWorkerRemote,
+	toPooledAbortReason,
+} from "./internal/protocol";
+import { TokenBucket, assertRateLimit } from "./internal/rateLimit";
+import {
+	type RetryableOutcome,
+	assertRetryPolicy,
+	retryDelay,
+} from "./internal/retry";
+import {
+	AdmissionQueue,
+	MethodQueues,
+	type OverflowPolicy,
+	type QueueEviction,
+	type ScheduledTask,
+} from "./internal/scheduler";
+import {
+	assertWorkerSelection,
+	recordWorkerLatency,
+	selectWorker,
+} from "./internal/selection";
+import {
+	type StreamSource,
+	TaskStream,
+	toStreamSource,
+} from "./internal/stream";
 import {
 	DEFAULT_TERMINATION_ATTEMPT_TIMEOUT_MS,
 	DEFAULT_TERMINATION_RETRY_ATTEMPTS,
 	DEFAULT_TERMINATION_RETRY_DELAY_MS,
 	TerminationController,
 } from "./internal/termination";
+import { attachTransferables, resolveTransferables } from "./internal/transfer";
 
 const WORKER_FAILURE_EVENT_TYPES = ["error", "messageerror", "close"] as const;
+const DEFAULT_MAX_AFFINITY_KEYS = 1_000;
+const QUEUE_OVERFLOW_STRATEGIES: readonly QueueOverflowStrategy[] = [
+	"reject",
+	"drop-oldest",
+	"drop-newest",
+	"drop-lowest-priority",
+	"wait",
+];
 
 export * from "./errors";
 
@@ -40,6 +102,13 @@ export type WorkerFactory = () => Worker;
 // biome-ignore lint/suspicious/noConfusingVoidType: sync terminators naturally return void.
 export type WorkerTerminator = (worker: Worker) => void | PromiseLike<unknown>;
 
+/** Prepares a new worker before it receives tasks, resolving once it is ready. */
+export type WorkerInitializer<TProxy> = (
+	proxy: TProxy,
+	workerId: number,
+	// biome-ignore lint/suspicious/noConfusingVoidType: synchronous initializers naturally return void.
+) => void | PromiseLike<unknown>;
+
 /** Receives an observable value; returned thenables are consumed without being awaited. */
 // biome-ignore lint/suspicious/noConfusingVoidType: synchronous observers naturally return void.
 export type WorkerPoolObserver<T> = (value: T) => void | PromiseLike<unknown>;
@@ -49,21 +118,333 @@ type CallableProxy<TProxy> = {
 	[K in keyof TProxy]: (...args: any[]) => unknown;
 };
 
-/** Policy applied when a submitted task would exceed maxQueueSize. */
-export type QueueOverflowPolicy = "reject" | "drop-oldest";
+/** Returns the objects to transfer, rather than clone, for one call's arguments. */
+export type TransferDetector = (args: readonly unknown[]) => Transferable[];
+
+/** Value type yielded by WorkerPool.stream() for a worker method's return type. */
+export type PooledStreamValue<TReturn> = Awaited<TReturn> extends AsyncIterable<
+	infer TValue
+>
+	? TValue
+	: Awaited<TReturn> extends Iterator<infer TValue> & Iterable<unknown>
+		? TValue
+		: Awaited<TReturn>;
+
+/** Re-runs tasks whose attempt ended on a worker, on the next available worker. */
+export interface WorkerRetryPolicy {
+	/** Total attempts, including the first. */
+	maxAttempts: number;
+	/**
+	 * Delay before the next attempt, fixed or computed from the 1-based attempt
+	 * that just failed. Defaults to 0.
+	 */
+	backoffMs?: number | ((attempt: number) => number);
+	/**
+	 * Selects retryable failures. It sees the rejected, worker-failure, and
+	 * task-timeout outcomes; the default retries worker-failure and task-timeout.
+	 */
+	retryOn?: (outcome: WorkerPoolTaskOutcome, error: unknown) => boolean;
+}
+
+/**
+ * Starts a duplicate of a slow attempt on another worker; the first attempt to
+ * succeed settles the call. Only suitable for idempotent methods.
+ */
+export interface WorkerHedgePolicy {
+	/** Time an attempt runs before its duplicate starts. */
+	delayMs?: number;
+	/**
+	 * Percentile of the method's recent successful execution times, above 0
+	 * and at most 100, used as the delay once minSamples attempts succeeded.
+	 * delayMs applies until then.
+	 */
+	percentile?: number;
+	/**
+	 * Successful attempts observed before percentile applies, at most 100.
+	 * Defaults to 20.
+	 */
+	minSamples?: number;
+}
+
+/** Pool-wide limits for one method; omitted fields fall back to pool settings. */
+export interface WorkerMethodLimits {
+	/** Maximum running calls of this method across the pool. */
+	maxConcurrent?: number;
+	/** Maximum waiting calls of this method; the pool maxQueueSize still applies. */
+	maxQueueSize?: number;
+	/** Overrides taskTimeoutMs for this method; false disables it. */
+	taskTimeoutMs?: number | false;
+	/** Overrides the pool queueTimeoutMs; a per-call queueTimeoutMs still wins. */
+	queueTimeoutMs?: number | false;
+	/** Limits how often calls of this method start, on top of the pool rateLimit. */
+	rateLimit?: WorkerRateLimit;
+}
+
+/** Token-bucket limit on how often tasks start. */
+export interface WorkerRateLimit {
+	/** Tokens added per interval; each task start takes one. */
+	tokensPerInterval: number;
+	/** Length of the refill interval in milliseconds. */
+	intervalMs: number;
+	/** Maximum stored tokens, and so the largest burst. Defaults to tokensPerInterval. */
+	burst?: number;
+}
+
+/** Current state of a rate limit's token bucket. */
+export interface WorkerRateLimitStats {
+	/** Tokens available now; fractional while refilling. */
+	tokens: number;
+	/** Time until the next whole token accrues, or 0 when the bucket is full. */
+	nextTokenInMs: number;
+}
+
+/**
+ * Built-in behavior when a submitted task would exceed maxQueueSize. reject
+ * fails the new call; the drop policies evict the oldest, newest, or
+ * lowest-priority waiting call instead. wait holds the call until the queue
+ * has room, bounded by admissionTimeoutMs.
+ */
+export type QueueOverflowStrategy =
+	| "reject"
+	| "drop-oldest"
+	| "drop-newest"
+	| "drop-lowest-priority"
+	| "wait";
+
+/**
+ * Picks the waiting call to drop when the queue is full. queued lists the
+ * waiting calls in start order, including the new call that submitted
+ * identifies; submitted is undefined while resize() trims the queue. Returning
+ * the id of the new call, or undefined, rejects the new call instead.
+ */
+export type WorkerQueueEvictor = (
+	queued: readonly WorkerQueuedTaskSnapshot[],
+	submitted: WorkerQueuedTaskSnapshot | undefined,
+) => number | undefined;
+
+/** Overflow behavior: a built-in strategy or a custom evictor. */
+export type QueueOverflowPolicy = QueueOverflowStrategy | WorkerQueueEvictor;
+
+/**
+ * What a task does when the worker bound to its affinityKey is busy: wait for
+ * that worker, or run on any available worker and rebind the key there.
+ */
+export type WorkerAffinityFallback = "wait" | "any";
+
+/**
+ * How a task picks among busy workers that can take another concurrent task.
+ * least-loaded takes the fewest running tasks, round-robin rotates through the
+ * workers, random-two-choices takes the less loaded of two random workers, and
+ * ewma-latency weighs running tasks by each worker's recent execution time.
+ */
+export type WorkerSelectionStrategy =
+	| "least-loaded"
+	| "round-robin"
+	| "random-two-choices"
+	| "ewma-latency";
+
+/**
+ * Derives the key under which identical calls share one task. Returning
+ * undefined schedules the call on its own.
+ */
+export type WorkerDedupeKey = (
+	method: string,
+	args: readonly unknown[],
+) => string | undefined;
+
+/**
+ * Adjusts how many tasks may run at once, within [min, max], from observed
+ * attempt latency: additive increase while work queues, multiplicative
+ * decrease when attempts slow down or fail.
+ */
+export interface WorkerAdaptiveConcurrency {
+	/** Lowest limit; the pool always allows this many running tasks. */
+	min: number;
+	/** Highest limit; pool capacity still applies. */
+	max: number;
+	/** Starting limit. Defaults to min. */
+	initial?: number;
+	/**
+	 * Execution time above which an attempt counts as slow. Defaults to
+	 * latencyTolerance times the moving average of the method's successful
+	 * attempts.
+	 */
+	targetLatencyMs?: number;
+	/** Multiple of the method's average attempt tolerated without a target. Defaults to 2. */
+	latencyTolerance?: number;
+	/** Factor the limit is multiplied by on a slow or failed attempt. Defaults to 0.9. */
+	backoffRatio?: number;
+}
+
+/** Why the adaptive concurrency limit changed. */
+export type WorkerConcurrencyChangeReason =
+	| "queue-wait"
+	| "latency"
+	| "failure";
+
+/** State of a method's circuit breaker. */
+export type WorkerCircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Stops calling a method that keeps failing. Calls fail fast while the
+ * breaker is open; after openMs a few half-open probes decide whether it
+ * closes again.
+ */
+export interface WorkerCircuitBreakerPolicy {
+	/** Failure rate over the window, above 0 and at most 1, that opens the breaker. */
+	failureThreshold: number;
+	/** Rolling window of attempt outcomes the failure rate is computed over. */
+	windowMs: number;
+	/** Attempts the window must hold before the breaker can open. Defaults to 5. */
+	minimumCalls?: number;
+	/** Time the breaker stays open before admitting probes. */
+	openMs: number;
+	/** Probe attempts admitted at a time while half-open; that many must succeed to close. Defaults to 1. */
+	halfOpenProbes?: number;
+	/**
+	 * Selects failed attempts that count against the method. It sees the
+	 * rejected, worker-failure, and task-timeout outcomes; all count by default.
+	 */
+	failureOn?: (outcome: WorkerPoolTaskOutcome, error: unknown) => boolean;
+}
+
+/** Circuit breaker statistics for one method. */
+export interface WorkerCircuitStats {
+	state: WorkerCircuitState;
+	/** Attempts recorded in the current window while closed. */
+	attempts: number;
+	/** Share of those attempts that failed. */
+	failureRate: number;
+	/** Time until an open breaker admits probes, otherwise 0. */
+	retryAfterMs: number;
+}
+
+/** Result cache settings for one pure worker method. */
+export interface WorkerCachePolicy {
+	/** Derives the cache key for a call; undefined leaves the call uncached. */
+	key: (method: string, args: readonly unknown[]) => string | undefined;
+	/** Maximum cached results, evicting the least recently used. Defaults to 1000. */
+	maxEntries?: number;
+	/** Maximum total result size in bytes as measured by sizeOf. */
+	maxBytes?: number;
+	/** Time a result stays valid after it is stored. */
+	ttlMs?: number;
+	/** Measures a result for maxBytes; defaults to a structural estimate. */
+	sizeOf?: (value: unknown) => number;
+}
+
+/** Result cache controls exposed as WorkerPool.cache. */
+export interface WorkerPoolCache<TProxy> {
+	/**
+	 * Drops cached results of one method, or of every method, whose key
+	 * matches keyPredicate (all keys when omitted). Results still in flight
+	 * for that method are not stored. Returns the number removed.
+	 */
+	invalidate(
+		method?: keyof TProxy,
+		keyPredicate?: (key: string) => boolean,
+	): number;
+}
 
 /** Per-call scheduling controls for WorkerPool.run(). */
 export interface WorkerTaskOptions {
-	/** Cancels the caller's wait without forcibly interrupting worker code. */
+	/**
+	 * Cancels the caller's wait without forcibly interrupting worker code.
+	 * Pools with pooledWorkers also abort the worker method's signal.
+	 */
 	signal?: AbortSignal;
 	/** Higher values run before lower values; equal priorities remain FIFO. */
 	priority?: number;
 	/** Maximum time spent waiting in the queue; false disables the pool default. */
 	queueTimeoutMs?: number | false;
+	/**
+	 * Absolute end-to-end deadline on the performance.now() clock, bounding
+	 * queue wait and execution together.
+	 */
+	deadline?: number;
+	/** End-to-end budget from submission; the earlier of deadline and deadlineMs applies. */
+	deadlineMs?: number;
+	/** Maximum wait for queue space under the wait policy; false disables the pool default. */
+	admissionTimeoutMs?: number | false;
+	/** Execution deadline for this call; overrides the method and pool taskTimeoutMs. */
+	taskTimeoutMs?: number | false;
+	/** Overrides the pool taskTimeoutGraceMs; false recycles the worker at the deadline. */
+	taskTimeoutGraceMs?: number | false;
+	/** Overrides the pool inactivityTimeoutMs; false disables it for this call. */
+	inactivityTimeoutMs?: number | false;
+	/**
+	 * Objects transferred to the worker instead of structured-cloned, or a
+	 * detector that finds them in the arguments. false disables the pool default.
+	 */
+	transfer?: readonly Transferable[] | TransferDetector | false;
+	/** Retry policy for this call; false disables the pool default. */
+	retry?: WorkerRetryPolicy | false;
+	/** Hedging policy for this call; false disables the method default. */
+	hedge?: WorkerHedgePolicy | false;
+	/**
+	 * Routes the call to the worker that last served the same key, so
+	 * worker-local caches stay warm. Keys re-home when their worker leaves.
+	 */
+	affinityKey?: string;
+	/**
+	 * Shares a queued or running task whose key matches instead of scheduling
+	 * another one; false disables the pool's method default.
+	 */
+	dedupe?: WorkerDedupeKey | false;
+	/** false bypasses the method's result cache for this call. */
+	cache?: false;
+}
+
+/** Lifecycle of a call submitted with WorkerPool.submit(). */
+export type WorkerTaskState =
+	| "queued"
+	| "running"
+	| "fulfilled"
+	| "rejected"
+	| "cancelled";
+
+/** Live view and controls of one call returned by WorkerPool.submit(). */
+export interface TaskHandle<TResult> {
+	/** Task id used by pool events; undefined if the call was rejected unscheduled. */
+	readonly id: number | undefined;
+	/** queued while waiting or between retries; cancelled after cancel() or an abort. */
+	readonly state: WorkerTaskState;
+	/** Worker running the current attempt. */
+	readonly workerId: number | undefined;
+	/** Submission time in Date.now() epoch milliseconds, like event timestamps. */
+	readonly queuedAt: number;
+	/** Start of the current attempt in Date.now() epoch milliseconds. */
+	readonly startedAt: number | undefined;
+	/** Settles like the promise returned by run(). */
+	readonly result: Promise<TResult>;
+	/**
+	 * Moves a call that has not started yet to a new priority among the waiting
+	 * calls. Returns false once it is running or settled.
+	 */
+	setPriority(priority: number): boolean;
+	/** Rejects result with WorkerTaskAbortedError, as aborting its signal would. */
+	cancel(reason?: unknown): void;
+	/** Calls listener on every state change; returns an unsubscribe function. */
+	onStateChange(listener: (state: WorkerTaskState) => void): () => void;
+}
+
+/** Controls for WorkerPool.broadcast(). */
+export interface WorkerBroadcastOptions {
+	/**
+	 * Replays the call to workers created later, before they take tasks. Only
+	 * the latest replayed broadcast of each method is kept.
+	 */
+	replay?: boolean;
 }
 
+/** Per-worker outcomes of WorkerPool.broadcast(), keyed by worker id. */
+export type WorkerBroadcastResults<TResult> = Record<
+	number,
+	PromiseSettledResult<TResult>
+>;
+
 /** Observable lifecycle state of a worker pool. */
-export type WorkerPoolState = "running" | "draining" | "closed";
+export type WorkerPoolState = "running" | "paused" | "draining" | "closed";
 
 /** Final caller-visible outcome emitted for a scheduled task. */
 export type WorkerPoolTaskOutcome =
@@ -72,10 +453,14 @@ export type WorkerPoolTaskOutcome =
 	| "aborted"
 	| "queue-timeout"
 	| "task-timeout"
+	| "task-soft-timeout"
+	| "deadline-exceeded"
 	| "queue-rejected"
 	| "dropped"
 	| "worker-failure"
-	| "pool-closed";
+	| "pool-closed"
+	| "cached"
+	| "circuit-open";
 
 /** Reason a worker left the scheduler-managed set. */
 export type WorkerPoolWorkerRemovalReason =
@@ -83,8 +468,10 @@ export type WorkerPoolWorkerRemovalReason =
 	| "idle"
 	| "lifetime"
 	| "max-tasks"
+	| "resize"
 	| "failure"
-	| "task-timeout";
+	| "task-timeout"
+	| "init-failure";
 
 /** A structured, argument-free event emitted by WorkerPool. */
 export type WorkerPoolEvent =
@@ -111,12 +498,84 @@ export type WorkerPoolEvent =
 			workerId?: number;
 			outcome: WorkerPoolTaskOutcome;
 			durationMs: number;
+			/** Calls the task served, more than 1 when deduplicated calls joined it. */
+			callers: number;
+	  }
+	| {
+			type: "task-retried";
+			timestamp: number;
+			taskId: number;
+			method: string;
+			workerId?: number;
+			outcome: WorkerPoolTaskOutcome;
+			/**
+			 * Attempt about to run. It waits in the queue again, and a full queue
+			 * that rejects or drops it settles it with WorkerRetryQueueFullError.
+			 */
+			attempt: number;
+			delayMs: number;
+	  }
+	| {
+			type: "task-hedged";
+			timestamp: number;
+			taskId: number;
+			method: string;
+			/** Worker running the duplicate attempt. */
+			workerId: number;
+			attempt: number;
+			/** Time the original attempt had run when the duplicate started. */
+			delayMs: number;
+	  }
+	| {
+			type: "task-soft-timeout";
+			timestamp: number;
+			taskId: number;
+			method: string;
+			workerId: number;
+			timeoutMs: number;
+			/** Time the worker has to return before it is recycled. */
+			graceMs: number;
+	  }
+	| {
+			type: "task-soft-timeout-returned";
+			timestamp: number;
+			taskId: number;
+			method: string;
+			/** Worker that returned within the grace period and stays in the pool. */
+			workerId: number;
+			/** How the worker finished the call whose caller already timed out. */
+			outcome: "fulfilled" | "rejected";
+			/** Time the worker ran past the soft deadline. */
+			overrunMs: number;
+	  }
+	| {
+			type: "concurrency-changed";
+			timestamp: number;
+			limit: number;
+			previousLimit: number;
+			reason: WorkerConcurrencyChangeReason;
+			/** Execution time of the attempt that triggered the change. */
+			latencyMs: number;
+			/** Queue wait of that attempt. */
+			queueWaitMs: number;
+	  }
+	| {
+			type: "circuit-state-changed";
+			timestamp: number;
+			method: string;
+			state: WorkerCircuitState;
 	  }
 	| {
 			type: "worker-created";
 			timestamp: number;
 			workerId: number;
 	  }
+	| {
+			type: "worker-init-failed";
+			timestamp: number;
+			workerId: number;
+			reason: "error" | "timeout";
+	  }
 	| {
 			type: "worker-removed";
 			timestamp: number;
@@ -131,6 +590,28 @@ export type WorkerPoolEvent =
 			exhausted: boolean;
 	  };
 
+/** Scheduling statistics for one method. */
+export interface WorkerMethodStats {
+	/** Calls of this method waiting for a worker. */
+	queue: number;
+	/** Calls of this method currently running. */
+	runningTasks: number;
+	/** Configured pool-wide concurrency limit, or null when unlimited. */
+	maxConcurrent: number | null;
+	/** Configured method queue limit, or null when only the pool limit applies. */
+	queueCapacity: number | null;
+	/** Cumulative valid calls received for this method. */
+	submittedTasks: number;
+	/** Cumulative successfully settled calls. */
+	completedTasks: number;
+	/** Cumulative calls settled with any other outcome. */
+	failedTasks: number;
+	/** Token bucket of the method rateLimit, or null when unlimited. */
+	rateLimit: WorkerRateLimitStats | null;
+	/** Circuit breaker of the method, or null when none is configured. */
+	circuit: WorkerCircuitStats | null;
+}
+
 /** Statistics describing the current state of a worker pool. */
 export interface WorkerPoolStats {
 	/** Current acceptance and shutdown state. */
@@ -139,6 +620,8 @@ export interface WorkerPoolStats {
 	size: number;
 	/** Configured maximum number of simultaneously running tasks. */
 	maxConcurrentTasks: number;
+	/** Current adaptive concurrency limit, or null when adaptiveConcurrency is off. */
+	concurrencyLimit: number | null;
 	/** Number of existing or not-yet-created workers that can accept work. */
 	available: number;
 	/** Number of tasks waiting for a worker. */
@@ -147,6 +630,8 @@ export interface WorkerPoolStats {
 	queueCapacity: number | null;
 	/** Remaining bounded queue slots, or null when the queue is unbounded. */
 	queueCapacityRemaining: number | null;
+	/** Calls waiting for queue space under the wait overflow policy. */
+	admissionQueue: number;
 	/** Age of the oldest waiting task, or null when the queue is empty. */
 	oldestQueuedTaskAgeMs: number | null;
 	/** Number of currently instantiated workers. */
@@ -159,7 +644,9 @@ export interface WorkerPoolStats {
 	terminationFailureWorkerBuffer: number;
 	/** Cumulative number of failed or timed-out termination attempts. */
 	terminationFailures: number;
-	/** Number of workers with no running tasks. */
+	/** Workers still running initializeWorker; they take no tasks yet. */
+	initializingWorkers: number;
+	/** Number of initialized workers with no running tasks. */
 	idleWorkers: number;
 	/** Number of tasks currently running across all workers. */
 	runningTasks: number;
@@ -177,8 +664,110 @@ export interface WorkerPoolStats {
 	cancelledTasks: number;
 	/** Cumulative queue and execution timeouts. */
 	timedOutTasks: number;
-	/** Cumulative calls evicted by the drop-oldest policy. */
+	/** Cumulative queued calls dropped by a drop policy or custom evictor. */
 	droppedTasks: number;
+	/** Cumulative failed attempts that were scheduled to run again. */
+	retriedTasks: number;
+	/** Cumulative duplicate attempts started by hedging. */
+	hedgedTasks: number;
+	/** Cumulative calls that joined an identical task instead of scheduling one. */
+	dedupedCalls: number;
+	/** Cumulative calls answered from the result cache. */
+	cacheHits: number;
+	/** Cumulative cacheable calls that had to run on a worker. */
+	cacheMisses: number;
+	/** Token bucket of the pool rateLimit, or null when unlimited. */
+	rateLimit: WorkerRateLimitStats | null;
+	/** Per-method breakdown for limited methods and every method submitted so far. */
+	methods: Record<string, WorkerMethodStats>;
+	/** Affinity keys currently bound to a worker. */
+	affinityKeys: number;
+}
+
+/** Controls for WorkerPool.inspect(). */
+export interface WorkerPoolInspectOptions {
+	/**
+	 * Opts task arguments into the snapshot. Its return value is reported as
+	 * args, so sensitive values can be removed or summarized first.
+	 */
+	redactArgs?: (method: string, args: readonly unknown[]) => unknown;
+}
+
+/** A call waiting for a worker, as reported by WorkerPool.inspect(). */
+export interface WorkerQueuedTaskSnapshot {
+	id: number;
+	method: string;
+	priority: number;
+	/** 1-based attempt number; above 1 after a retry. */
+	attempt: number;
+	/** Time since the call was submitted. */
+	ageMs: number;
+	/** Time left before the queue timeout, or null without one. */
+	queueDeadlineInMs: number | null;
+	/** Time left before the call's deadline or deadlineMs, or null without one. */
+	deadlineInMs: number | null;
+	/**
+	 * Place in priority order across all waiting calls, ignoring limits that
+	 * hold a call back; null while the call waits out a retry backoff or for
+	 * queue space under the wait overflow policy.
+	 */
+	position: number | null;
+	/** Present only when redactArgs is given. */
+	args?: unknown;
+}
+
+/** A call occupying a worker slot, as reported by WorkerPool.inspect(). */
+export interface WorkerRunningTaskSnapshot {
+	id: number;
+	method: string;
+	workerId: number;
+	attempt: number;
+	/** Time since the current attempt started. */
+	elapsedMs: number;
+	/** Time left before the task timeout, or null without one. */
+	taskDeadlineInMs: number | null;
+	/** Time left before the call's deadline or deadlineMs, or null without one. */
+	deadlineInMs: number | null;
+	/** The caller already left; the slot stays busy until the worker returns. */
+	abandoned: boolean;
+	/** True for a duplicate attempt started by hedging. */
+	hedge: boolean;
+	/** Present only when redactArgs is given. */
+	args?: unknown;
+}
+
+/** A managed worker, as reported by WorkerPool.inspect(). */
+export interface WorkerSnapshot {
+	id: number;
+	state: "initializing" | "idle" | "busy";
+	runningTasks: number;
+	/** Tasks assigned over the worker's lifetime. */
+	taskCount: number;
+	ageMs: number;
+	/** Time left before an idle worker retires, or null without an idle timer. */
+	idleDeadlineInMs: number | null;
+	/** Why the worker retires once its running tasks finish, or null. */
+	retirementReason: "lifetime" | "max-tasks" | "resize" | null;
+}
+
+/** A removed worker whose termination is not yet confirmed. */
+export interface WorkerQuarantineSnapshot {
+	id: number | undefined;
+	terminationAttempts: number;
+	/** All retries failed; the worker counts as unconfirmed. */
+	exhausted: boolean;
+}
+
+/** Point-in-time contents of a pool, returned by WorkerPool.inspect(). */
+export interface WorkerPoolSnapshot {
+	state: WorkerPoolState;
+	/** Waiting calls in priority order, then calls waiting out a retry backoff. */
+	queued: WorkerQueuedTaskSnapshot[];
+	running: WorkerRunningTaskSnapshot[];
+	workers: WorkerSnapshot[];
+	quarantinedWorkers: WorkerQuarantineSnapshot[];
+	/** Bound affinity keys and the id of their worker, least recently used first. */
+	affinity: Record<string, number>;
 }
 
 /** Final outcome of an awaitable WorkerPool shutdown. */
@@ -191,6 +780,16 @@ export interface WorkerPoolShutdownReport {
 	terminationFailures: number;
 }
 
+/** Capacity settings a live pool can change with resize(); omitted fields are kept. */
+export interface WorkerPoolResizeOptions {
+	/** Maximum number of scheduler-managed, non-quarantined workers. */
+	size?: number;
+	/** Maximum concurrent tasks per worker. */
+	maxConcurrentTasksPerWorker?: number;
+	/** Maximum waiting tasks; null removes the limit. */
+	maxQueueSize?: number | null;
+}
+
 /** Internal representation of a scheduled task. */
 export interface Task<TTask, TResult> {
 	task: TTask;
@@ -212,18 +811,86 @@ export interface WorkerPoolOptions<TProxy extends CallableProxy<TProxy>> {
 	proxyFactory: (worker: Worker) => TProxy;
 	/** Terminates an idle worker after this many milliseconds. */
 	workerIdleTimeoutMs?: number;
+	/**
+	 * Workers kept alive regardless of workerIdleTimeoutMs. They are spawned when
+	 * the pool is created and replaced after retirement or failure. Defaults to 0.
+	 */
+	minWorkers?: number;
+	/**
+	 * Prepares each new worker (for example loading a WASM module) before it
+	 * receives tasks. A rejection or timeout removes the worker and reports a
+	 * worker-init-failed event.
+	 */
+	initializeWorker?: WorkerInitializer<TProxy>;
+	/** Deadline for initializeWorker; false disables it. Defaults to 30 seconds. */
+	workerInitTimeoutMs?: number | false;
 	/** Retires a worker after this many assigned tasks. */
 	maxTasksPerWorker?: number;
 	/** Retires a worker after this lifetime, once its active tasks finish. */
 	maxWorkerLifetimeMs?: number;
 	/** Maximum concurrent tasks per worker. Defaults to 1. */
 	maxConcurrentTasksPerWorker?: number;
+	/**
+	 * Picks among busy workers when maxConcurrentTasksPerWorker allows several
+	 * tasks each; idle workers are always used first. Defaults to least-loaded.
+	 */
+	workerSelection?: WorkerSelectionStrategy;
+	/**
+	 * Limits running tasks across the pool to a limit adapted from observed
+	 * latency, within its min and max bounds.
+	 */
+	adaptiveConcurrency?: WorkerAdaptiveConcurrency;
 	/** Maximum waiting tasks; running tasks do not count. Defaults to unlimited. */
 	maxQueueSize?: number;
 	/** Behavior when maxQueueSize would be exceeded. Defaults to reject. */
 	queueOverflowPolicy?: QueueOverflowPolicy;
+	/**
+	 * Default maximum wait for queue space under the wait policy; false or
+	 * undefined lets calls wait until their signal or queueTimeoutMs ends it.
+	 */
+	admissionTimeoutMs?: number | false;
 	/** Default maximum queue wait; false or undefined disables it. */
 	queueTimeoutMs?: number | false;
+	/**
+	 * Budget a call with a deadline needs left to start; calls with less are
+	 * rejected instead of dispatched. Defaults to 0.
+	 */
+	minDispatchBudgetMs?: number;
+	/** Starts equal-priority calls with the earliest deadline first. */
+	earliestDeadlineFirst?: boolean;
+	/**
+	 * Per-method dedupe keys. Calls whose key matches a queued or running call
+	 * of the same method share its task and result.
+	 */
+	dedupe?: { [K in keyof TProxy]?: WorkerDedupeKey };
+	/**
+	 * Per-method result caches for pure methods. Cached results are returned
+	 * without scheduling a task; only fulfilled results are stored.
+	 */
+	cache?: { [K in keyof TProxy]?: WorkerCachePolicy };
+	/**
+	 * Per-method circuit breakers. While a method's breaker is open, its calls
+	 * fail fast with WorkerCircuitOpenError instead of reaching a worker.
+	 */
+	circuitBreaker?: { [K in keyof TProxy]?: WorkerCircuitBreakerPolicy };
+	/** Behavior when the worker bound to a task's affinityKey is busy. Defaults to any. */
+	affinityFallback?: WorkerAffinityFallback;
+	/**
+	 * Affinity keys remembered at once; beyond it the least recently used
+	 * binding is forgotten. Defaults to 1,000.
+	 */
+	maxAffinityKeys?: number;
+	/**
+	 * Limits how often tasks start across the pool. Tasks waiting for a token
+	 * stay queued and keep counting toward queueTimeoutMs.
+	 */
+	rateLimit?: WorkerRateLimit;
+	/**
+	 * Per-method concurrency, queue, timeout, and rate limits. A method at its
+	 * maxConcurrent or out of tokens waits in its own queue without holding up
+	 * other methods.
+	 */
+	methodLimits?: { [K in keyof TProxy]?: WorkerMethodLimits };
 	/**
 	 * Rejects a task that runs longer than this duration and recycles its worker.
 	 * Defaults to five minutes because this is the only portable way to recover
@@ -231,8 +898,40 @@ export interface WorkerPoolOptions<TProxy extends CallableProxy<TProxy>> {
 	 * jobs, accepting that a silent worker exit can then leave work pending.
 	 */
 	taskTimeoutMs?: number | false;
+	/**
+	 * Makes taskTimeoutMs a soft deadline. The call is rejected there and its
+	 * worker asked to stop cooperatively; the worker is recycled only if the
+	 * call is still running after this grace period.
+	 */
+	taskTimeoutGraceMs?: number;
+	/**
+	 * Fails a call whose worker sends no heartbeat for this long, recycling the
+	 * worker. Requires pooledWorkers; worker methods report progress with
+	 * `this.heartbeat()`. Unlike taskTimeoutMs it does not bound the total run
+	 * time, so long jobs can still detect a silently exited worker.
+	 */
+	inactivityTimeoutMs?: number;
+	/**
+	 * Default retry policy for failed worker attempts. Retried tasks keep their
+	 * priority and submission order; a crashed or timed-out worker is replaced.
+	 */
+	retry?: WorkerRetryPolicy;
+	/**
+	 * Per-method hedging for idempotent methods. A duplicate uses spare
+	 * capacity only: it is skipped while calls are queued or no other worker
+	 * can take it, and streamed calls or calls with transferables never hedge.
+	 */
+	hedge?: { [K in keyof TProxy]?: WorkerHedgePolicy };
 	/** Optional cleanup for resources owned by a proxy (for example Comlink.releaseProxy). */
 	proxyCleanup?: (proxy: TProxy) => void;
+	/** Default transfer detector for calls without an explicit transfer option. */
+	transfer?: TransferDetector;
+	/**
+	 * Set when workers expose their API with exposePooled() from
+	 * comlink-worker-pool/worker. Calls then carry a task id, and aborts, task
+	 * timeouts, and shutdown are forwarded to the worker method's AbortSignal.
+	 */
+	pooledWorkers?: boolean;
 	/**
 	 * Extra physical-worker allowance used to preserve healthy capacity while
 	 * removed workers have unconfirmed termination. Defaults to
@@ -260,35 +959,87 @@ export class WorkerPool<
 	},
 	TResult = Awaited<ReturnType<TProxy[TTask["method"]]>>,
 > {
-	private readonly size: number;
+	private size: number;
 	private readonly onUpdate?: WorkerPoolObserver<WorkerPoolStats>;
 	private readonly onEvent?: WorkerPoolObserver<WorkerPoolEvent>;
 	private readonly proxyFactory: (worker: Worker) => TProxy;
 	private readonly workerFactory: WorkerFactory;
 	private readonly workerIdleTimeoutMs?: number;
+	private readonly minWorkers: number;
+	private readonly initializeWorker?: WorkerInitializer<TProxy>;
+	private readonly workerInitTimeoutMs?: number;
 	private readonly maxTasksPerWorker?: number;
 	private readonly maxWorkerLifetimeMs?: number;
-	private readonly maxConcurrentTasksPerWorker: number;
-	private readonly maxQueueSize: number;
-	private readonly queueOverflowPolicy: QueueOverflowPolicy;
+	private maxConcurrentTasksPerWorker: number;
+	private maxQueueSize: number;
+	private readonly queueOverflowPolicy: OverflowPolicy<TTask, TResult>;
 	private readonly queueTimeoutMs?: number;
+	private readonly admissionTimeoutMs?: number;
+	/** Calls waiting for queue space under the wait overflow policy. */
+	private readonly admissions = new AdmissionQueue<TTask, TResult>();
+	/** whenAvailable() callers, settled once the queue has room or the pool closes. */
+	private availabilityWaiters: Array<{
+		resolve: () => void;
+		reject: (reason: unknown) => void;
+	}> = [];
+	private readonly affinityFallback: WorkerAffinityFallback;
+	private readonly maxAffinityKeys: number;
+	private readonly workerSelection: WorkerSelectionStrategy;
+	/** Worker id chosen last by workerSelection, for round-robin. */
+	private selectedWorkerId = -1;
+	private readonly dedupe: Partial<Record<string, WorkerDedupeKey>>;
+	private readonly resultCaches = new Map<string, ResultCache>();
+	private readonly circuitBreakers = new Map<string, CircuitBreaker>();
 	private readonly taskTimeoutMs?: number;
+	private readonly taskTimeoutGraceMs?: number;
+	private readonly inactivityTimeoutMs?: number;
+	private readonly minDispatchBudgetMs: number;
+	private readonly earliestDeadlineFirst: boolean;
+	private readonly retry?: WorkerRetryPolicy;
+	private readonly hedge: Partial<Record<string, WorkerHedgePolicy>>;
+	/** Execution times of methods hedged by percentile. */
+	private readonly hedgeSamples = new Map<string, LatencySamples>();
+	private readonly methods = new Map<string, MethodState>();
+	private readonly rateLimit?: TokenBucket;
+	private readonly concurrencyLimiter?: ConcurrencyLimiter;
+	private rateLimitTimer?: ReturnType<typeof setTimeout>;
+	/** Shortest token wait that held back a queued task in this scheduling pass. */
+	private rateLimitWaitMs?: number;
 	private readonly proxyCleanup?: (proxy: TProxy) => void;
-	private readonly terminationFailureWorkerBuffer: number;
-	private readonly physicalWorkerLimit: number;
+	private readonly transfer?: TransferDetector;
+	private readonly pooledWorkers: boolean;
+	private readonly terminationFailureWorkerBufferOption?: number;
+	private terminationFailureWorkerBuffer: number;
+	private physicalWorkerLimit: number;
 	private readonly termination: TerminationController;
 
 	private workers: WorkerMetadata<TProxy, TTask, TResult>[] = [];
-	private readonly queue = new SchedulerQueue<TTask, TResult>();
+	private readonly queue: MethodQueues<TTask, TResult>;
 	private readonly idleWorkers = new Set<
 		WorkerMetadata<TProxy, TTask, TResult>
 	>();
+	private readonly retryingTasks = new Set<ScheduledTask<TTask, TResult>>();
+	private readonly replayedBroadcasts = new Map<string, unknown[]>();
+	private readonly sharedTasks = new Map<
+		string,
+		ScheduledTask<TTask, TResult>
+	>();
+	private readonly affinity = new Map<
+		string,
+		WorkerMetadata<TProxy, TTask, TResult>
+	>();
 	private nextWorkerId = 0;
 	private nextTaskSequence = 0;
+	/** Counts down, so pooled workers never mistake a broadcast for a task. */
+	private nextBroadcastId = -1;
 	private accepting = true;
 	private drainRequested = false;
+	/** Set by pause(); queued calls wait until resume(). */
+	private paused = false;
 	private terminationStarted = false;
 	private workerCreationsInProgress = 0;
+	private initializingWorkers = 0;
+	private initializationFailing = false;
 	private scheduling = false;
 	private rescheduleRequested = false;
 	private shutdownResolved = false;
@@ -299,6 +1050,24 @@ export class WorkerPool<
 	private cancelledTasks = 0;
 	private timedOutTasks = 0;
 	private droppedTasks = 0;
+	private retriedTasks = 0;
+	private hedgedTasks = 0;
+	private dedupedCalls = 0;
+	private cacheHits = 0;
+	private cacheMisses = 0;
+
+	/** Invalidation for the per-method result caches configured with cache. */
+	public readonly cache: WorkerPoolCache<TProxy> = {
+		invalidate: (method, keyPredicate) => {
+			let removed = 0;
+			for (const [name, cache] of this.resultCaches) {
+				if (method === undefined || name === String(method)) {
+					removed += cache.invalidate(keyPredicate);
+				}
+			}
+			return removed;
+		},
+	};
 	private readonly knownWorkers = new WeakSet<object>();
 	private resolveTerminated!: (report: WorkerPoolShutdownReport) => void;
 	/** Resolves once every worker is confirmed terminated or cleanup is exhausted. */
@@ -313,24 +1082,29 @@ export class WorkerPool<
 		assertOptionalFunction(options.onUpdateStats, "onUpdateStats");
 		assertOptionalFunction(options.onEvent, "onEvent");
 		assertOptionalFunction(options.proxyCleanup, "proxyCleanup");
+		assertOptionalFunction(options.initializeWorker, "initializeWorker");
+		assertOptionalFunction(options.transfer, "transfer");
 		assertOptionalFunction(options.workerTerminator, "workerTerminator");
 		assertOptionalFunction(
 			options.onWorkerTerminationError,
 			"onWorkerTerminationError",
 		);
-		assertPositiveInteger(options.size, "WorkerPool size");
-		assertPositiveInteger(
-			options.maxConcurrentTasksPerWorker ?? 1,
-			"maxConcurrentTasksPerWorker",
-		);
-		if (
-			!Number.isSafeInteger(
-				options.size * (options.maxConcurrentTasksPerWorker ?? 1),
-			)
-		) {
-			throw new RangeError(
-				"size * maxConcurrentTasksPerWorker must be a safe integer",
-			);
+		if (options.dedupe !== undefined) {
+			if (typeof options.dedupe !== "object" || options.dedupe === null) {
+				throw new TypeError("dedupe must be an object");
+			}
+			for (const [method, key] of Object.entries(options.dedupe)) {
+				assertOptionalFunction(key, `dedupe.${method}`);
+			}
+		}
+		assertCachePolicies(options.cache);
+		assertCircuitBreakers(options.circuitBreaker);
+		assertPoolCapacity(options.size, options.maxConcurrentTasksPerWorker ?? 1);
+		if (options.minWorkers !== undefined) {
+			assertNonNegativeInteger(options.minWorkers, "minWorkers");
+			if (options.minWorkers > options.size) {
+				throw new RangeError("minWorkers must not exceed size");
+			}
 		}
 		if (options.maxTasksPerWorker !== undefined) {
 			assertPositiveInteger(options.maxTasksPerWorker, "maxTasksPerWorker");
@@ -340,23 +1114,60 @@ export class WorkerPool<
 		}
 		if (
 			options.queueOverflowPolicy !== undefined &&
-			options.queueOverflowPolicy !== "reject" &&
-			options.queueOverflowPolicy !== "drop-oldest"
+			typeof options.queueOverflowPolicy !== "function" &&
+			!QUEUE_OVERFLOW_STRATEGIES.includes(options.queueOverflowPolicy)
 		) {
 			throw new RangeError(
-				'queueOverflowPolicy must be "reject" or "drop-oldest"',
+				'queueOverflowPolicy must be "reject", "drop-oldest", "drop-newest", "drop-lowest-priority", "wait", or a function',
 			);
 		}
+		if (
+			options.affinityFallback !== undefined &&
+			options.affinityFallback !== "wait" &&
+			options.affinityFallback !== "any"
+		) {
+			throw new RangeError('affinityFallback must be "wait" or "any"');
+		}
+		if (options.maxAffinityKeys !== undefined) {
+			assertPositiveInteger(options.maxAffinityKeys, "maxAffinityKeys");
+		}
+		assertWorkerSelection(options.workerSelection);
 		assertPositiveDuration(options.workerIdleTimeoutMs, "workerIdleTimeoutMs");
+		assertPositiveDuration(
+			options.workerInitTimeoutMs === false
+				? undefined
+				: options.workerInitTimeoutMs,
+			"workerInitTimeoutMs",
+		);
 		assertPositiveDuration(options.maxWorkerLifetimeMs, "maxWorkerLifetimeMs");
 		assertPositiveDuration(
 			options.queueTimeoutMs === false ? undefined : options.queueTimeoutMs,
 			"queueTimeoutMs",
 		);
+		assertPositiveDuration(
+			options.admissionTimeoutMs === false
+				? undefined
+				: options.admissionTimeoutMs,
+			"admissionTimeoutMs",
+		);
 		assertPositiveDuration(
 			options.taskTimeoutMs === false ? undefined : options.taskTimeoutMs,
 			"taskTimeoutMs",
 		);
+		assertPositiveDuration(options.taskTimeoutGraceMs, "taskTimeoutGraceMs");
+		assertPositiveDuration(options.inactivityTimeoutMs, "inactivityTimeoutMs");
+		assertPositiveDuration(options.minDispatchBudgetMs, "minDispatchBudgetMs");
+		if (
+			options.inactivityTimeoutMs !== undefined &&
+			options.pooledWorkers !== true
+		) {
+			throw new TypeError("inactivityTimeoutMs requires pooledWorkers");
+		}
+		assertRetryPolicy(options.retry);
+		assertHedgePolicies(options.hedge);
+		assertMethodLimits(options.methodLimits);
+		assertRateLimit(options.rateLimit, "rateLimit");
+		assertAdaptiveConcurrency(options.adaptiveConcurrency);
 		const terminationFailureWorkerBuffer =
 			options.terminationFailureWorkerBuffer ??
 			Math.max(2, Math.floor(options.size / 2));
@@ -390,18 +1201,86 @@ export class WorkerPool<
 		this.proxyFactory = options.proxyFactory;
 		this.workerFactory = options.workerFactory;
 		this.workerIdleTimeoutMs = options.workerIdleTimeoutMs;
+		this.minWorkers = options.minWorkers ?? 0;
+		this.initializeWorker = options.initializeWorker;
+		this.workerInitTimeoutMs =
+			options.workerInitTimeoutMs === false
+				? undefined
+				: (options.workerInitTimeoutMs ?? DEFAULT_WORKER_INIT_TIMEOUT_MS);
 		this.maxTasksPerWorker = options.maxTasksPerWorker;
 		this.maxWorkerLifetimeMs = options.maxWorkerLifetimeMs;
 		this.maxConcurrentTasksPerWorker = options.maxConcurrentTasksPerWorker ?? 1;
 		this.maxQueueSize = options.maxQueueSize ?? Number.POSITIVE_INFINITY;
-		this.queueOverflowPolicy = options.queueOverflowPolicy ?? "reject";
+		const queueOverflowPolicy = options.queueOverflowPolicy ?? "reject";
+		this.queueOverflowPolicy =
+			typeof queueOverflowPolicy === "function"
+				? (tasks, submitted) =>
+						this._selectEviction(queueOverflowPolicy, tasks, submitted)
+				: queueOverflowPolicy;
+		this.affinityFallback = options.affinityFallback ?? "any";
+		this.maxAffinityKeys = options.maxAffinityKeys ?? DEFAULT_MAX_AFFINITY_KEYS;
+		this.workerSelection = options.workerSelection ?? "least-loaded";
+		this.dedupe = { ...options.dedupe };
+		for (const [method, policy] of Object.entries(options.cache ?? {})) {
+			this.resultCaches.set(
+				method,
+				new ResultCache(policy as WorkerCachePolicy),
+			);
+		}
 		this.queueTimeoutMs =
 			options.queueTimeoutMs === false ? undefined : options.queueTimeoutMs;
+		this.admissionTimeoutMs =
+			options.admissionTimeoutMs === false
+				? undefined
+				: options.admissionTimeoutMs;
 		this.taskTimeoutMs =
 			options.taskTimeoutMs === false
 				? undefined
 				: (options.taskTimeoutMs ?? DEFAULT_TASK_TIMEOUT_MS);
+		this.taskTimeoutGraceMs = options.taskTimeoutGraceMs;
+		this.inactivityTimeoutMs = options.inactivityTimeoutMs;
+		this.minDispatchBudgetMs = options.minDispatchBudgetMs ?? 0;
+		this.earliestDeadlineFirst = options.earliestDeadlineFirst === true;
+		this.retry = options.retry;
+		this.hedge = { ...options.hedge };
+		for (const [method, limits] of Object.entries(options.methodLimits ?? {})) {
+			this.methods.set(method, createMethodState(limits as WorkerMethodLimits));
+		}
+		for (const [method, policy] of Object.entries(
+			options.circuitBreaker ?? {},
+		)) {
+			this.circuitBreakers.set(
+				method,
+				new CircuitBreaker(policy as WorkerCircuitBreakerPolicy),
+			);
+			if (!this.methods.has(method)) {
+				this.methods.set(method, createMethodState());
+			}
+		}
+		this.queue = new MethodQueues(
+			[...this.methods].flatMap(([method, { limits }]) =>
+				limits.maxConcurrent !== undefined ||
+				limits.maxQueueSize !== undefined ||
+				limits.rateLimit !== undefined ||
+				this.circuitBreakers.has(method)
+					? [method]
+					: [],
+			),
+		);
+		if (options.rateLimit) {
+			this.rateLimit = new TokenBucket(options.rateLimit, monotonicNow());
+		}
+		if (options.adaptiveConcurrency) {
+			this.concurrencyLimiter = new ConcurrencyLimiter(
+				options.adaptiveConcurrency,
+				monotonicNow(),
+			);
+		}
 		this.proxyCleanup = options.proxyCleanup;
+		this.transfer = options.transfer;
+		this.pooledWorkers = options.pooledWorkers === true;
+		this.terminationFailureWorkerBufferOption =
+			options.terminationFailureWorkerBuffer;
 		this.terminationFailureWorkerBuffer = terminationFailureWorkerBuffer;
 		this.physicalWorkerLimit = options.size + terminationFailureWorkerBuffer;
 		this.termination = new TerminationController({
@@ -433,6 +1312,7 @@ export class WorkerPool<
 				this._updateStats();
 			},
 		});
+		if (this.minWorkers > 0) this._next();
 		this._updateStats();
 	}
 
@@ -469,33 +1349,249 @@ export class WorkerPool<
 		>;
 	}
 
-	/** Stops accepting work, finishes accepted calls, then shuts down all workers. */
-	public drain(): Promise<WorkerPoolShutdownReport> {
-		if (this.terminationStarted) return this.terminated;
-		this.accepting = false;
-		this.drainRequested = true;
-		this._next();
-		if (
-			this.queue.length > 0 &&
-			this.workers.length === 0 &&
-			this.termination.count === 0 &&
-			this.workerCreationsInProgress === 0
-		) {
-			// A bounded no-progress scheduling pass has no future trigger once the
-			// pool stops accepting submissions. Close rather than leaving drain()
-			// pending forever when observers invalidate every replacement worker.
-			this.terminateAll();
-		} else {
-			this._updateStats();
+	/**
+	 * Schedules one method call like run() and returns a handle that reports
+	 * its state and can reprioritize or cancel it. options.signal still
+	 * cancels the call.
+	 */
+	public submit<K extends keyof TProxy>(
+		method: K,
+		args: Parameters<TProxy[K]>,
+		options: WorkerTaskOptions = {},
+	): TaskHandle<Awaited<ReturnType<TProxy[K]>>> {
+		const handle = new PoolTaskHandle<TResult>((target, priority) =>
+			this._setTaskPriority(target, priority),
+		);
+		const { signal } = options;
+		if (signal) {
+			const cancel = () => handle.cancel(signal.reason);
+			try {
+				signal.addEventListener("abort", cancel, { once: true });
+				if (signal.aborted) cancel();
+			} catch (error) {
+				handle.reject(error);
+				return handle as unknown as TaskHandle<Awaited<ReturnType<TProxy[K]>>>;
+			}
+			const unlink = () => signal.removeEventListener("abort", cancel);
+			handle.result.then(unlink, unlink);
 		}
-		return this.terminated;
+		this._submit(
+			{ method, args } as unknown as TTask,
+			{ ...options, signal: handle.signal },
+			handle.resolve,
+			handle.reject,
+			undefined,
+			handle,
+		);
+		return handle as unknown as TaskHandle<Awaited<ReturnType<TProxy[K]>>>;
 	}
 
-	/** Immediately closes the pool and awaits confirmed or exhausted cleanup. */
-	public close(): Promise<WorkerPoolShutdownReport> {
-		this.terminateAll();
-		return this.terminated;
-	}
+	/**
+	 * Schedules one call whose worker method yields values, such as an async
+	 * generator. The stream holds its worker slot until it ends, so queueing,
+	 * taskTimeoutMs, and abort apply to the whole stream. Ending iteration
+	 * early aborts the task.
+	 */
+	public stream<K extends keyof TProxy>(
+		method: K,
+		args: Parameters<TProxy[K]>,
+		options?: WorkerTaskOptions,
+	): AsyncIterableIterator<PooledStreamValue<ReturnType<TProxy[K]>>> {
+		const stream = new TaskStream<PooledStreamValue<ReturnType<TProxy[K]>>>();
+		const item = this._submit(
+			{ method, args } as unknown as TTask,
+			options ?? {},
+			() => stream.end(),
+			(reason) => stream.fail(reason),
+			stream as TaskStream<unknown>,
+		);
+		if (item) {
+			stream.onCancel = () =>
+				this._abortTask(item, new Error("Stream consumer stopped iterating"));
+		}
+		return stream;
+	}
+
+	/**
+	 * Runs one call on every managed worker, outside the task queue, and
+	 * resolves with each worker's outcome keyed by worker id. Workers still
+	 * initializing receive the call once ready. With replay, workers created
+	 * later receive the latest replayed broadcast of each method before they
+	 * take tasks. Broadcasts skip retiring workers and do not count toward
+	 * maxConcurrentTasksPerWorker.
+	 */
+	public broadcast<K extends keyof TProxy>(
+		method: K,
+		args: Parameters<TProxy[K]>,
+		options: WorkerBroadcastOptions = {},
+	): Promise<WorkerBroadcastResults<Awaited<ReturnType<TProxy[K]>>>> {
+		if (!this.accepting) return Promise.reject(this._createClosedError());
+		const name = String(method);
+		if (options.replay) {
+			// Re-adding moves the method last, so replays follow broadcast order.
+			this.replayedBroadcasts.delete(name);
+			this.replayedBroadcasts.set(name, args);
+		}
+		const workers = this.workers.filter(
+			(worker) => !worker.markedForTermination,
+		);
+		return Promise.allSettled(
+			workers.map((worker) => this._broadcastTo(worker, name, args)),
+		).then((outcomes) => {
+			const results: WorkerBroadcastResults<Awaited<ReturnType<TProxy[K]>>> =
+				{};
+			outcomes.forEach((outcome, index) => {
+				results[workers[index].id] = outcome as PromiseSettledResult<
+					Awaited<ReturnType<TProxy[K]>>
+				>;
+			});
+			return results;
+		});
+	}
+
+	/**
+	 * Changes capacity without recreating the pool. Growing schedules queued work
+	 * at once. Shrinking retires surplus workers, idle ones first; busy workers
+	 * finish their active tasks before removal. Lowering maxQueueSize evicts
+	 * waiting tasks as the overflow policy would; under wait they wait for
+	 * queue space again.
+	 */
+	public resize(options: WorkerPoolResizeOptions): void {
+		const size = options.size ?? this.size;
+		const maxConcurrentTasksPerWorker =
+			options.maxConcurrentTasksPerWorker ?? this.maxConcurrentTasksPerWorker;
+		assertPoolCapacity(size, maxConcurrentTasksPerWorker);
+		let maxQueueSize = this.maxQueueSize;
+		if (options.maxQueueSize === null) {
+			maxQueueSize = Number.POSITIVE_INFINITY;
+		} else if (options.maxQueueSize !== undefined) {
+			assertNonNegativeInteger(options.maxQueueSize, "maxQueueSize");
+			maxQueueSize = options.maxQueueSize;
+		}
+		const terminationFailureWorkerBuffer =
+			this.terminationFailureWorkerBufferOption ??
+			Math.max(2, Math.floor(size / 2));
+		if (!Number.isSafeInteger(size + terminationFailureWorkerBuffer)) {
+			throw new RangeError(
+				"size + terminationFailureWorkerBuffer must be a safe integer",
+			);
+		}
+
+		const grew = size > this.size;
+		this.size = size;
+		this.maxConcurrentTasksPerWorker = maxConcurrentTasksPerWorker;
+		this.maxQueueSize = maxQueueSize;
+		this.terminationFailureWorkerBuffer = terminationFailureWorkerBuffer;
+		this.physicalWorkerLimit = size + terminationFailureWorkerBuffer;
+		if (grew) this._reinstateResizedWorkers();
+		else this._retireSurplusWorkers();
+		const evictions = this.queue.trimTo(
+			this.maxQueueSize,
+			this.queueOverflowPolicy,
+		);
+		if (this.queueOverflowPolicy === "wait") {
+			for (const { task } of evictions) this._awaitAdmission(task);
+		} else {
+			this._rejectEvictions(evictions);
+		}
+		this._next();
+		this._updateStats();
+	}
+
+	/**
+	 * Resolves once the queue has room for another call and no call is waiting
+	 * for admission, so producers can pace submissions against
+	 * queueCapacityRemaining. Rejects if the pool stops accepting work first.
+	 */
+	public whenAvailable(): Promise<void> {
+		if (!this.accepting) return Promise.reject(this._createClosedError());
+		if (this.admissions.length === 0 && this._hasQueueRoom()) {
+			return Promise.resolve();
+		}
+		return new Promise<void>((resolve, reject) => {
+			this.availabilityWaiters.push({ resolve, reject });
+		});
+	}
+
+	/**
+	 * Spawns workers ahead of demand until count workers (default: size) are
+	 * alive. Resolves once they are ready; rejects if the factory or
+	 * initializeWorker fails.
+	 */
+	public warmup(count: number = this.size): Promise<void> {
+		if (!this.accepting) return Promise.reject(this._createClosedError());
+		try {
+			assertPositiveInteger(count, "warmup count");
+		} catch (error) {
+			return Promise.reject(error);
+		}
+		this.initializationFailing = false;
+		const failure = this._spawnUntil(Math.min(count, this.size));
+		this._next();
+		this._updateStats();
+		if (failure) return Promise.reject(failure.error);
+		const initializations = this.workers.flatMap((worker) =>
+			worker.initializing && worker.initialization
+				? [worker.initialization]
+				: [],
+		);
+		return Promise.all(initializations).then((results) => {
+			const failed = results.find((result) => result !== undefined);
+			if (failed) throw failed.error;
+		});
+	}
+
+	/**
+	 * Stops starting queued calls until resume(). Submissions are still accepted
+	 * and queued under maxQueueSize and queue timeouts, running tasks finish
+	 * normally, and idle workers keep retiring. Has no effect once the pool is
+	 * draining or closed.
+	 */
+	public pause(): void {
+		if (!this.accepting || this.paused) return;
+		this.paused = true;
+		this._updateStats();
+	}
+
+	/** Starts queued calls again after pause(). */
+	public resume(): void {
+		if (!this.paused) return;
+		this.paused = false;
+		this._next();
+		this._updateStats();
+	}
+
+	/**
+	 * Stops accepting work, finishes accepted calls, then shuts down all workers.
+	 * A paused pool resumes so its queue can finish.
+	 */
+	public drain(): Promise<WorkerPoolShutdownReport> {
+		if (this.terminationStarted) return this.terminated;
+		this.accepting = false;
+		this.drainRequested = true;
+		this.paused = false;
+		this._next();
+		if (
+			this.queue.length > 0 &&
+			this.workers.length === 0 &&
+			this.termination.count === 0 &&
+			this.workerCreationsInProgress === 0
+		) {
+			// A bounded no-progress scheduling pass has no future trigger once the
+			// pool stops accepting submissions. Close rather than leaving drain()
+			// pending forever when observers invalidate every replacement worker.
+			this.terminateAll();
+		} else {
+			this._updateStats();
+		}
+		return this.terminated;
+	}
+
+	/** Immediately closes the pool and awaits confirmed or exhausted cleanup. */
+	public close(): Promise<WorkerPoolShutdownReport> {
+		this.terminateAll();
+		return this.terminated;
+	}
 
 	/** Permanently closes the pool, rejects work, and starts bounded worker termination. */
 	public terminateAll(): void {
@@ -505,15 +1601,31 @@ export class WorkerPool<
 		this.terminationStarted = true;
 		const reason = new WorkerPoolTerminatedError();
 
-		for (const item of this.queue.drain()) {
+		this.cache.invalidate();
+		this._scheduleRateLimitWake(undefined);
+		for (const breaker of this.circuitBreakers.values()) {
+			if (breaker.timer !== undefined) clearTimeout(breaker.timer);
+			breaker.timer = undefined;
+		}
+		for (const item of [
+			...this.queue.drain(),
+			...this.admissions.drain(),
+			...this.retryingTasks,
+		]) {
 			this._settleTask(item, false, reason, "pool-closed");
 		}
 		while (this.workers.length > 0) {
 			const before = this.workers.length;
 			const worker = this.workers[this.workers.length - 1];
 			for (const item of worker.activeTasks) {
-				worker.activeTasks.delete(item);
+				this._detachTask(worker, item);
+				if (item.hedgeOf) {
+					// Settling the call abandons its duplicate and forwards the abort.
+					this._settleTask(item.hedgeOf, false, reason, "pool-closed");
+					continue;
+				}
 				this._settleTask(item, false, reason, "pool-closed");
+				this._forwardAbort(worker, item, reason);
 			}
 			if (worker.managed) this._removeWorker(worker, true, "shutdown");
 			if (this.workers.length === before) this.workers.pop();
@@ -521,6 +1633,92 @@ export class WorkerPool<
 		this._updateStats();
 	}
 
+	/**
+	 * Lists the calls and workers currently in the pool for debugging. Task
+	 * arguments are left out unless redactArgs opts them in.
+	 */
+	public inspect(options: WorkerPoolInspectOptions = {}): WorkerPoolSnapshot {
+		const { redactArgs } = options;
+		assertOptionalFunction(redactArgs, "redactArgs");
+		const now = monotonicNow();
+		const withArgs = <TSnapshot extends object>(
+			snapshot: TSnapshot,
+			item: ScheduledTask<TTask, TResult>,
+		): TSnapshot =>
+			redactArgs
+				? {
+						...snapshot,
+						args: redactArgs(String(item.task.method), item.task.args),
+					}
+				: snapshot;
+		const queued = [
+			...this.queue.tasks().map((item, position) => ({ item, position })),
+			...[...this.admissions.tasks(), ...this.retryingTasks].map((item) => ({
+				item,
+				position: null,
+			})),
+		].map(({ item, position }) =>
+			withArgs(this._snapshotQueuedTask(item, position, now), item),
+		);
+		const running: WorkerRunningTaskSnapshot[] = [];
+		for (const worker of this.workers) {
+			for (const item of worker.activeTasks) {
+				const startedAt = item.startedAt ?? now;
+				// A hedge duplicate runs under the deadline of the call it copies.
+				const deadline = (item.hedgeOf ?? item).deadline;
+				running.push(
+					withArgs<WorkerRunningTaskSnapshot>(
+						{
+							id: item.sequence,
+							method: String(item.task.method),
+							workerId: worker.id,
+							attempt: item.attempt,
+							elapsedMs: Math.max(0, now - startedAt),
+							taskDeadlineInMs:
+								item.taskTimeoutMs === undefined
+									? null
+									: Math.max(0, startedAt + item.taskTimeoutMs - now),
+							deadlineInMs:
+								deadline === undefined ? null : Math.max(0, deadline - now),
+							abandoned: item.settled,
+							hedge: item.hedgeOf !== undefined,
+						},
+						item,
+					),
+				);
+			}
+		}
+		return {
+			state: this._getState(),
+			queued,
+			running,
+			workers: this.workers.map((worker) => ({
+				id: worker.id,
+				state: worker.initializing
+					? "initializing"
+					: worker.activeTasks.size > 0
+						? "busy"
+						: "idle",
+				runningTasks: worker.activeTasks.size,
+				taskCount: worker.taskCount,
+				ageMs: Math.max(0, now - worker.createdAt),
+				idleDeadlineInMs:
+					worker.idleDeadline === undefined
+						? null
+						: Math.max(0, worker.idleDeadline - now),
+				retirementReason: worker.retirementReason ?? null,
+			})),
+			quarantinedWorkers: this.termination.quarantined().map((record) => ({
+				id: record.workerId,
+				terminationAttempts: record.attempts,
+				exhausted: record.exhausted,
+			})),
+			affinity: Object.fromEntries(
+				Array.from(this.affinity, ([key, worker]) => [key, worker.id]),
+			),
+		};
+	}
+
 	/** Returns a consistent snapshot of pool statistics. */
 	public getStats(): WorkerPoolStats {
 		const now = monotonicNow();
@@ -529,6 +1727,7 @@ export class WorkerPool<
 		let idleWorkers = 0;
 		let availableForConcurrency = 0;
 		for (const worker of this.workers) {
+			if (worker.initializing) continue;
 			const activeTasks = worker.activeTasks.size;
 			runningTasks += activeTasks;
 			if (activeTasks === 0) idleWorkers++;
@@ -554,13 +1753,10 @@ export class WorkerPool<
 				);
 
 		return {
-			state: this.terminationStarted
-				? "closed"
-				: this.drainRequested
-					? "draining"
-					: "running",
+			state: this._getState(),
 			size: this.size,
 			maxConcurrentTasks: this.size * this.maxConcurrentTasksPerWorker,
+			concurrencyLimit: this.concurrencyLimiter?.limit ?? null,
 			available: availableForConcurrency + uncreatedCapacity,
 			queue: this.queue.length,
 			queueCapacity: Number.isFinite(this.maxQueueSize)
@@ -569,6 +1765,7 @@ export class WorkerPool<
 			queueCapacityRemaining: Number.isFinite(this.maxQueueSize)
 				? Math.max(0, this.maxQueueSize - this.queue.length)
 				: null,
+			admissionQueue: this.admissions.length,
 			oldestQueuedTaskAgeMs:
 				oldestQueuedAt === null ? null : Math.max(0, now - oldestQueuedAt),
 			workers: physicalWorkerCount,
@@ -576,6 +1773,7 @@ export class WorkerPool<
 			quarantinedWorkers: this.termination.count,
 			terminationFailureWorkerBuffer: this.terminationFailureWorkerBuffer,
 			terminationFailures: this.termination.failures,
+			initializingWorkers: this.initializingWorkers,
 			idleWorkers,
 			runningTasks,
 			availableForConcurrency,
@@ -586,120 +1784,627 @@ export class WorkerPool<
 			cancelledTasks: this.cancelledTasks,
 			timedOutTasks: this.timedOutTasks,
 			droppedTasks: this.droppedTasks,
+			retriedTasks: this.retriedTasks,
+			hedgedTasks: this.hedgedTasks,
+			dedupedCalls: this.dedupedCalls,
+			cacheHits: this.cacheHits,
+			cacheMisses: this.cacheMisses,
+			rateLimit: this.rateLimit?.getStats(now) ?? null,
+			methods: this._getMethodStats(now),
+			affinityKeys: this.affinity.size,
 		};
 	}
 
+	private _getMethodStats(now: number): Record<string, WorkerMethodStats> {
+		const stats: Record<string, WorkerMethodStats> = {};
+		for (const [method, state] of this.methods) {
+			stats[method] = {
+				queue: this.queue.lengthOf(method),
+				runningTasks: state.runningTasks,
+				maxConcurrent: state.limits.maxConcurrent ?? null,
+				queueCapacity: state.limits.maxQueueSize ?? null,
+				submittedTasks: state.submittedTasks,
+				completedTasks: state.completedTasks,
+				failedTasks: state.failedTasks,
+				rateLimit: state.rateLimit?.getStats(now) ?? null,
+				circuit: this.circuitBreakers.get(method)?.getStats(now) ?? null,
+			};
+		}
+		return stats;
+	}
+
+	private _createClosedError(): WorkerPoolTerminatedError {
+		return new WorkerPoolTerminatedError(
+			this.drainRequested
+				? "Worker pool is draining"
+				: "Worker pool has been terminated",
+		);
+	}
+
 	private _run(task: TTask, options: WorkerTaskOptions = {}): Promise<TResult> {
+		return new Promise<TResult>((resolve, reject) => {
+			this._submit(task, options, resolve, reject);
+		});
+	}
+
+	private _submit(
+		task: TTask,
+		options: WorkerTaskOptions,
+		resolve: (value: TResult) => void,
+		reject: (reason?: unknown) => void,
+		stream?: TaskStream<unknown>,
+		handle?: PoolTaskHandle<TResult>,
+	): ScheduledTask<TTask, TResult> | undefined {
 		if (!this.accepting) {
-			return Promise.reject(
-				new WorkerPoolTerminatedError(
-					this.drainRequested
-						? "Worker pool is draining"
-						: "Worker pool has been terminated",
-				),
-			);
+			reject(this._createClosedError());
+			return undefined;
 		}
 		const priority = options.priority ?? 0;
 		if (!Number.isFinite(priority)) {
-			return Promise.reject(new RangeError("priority must be a finite number"));
+			reject(new RangeError("priority must be a finite number"));
+			return undefined;
+		}
+		if (
+			options.affinityKey !== undefined &&
+			typeof options.affinityKey !== "string"
+		) {
+			reject(new TypeError("affinityKey must be a string"));
+			return undefined;
 		}
-		const queueTimeoutMs =
-			options.queueTimeoutMs === false
+		const method = String(task.method);
+		const limits = this.methods.get(method)?.limits;
+		const queueTimeoutMs = resolveDuration(
+			options.queueTimeoutMs,
+			resolveDuration(limits?.queueTimeoutMs, this.queueTimeoutMs),
+		);
+		const admissionTimeoutMs = resolveDuration(
+			options.admissionTimeoutMs,
+			this.admissionTimeoutMs,
+		);
+		const taskTimeoutMs = resolveDuration(
+			options.taskTimeoutMs,
+			resolveDuration(limits?.taskTimeoutMs, this.taskTimeoutMs),
+		);
+		const taskTimeoutGraceMs = resolveDuration(
+			options.taskTimeoutGraceMs,
+			this.taskTimeoutGraceMs,
+		);
+		const inactivityTimeoutMs = resolveDuration(
+			options.inactivityTimeoutMs,
+			this.inactivityTimeoutMs,
+		);
+		let transfer: Transferable[] | undefined;
+		let dedupeKey: string | undefined;
+		const resultCache =
+			stream || options.cache === false
 				? undefined
-				: (options.queueTimeoutMs ?? this.queueTimeoutMs);
+				: this.resultCaches.get(method);
+		let cacheKey: string | undefined;
 		try {
+			cacheKey = resultCache?.keyOf(method, task.args);
 			assertPositiveDuration(queueTimeoutMs, "queueTimeoutMs");
+			assertPositiveDuration(admissionTimeoutMs, "admissionTimeoutMs");
+			assertPositiveDuration(taskTimeoutMs, "taskTimeoutMs");
+			assertPositiveDuration(taskTimeoutGraceMs, "taskTimeoutGraceMs");
+			assertPositiveDuration(inactivityTimeoutMs, "inactivityTimeoutMs");
+			if (inactivityTimeoutMs !== undefined && !this.pooledWorkers) {
+				throw new TypeError("inactivityTimeoutMs requires pooledWorkers");
+			}
+			if (
+				options.deadline !== undefined &&
+				!Number.isFinite(options.deadline)
+			) {
+				throw new RangeError("deadline must be a finite number");
+			}
+			assertPositiveDuration(options.deadlineMs, "deadlineMs");
+			assertRetryPolicy(options.retry);
+			if (options.hedge !== undefined && options.hedge !== false) {
+				assertHedgePolicy(options.hedge, "hedge");
+			}
+			dedupeKey = this._resolveDedupeKey(task, options.dedupe, stream);
+			transfer = resolveTransferables(
+				task.args,
+				options.transfer === false
+					? undefined
+					: (options.transfer ?? this.transfer),
+				!this.pooledWorkers,
+			);
 		} catch (error) {
-			return Promise.reject(error);
+			reject(error);
+			return undefined;
 		}
 		if (options.signal?.aborted) {
-			return Promise.reject(new WorkerTaskAbortedError(options.signal.reason));
+			reject(new WorkerTaskAbortedError(options.signal.reason));
+			return undefined;
 		}
-
-		return new Promise<TResult>((resolve, reject) => {
-			const enqueuedAt = monotonicNow();
-			const item: ScheduledTask<TTask, TResult> = {
-				task,
-				resolve,
-				reject,
-				settled: false,
-				priority,
-				sequence: this.nextTaskSequence++,
-				enqueuedAt,
-				signal: options.signal,
-				queueIndex: -1,
-				previousQueued: null,
-				nextQueued: null,
-			};
-			this.submittedTasks++;
-			if (item.signal) {
-				item.abortHandler = () => this._abortTask(item);
-				try {
-					item.signal.addEventListener("abort", item.abortHandler, {
-						once: true,
-					});
-					if (item.signal.aborted) this._abortTask(item);
-				} catch (error) {
-					this._settleTask(item, false, error);
-					this._updateStats();
-					return;
-				}
-				if (item.settled) return;
+		if (resultCache && cacheKey !== undefined) {
+			const cached = resultCache.get(cacheKey, monotonicNow());
+			if (cached) {
+				const taskId = this._resolveFromCache(method, cached.value, resolve);
+				if (handle) handle.id = taskId;
+				return undefined;
 			}
-			this.queue.insert(item);
-			if (this.onEvent) {
-				this._emit({
-					type: "task-queued",
-					timestamp: Date.now(),
-					taskId: item.sequence,
-					method: String(item.task.method),
-					priority: item.priority,
+		}
+		const breaker = this.circuitBreakers.get(method);
+		if (breaker?.state === "open") {
+			const taskId = this._rejectCircuitOpen(method, breaker, reject);
+			if (handle) handle.id = taskId;
+			return undefined;
+		}
+		const caller = { resolve, reject, signal: options.signal };
+		const joined =
+			dedupeKey === undefined ? undefined : this.sharedTasks.get(dedupeKey);
+		if (joined) {
+			this.dedupedCalls++;
+			this._attachSharedCaller(joined, caller);
+			handle?.attach(joined);
+			this._updateStats();
+			return joined;
+		}
+
+		const shared =
+			dedupeKey === undefined ? undefined : new SharedCall<TResult>(dedupeKey);
+		// Streamed values and transferred arguments cannot be delivered twice.
+		const hedge =
+			stream || transfer || options.hedge === false
+				? undefined
+				: (options.hedge ?? this.hedge[method]);
+		if (hedge?.percentile !== undefined && !this.hedgeSamples.has(method)) {
+			this.hedgeSamples.set(method, new LatencySamples());
+		}
+		const enqueuedAt = monotonicNow();
+		const deadline = Math.min(
+			options.deadline ?? Number.POSITIVE_INFINITY,
+			enqueuedAt + (options.deadlineMs ?? Number.POSITIVE_INFINITY),
+		);
+		const item: ScheduledTask<TTask, TResult> = {
+			task,
+			resolve: shared ? (value) => shared.settle(true, value) : resolve,
+			reject: shared ? (reason) => shared.settle(false, reason) : reject,
+			settled: false,
+			priority,
+			sequence: this.nextTaskSequence++,
+			enqueuedAt,
+			// Shared tasks track each caller's signal separately.
+			signal: shared ? undefined : options.signal,
+			transfer,
+			stream,
+			retry:
+				options.retry === false ? undefined : (options.retry ?? this.retry),
+			hedge,
+			admissionTimeoutMs,
+			taskTimeoutMs,
+			taskTimeoutGraceMs,
+			inactivityTimeoutMs,
+			deadline: Number.isFinite(deadline) ? deadline : undefined,
+			dueAt:
+				this.earliestDeadlineFirst && Number.isFinite(deadline)
+					? deadline
+					: undefined,
+			affinityKey: options.affinityKey,
+			shared,
+			cacheKey,
+			cacheGeneration: resultCache?.generation,
+			attempt: 1,
+			queueTimeoutMs,
+			queueIndex: -1,
+			previousQueued: null,
+			nextQueued: null,
+		};
+		handle?.attach(item);
+		this.submittedTasks++;
+		// Joined and circuit-rejected calls never reach a worker, so only a new
+		// task counts as a miss.
+		if (cacheKey !== undefined) this.cacheMisses++;
+		let methodState = this.methods.get(method);
+		if (!methodState) {
+			methodState = createMethodState();
+			this.methods.set(method, methodState);
+		}
+		methodState.submittedTasks++;
+		// New demand may try workers again after an initialization failure.
+		this.initializationFailing = false;
+		if (shared) {
+			this.sharedTasks.set(shared.key, item);
+			this._attachSharedCaller(item, caller);
+			if (item.settled) return item;
+		} else if (item.signal) {
+			item.abortHandler = () => this._abortTask(item);
+			try {
+				item.signal.addEventListener("abort", item.abortHandler, {
+					once: true,
 				});
+				if (item.signal.aborted) this._abortTask(item);
+			} catch (error) {
+				this._settleTask(item, false, error);
+				this._updateStats();
+				return item;
 			}
-			this._startQueueTimer(item, queueTimeoutMs);
-			this._next();
-			this._enforceQueueLimit(item);
-			this._updateStats();
-		});
+			if (item.settled) return item;
+		}
+		this.queue.insert(item);
+		if (this.onEvent) {
+			this._emit({
+				type: "task-queued",
+				timestamp: Date.now(),
+				taskId: item.sequence,
+				method: String(item.task.method),
+				priority: item.priority,
+			});
+		}
+		this._startQueueTimer(item, item.enqueuedAt);
+		this._startDeadlineTimer(item);
+		this._next();
+		this._enforceQueueLimit(item, limits?.maxQueueSize);
+		this._updateStats();
+		return item;
 	}
 
-	private _enforceQueueLimit(submitted: ScheduledTask<TTask, TResult>): void {
-		for (const { task: rejected, dropped } of this.queue.enforceLimit(
-			submitted,
-			this.maxQueueSize,
-			this.queueOverflowPolicy,
-		)) {
+	/** Answers a call from the result cache without creating a task; returns its task id. */
+	private _resolveFromCache(
+		method: string,
+		value: unknown,
+		resolve: (value: TResult) => void,
+	): number {
+		const taskId = this.nextTaskSequence++;
+		this.cacheHits++;
+		resolve(value as TResult);
+		if (this.onEvent) {
+			this._emit({
+				type: "task-settled",
+				timestamp: Date.now(),
+				taskId,
+				method,
+				outcome: "cached",
+				durationMs: 0,
+				callers: 1,
+			});
+		}
+		this._updateStats();
+		return taskId;
+	}
+
+	/** Fails a call to a method whose breaker is open without creating a task; returns its task id. */
+	private _rejectCircuitOpen(
+		method: string,
+		breaker: CircuitBreaker,
+		reject: (reason?: unknown) => void,
+	): number {
+		const taskId = this.nextTaskSequence++;
+		this.failedTasks++;
+		reject(
+			new WorkerCircuitOpenError(method, breaker.retryAfterMs(monotonicNow())),
+		);
+		if (this.onEvent) {
+			this._emit({
+				type: "task-settled",
+				timestamp: Date.now(),
+				taskId,
+				method,
+				outcome: "circuit-open",
+				durationMs: 0,
+				callers: 1,
+			});
+		}
+		this._updateStats();
+		return taskId;
+	}
+
+	private _resolveDedupeKey(
+		task: TTask,
+		override: WorkerDedupeKey | false | undefined,
+		stream: TaskStream<unknown> | undefined,
+	): string | undefined {
+		if (override !== undefined && override !== false) {
+			assertFunction(override, "dedupe");
+		}
+		if (stream || override === false) return undefined;
+		const method = String(task.method);
+		const derive = override ?? this.dedupe[method];
+		const key = derive?.(method, task.args);
+		if (key === undefined) return undefined;
+		if (typeof key !== "string") {
+			throw new TypeError("dedupe keys must be strings");
+		}
+		return JSON.stringify([method, key]);
+	}
+
+	/** Adds a caller to a shared task; its abort detaches only that caller. */
+	private _attachSharedCaller(
+		item: ScheduledTask<TTask, TResult>,
+		caller: SharedCaller<TResult>,
+	): void {
+		const shared = item.shared as SharedCall<TResult>;
+		shared.add(caller);
+		const { signal } = caller;
+		if (!signal) return;
+		caller.abortHandler = () => {
+			if (!shared.leave(caller)) return;
+			caller.reject(new WorkerTaskAbortedError(signal.reason));
+			// The task itself is aborted once its last caller has left.
+			if (shared.size === 0) this._abortTask(item, signal.reason);
+		};
+		try {
+			signal.addEventListener("abort", caller.abortHandler, { once: true });
+		} catch (error) {
+			shared.leave(caller);
+			caller.reject(error);
+			if (shared.size === 0) this._settleTask(item, false, error);
+		}
+	}
+
+	private _enforceQueueLimit(
+		submitted: ScheduledTask<TTask, TResult>,
+		methodMaxQueueSize: number | undefined,
+	): void {
+		if (this.queueOverflowPolicy === "wait") {
+			if (
+				this.queue.length > this.maxQueueSize ||
+				(methodMaxQueueSize !== undefined &&
+					this.queue.lengthOf(String(submitted.task.method)) >
+						methodMaxQueueSize)
+			) {
+				this._awaitAdmission(submitted);
+			}
+			return;
+		}
+		if (methodMaxQueueSize !== undefined) {
+			this._rejectEvictions(
+				this.queue.enforceMethodLimit(
+					submitted,
+					methodMaxQueueSize,
+					this.queueOverflowPolicy,
+				),
+				methodMaxQueueSize,
+				String(submitted.task.method),
+			);
+		}
+		this._rejectEvictions(
+			this.queue.enforceLimit(
+				submitted,
+				this.maxQueueSize,
+				this.queueOverflowPolicy,
+			),
+		);
+	}
+
+	private _rejectEvictions(
+		evictions: QueueEviction<TTask, TResult>[],
+		maxQueueSize = this.maxQueueSize,
+		method?: string,
+	): void {
+		const policy =
+			typeof this.queueOverflowPolicy === "function"
+				? "custom"
+				: this.queueOverflowPolicy;
+		for (const { task: rejected, dropped } of evictions) {
+			const error = new WorkerPoolQueueFullError(
+				maxQueueSize,
+				dropped,
+				method,
+				policy,
+			);
 			this._settleTask(
 				rejected,
 				false,
-				new WorkerPoolQueueFullError(this.maxQueueSize, dropped),
+				// A retry already ran once, so its caller learns why it stopped short.
+				rejected.attempt > 1
+					? new WorkerRetryQueueFullError(rejected.attempt, error)
+					: error,
 				dropped ? "dropped" : "queue-rejected",
 			);
 		}
 	}
 
-	private _abortTask(item: ScheduledTask<TTask, TResult>): void {
-		if (item.settled) return;
+	/**
+	 * Asks a custom evictor which waiting task to drop. An evictor that throws
+	 * or names no waiting task rejects the submitted task.
+	 */
+	private _selectEviction(
+		evictor: WorkerQueueEvictor,
+		tasks: ScheduledTask<TTask, TResult>[],
+		submitted: ScheduledTask<TTask, TResult> | undefined,
+	): ScheduledTask<TTask, TResult> | undefined {
+		const now = monotonicNow();
+		const queued = tasks.map((item, position) =>
+			this._snapshotQueuedTask(item, position, now),
+		);
+		let id: number | undefined;
+		try {
+			id = evictor(
+				queued,
+				queued.find((snapshot) => snapshot.id === submitted?.sequence),
+			);
+		} catch {
+			return undefined;
+		}
+		return tasks.find((item) => item.sequence === id);
+	}
+
+	private _snapshotQueuedTask(
+		item: ScheduledTask<TTask, TResult>,
+		position: number | null,
+		now: number,
+	): WorkerQueuedTaskSnapshot {
+		return {
+			id: item.sequence,
+			method: String(item.task.method),
+			priority: item.priority,
+			attempt: item.attempt,
+			ageMs: Math.max(0, now - item.enqueuedAt),
+			queueDeadlineInMs:
+				item.queueDeadline === undefined
+					? null
+					: Math.max(0, item.queueDeadline - now),
+			deadlineInMs:
+				item.deadline === undefined ? null : Math.max(0, item.deadline - now),
+			position,
+		};
+	}
+
+	/**
+	 * Holds a queued call back until _admit() finds room for it. The queue
+	 * deadline keeps running; admissionTimeoutMs bounds the wait separately.
+	 */
+	private _awaitAdmission(item: ScheduledTask<TTask, TResult>): void {
 		this.queue.remove(item);
-		const isRunning = item.startedAt !== undefined;
-		this._settleTask(
-			item,
-			false,
-			new WorkerTaskAbortedError(item.signal?.reason),
-			"aborted",
-			isRunning,
+		if (item.queueTimeout !== undefined) clearTimeout(item.queueTimeout);
+		item.queueTimeout = undefined;
+		this.admissions.insert(item);
+		const deadline = Math.min(
+			item.admissionTimeoutMs === undefined
+				? Number.POSITIVE_INFINITY
+				: monotonicNow() + item.admissionTimeoutMs,
+			item.queueDeadline ?? Number.POSITIVE_INFINITY,
 		);
+		if (deadline === Number.POSITIVE_INFINITY) return;
+		const schedule = () => {
+			if (!this.admissions.contains(item)) return;
+			const remaining = deadline - monotonicNow();
+			if (remaining > 0) {
+				item.queueTimeout = setTimeout(
+					schedule,
+					Math.min(remaining, MAX_TIMER_DELAY_MS),
+				);
+				return;
+			}
+			item.queueTimeout = undefined;
+			this.admissions.remove(item);
+			if (item.queueDeadline !== undefined && deadline >= item.queueDeadline) {
+				this._settleTask(
+					item,
+					false,
+					new WorkerQueueTimeoutError(item.queueTimeoutMs as number),
+					"queue-timeout",
+				);
+			} else {
+				this._settleTask(
+					item,
+					false,
+					this._createQueueFullError(item),
+					"queue-rejected",
+				);
+			}
+			this._updateStats();
+		};
+		schedule();
+	}
+
+	/** Names the limit, the method's own or the pool's, that keeps a call waiting. */
+	private _createQueueFullError(
+		item: ScheduledTask<TTask, TResult>,
+	): WorkerPoolQueueFullError {
+		const method = String(item.task.method);
+		const methodMaxQueueSize = this.methods.get(method)?.limits?.maxQueueSize;
+		return methodMaxQueueSize !== undefined &&
+			this.queue.lengthOf(method) >= methodMaxQueueSize
+			? new WorkerPoolQueueFullError(methodMaxQueueSize, false, method, "wait")
+			: new WorkerPoolQueueFullError(
+					this.maxQueueSize,
+					false,
+					undefined,
+					"wait",
+				);
+	}
+
+	/**
+	 * Moves waiting calls into the queue, in priority/FIFO order, while both the
+	 * pool and their method have room. A zero-size queue still lets one call
+	 * through to wait for a worker. Returns whether any call was admitted.
+	 */
+	private _admit(): boolean {
+		let admitted = false;
+		for (const item of this.admissions.tasks()) {
+			if (!this._hasQueueRoom()) break;
+			const method = String(item.task.method);
+			const methodMaxQueueSize = this.methods.get(method)?.limits?.maxQueueSize;
+			if (
+				methodMaxQueueSize !== undefined &&
+				this.queue.lengthOf(method) >= Math.max(1, methodMaxQueueSize)
+			) {
+				continue;
+			}
+			this.admissions.remove(item);
+			if (item.queueTimeout !== undefined) clearTimeout(item.queueTimeout);
+			item.queueTimeout = undefined;
+			this.queue.insert(item);
+			if (item.queueDeadline !== undefined) {
+				// Keep the deadline the call had before it waited for admission.
+				this._startQueueTimer(
+					item,
+					item.queueDeadline - (item.queueTimeoutMs as number),
+				);
+			}
+			admitted = true;
+		}
+		return admitted;
+	}
+
+	private _hasQueueRoom(): boolean {
+		return this.queue.length < Math.max(1, this.maxQueueSize);
+	}
+
+	/** Reprioritizes a submit() call that has not started; shared tasks move for every caller. */
+	private _setTaskPriority(
+		handle: PoolTaskHandle<TResult>,
+		priority: number,
+	): boolean {
+		if (!Number.isFinite(priority)) {
+			throw new RangeError("priority must be a finite number");
+		}
+		const item = handle.task as ScheduledTask<TTask, TResult> | undefined;
+		if (!item || item.settled || item.startedAt !== undefined) return false;
+		// Calls waiting out a retry backoff take the priority when they re-enter.
+		if (
+			!this.queue.setPriority(item, priority) &&
+			!this.admissions.setPriority(item, priority)
+		) {
+			item.priority = priority;
+		}
+		return true;
+	}
+
+	private _abortTask(
+		item: ScheduledTask<TTask, TResult>,
+		cause: unknown = item.signal?.reason,
+	): void {
+		if (item.settled) return;
+		this._cancelTask(item, new WorkerTaskAbortedError(cause), "aborted");
+	}
+
+	/**
+	 * Rejects a call wherever it is. A running attempt is asked to stop and
+	 * keeps its slot until the worker returns.
+	 */
+	private _cancelTask(
+		item: ScheduledTask<TTask, TResult>,
+		reason: Error,
+		outcome: WorkerPoolTaskOutcome,
+	): void {
+		const dequeued = this.queue.remove(item);
+		const isRunning = item.startedAt !== undefined;
+		this._settleTask(item, false, reason, outcome, isRunning);
+		if (isRunning) {
+			const worker = this.workers.find(({ activeTasks }) =>
+				activeTasks.has(item),
+			);
+			if (worker) this._forwardAbort(worker, item, reason);
+		}
+		// The freed queue slot admits the next waiting call.
+		if (dequeued && this.admissions.length > 0) this._next();
 		this._updateStats();
 	}
 
+	/** Rejects a queued call once it has waited queueTimeoutMs since `waitingSince`. */
 	private _startQueueTimer(
 		item: ScheduledTask<TTask, TResult>,
-		timeoutMs: number | undefined,
+		waitingSince: number,
 	): void {
+		const timeoutMs = item.queueTimeoutMs;
 		if (timeoutMs === undefined || item.settled || !this.queue.contains(item)) {
 			return;
 		}
-		const deadline = item.enqueuedAt + timeoutMs;
+		const deadline = waitingSince + timeoutMs;
 		item.queueDeadline = deadline;
 		const schedule = () => {
 			if (!this.queue.contains(item)) return;
@@ -719,20 +2424,73 @@ export class WorkerPool<
 				new WorkerQueueTimeoutError(timeoutMs),
 				"queue-timeout",
 			);
-			this._updateStats();
+			if (this.admissions.length > 0) this._next();
+			this._updateStats();
+		};
+		schedule();
+	}
+
+	/**
+	 * Rejects a call once its deadline leaves less than minDispatchBudgetMs to
+	 * start, or once it passes while the call runs.
+	 */
+	private _startDeadlineTimer(item: ScheduledTask<TTask, TResult>): void {
+		const deadline = item.deadline;
+		if (deadline === undefined) return;
+		const schedule = () => {
+			if (item.settled) return;
+			const expiresAt =
+				item.startedAt === undefined
+					? deadline - this.minDispatchBudgetMs
+					: deadline;
+			const remaining = expiresAt - monotonicNow();
+			if (remaining > 0) {
+				item.deadlineTimer = setTimeout(
+					schedule,
+					Math.min(remaining, MAX_TIMER_DELAY_MS),
+				);
+				return;
+			}
+			item.deadlineTimer = undefined;
+			this._cancelTask(
+				item,
+				this._createDeadlineError(item),
+				"deadline-exceeded",
+			);
 		};
 		schedule();
 	}
 
+	private _createDeadlineError(
+		item: ScheduledTask<TTask, TResult>,
+	): WorkerDeadlineExceededError {
+		return new WorkerDeadlineExceededError(
+			Math.max(0, Math.round((item.deadline as number) - item.enqueuedAt)),
+			item.startedAt !== undefined,
+		);
+	}
+
 	private _expireQueuedTaskIfNeeded(
 		item: ScheduledTask<TTask, TResult>,
 	): boolean {
+		if (
+			item.deadline !== undefined &&
+			item.deadline - monotonicNow() <= this.minDispatchBudgetMs
+		) {
+			this._settleTask(
+				item,
+				false,
+				this._createDeadlineError(item),
+				"deadline-exceeded",
+			);
+			return true;
+		}
 		const deadline = item.queueDeadline;
 		if (deadline === undefined || monotonicNow() < deadline) return false;
 		this._settleTask(
 			item,
 			false,
-			new WorkerQueueTimeoutError(deadline - item.enqueuedAt),
+			new WorkerQueueTimeoutError(item.queueTimeoutMs as number),
 			"queue-timeout",
 		);
 		return true;
@@ -751,24 +2509,53 @@ export class WorkerPool<
 			do {
 				const startedTasksBeforePass = this.startedTasks;
 				this.rescheduleRequested = false;
-				while (this.queue.length > 0 && !this.terminationStarted) {
+				this.rateLimitWaitMs = undefined;
+				while (!this.terminationStarted && !this.paused) {
+					if (
+						this.concurrencyLimiter &&
+						this.concurrencyLimiter.running >= this.concurrencyLimiter.limit
+					) {
+						break;
+					}
+					const item = this.queue.peek(
+						(method) => this._canStartMethod(method),
+						(task) => this._canStartTask(task),
+					);
+					if (!item) break;
+					const waitMs = this.rateLimit?.waitMs(monotonicNow()) ?? 0;
+					if (waitMs > 0) {
+						this._noteRateLimitWait(waitMs);
+						break;
+					}
 					let worker: WorkerMetadata<TProxy, TTask, TResult> | null;
 					try {
-						worker = this._getAvailableWorker();
+						worker = this._getAvailableWorker(item);
 					} catch (error) {
 						// A broken factory affects the current backlog, but later submissions
 						// may retry after the client fixes a transient resource problem.
-						for (const item of this.queue.drain()) {
+						for (const item of [
+							...this.queue.drain(),
+							...this.admissions.drain(),
+						]) {
 							this._settleTask(item, false, error);
 						}
 						break;
 					}
 					if (!worker) break;
-
-					const item = this.queue.shift();
-					if (!item) break;
+					// Observers run while a worker is found and may settle the task.
+					if (!this.queue.remove(item)) continue;
+					const now = monotonicNow();
+					this.rateLimit?.take(now);
+					this.methods.get(String(item.task.method))?.rateLimit?.take(now);
 					this._dispatch(worker, item);
 				}
+				if (this.admissions.length > 0 && this._admit()) {
+					this.rescheduleRequested = true;
+				}
+				if (this.minWorkers > 0 && this.accepting) {
+					// Keeping warm workers is best effort; demand reports factory errors.
+					this._spawnUntil(Math.min(this.minWorkers, this.size));
+				}
 				this._rejectQueueIfPermanentlyExhausted();
 				if (
 					this.rescheduleRequested &&
@@ -780,12 +2567,128 @@ export class WorkerPool<
 					retriedWithoutProgress = false;
 				}
 			} while (this.rescheduleRequested && !this.terminationStarted);
+			this._scheduleRateLimitWake(this.rateLimitWaitMs);
 		} finally {
 			this.scheduling = false;
 		}
 	}
 
-	private _getAvailableWorker(): WorkerMetadata<TProxy, TTask, TResult> | null {
+	private _canStartMethod(method: string): boolean {
+		const state = this.methods.get(method);
+		if (!state) return true;
+		if (this.circuitBreakers.get(method)?.canStart() === false) return false;
+		if (
+			state.limits.maxConcurrent !== undefined &&
+			state.runningTasks >= state.limits.maxConcurrent
+		) {
+			return false;
+		}
+		const waitMs = state.rateLimit?.waitMs(monotonicNow()) ?? 0;
+		if (waitMs > 0 && this.queue.lengthOf(method) > 0) {
+			this._noteRateLimitWait(waitMs);
+		}
+		return waitMs === 0;
+	}
+
+	private _noteRateLimitWait(waitMs: number): void {
+		this.rateLimitWaitMs = Math.min(
+			waitMs,
+			this.rateLimitWaitMs ?? Number.POSITIVE_INFINITY,
+		);
+	}
+
+	/** Reruns the scheduler once the earliest token that held back a task accrues. */
+	private _scheduleRateLimitWake(waitMs: number | undefined): void {
+		if (this.rateLimitTimer !== undefined) clearTimeout(this.rateLimitTimer);
+		this.rateLimitTimer = undefined;
+		if (waitMs === undefined || this.terminationStarted) return;
+		this.rateLimitTimer = setTimeout(
+			() => {
+				this.rateLimitTimer = undefined;
+				this._next();
+			},
+			Math.min(Math.ceil(waitMs), MAX_TIMER_DELAY_MS),
+		);
+	}
+
+	/** Under the wait fallback, holds keyed tasks while their bound worker is busy. */
+	private _canStartTask(item: ScheduledTask<TTask, TResult>): boolean {
+		if (this.affinityFallback === "any" || item.affinityKey === undefined) {
+			return true;
+		}
+		const bound = this._getAffinityWorker(item.affinityKey);
+		return !bound || bound.activeTasks.size < this.maxConcurrentTasksPerWorker;
+	}
+
+	/** Binds a key to the worker that last served it, forgetting the least recently used key. */
+	private _bindAffinity(
+		key: string,
+		worker: WorkerMetadata<TProxy, TTask, TResult>,
+	): void {
+		const previous = this.affinity.get(key);
+		previous?.affinityKeys?.delete(key);
+		// Re-inserting keeps the map in least recently used order.
+		this.affinity.delete(key);
+		this.affinity.set(key, worker);
+		worker.affinityKeys ??= new Set();
+		worker.affinityKeys.add(key);
+		if (this.affinity.size <= this.maxAffinityKeys) return;
+		const [oldest, bound] = this.affinity.entries().next().value as [
+			string,
+			WorkerMetadata<TProxy, TTask, TResult>,
+		];
+		this.affinity.delete(oldest);
+		bound.affinityKeys?.delete(oldest);
+	}
+
+	/** Returns the worker a key is bound to while it can still take tasks. */
+	private _getAffinityWorker(
+		key: string,
+	): WorkerMetadata<TProxy, TTask, TResult> | undefined {
+		const bound = this.affinity.get(key);
+		return bound?.managed && !bound.markedForTermination && !bound.initializing
+			? bound
+			: undefined;
+	}
+
+	private _getAvailableWorker(
+		item: ScheduledTask<TTask, TResult>,
+	): WorkerMetadata<TProxy, TTask, TResult> | null {
+		const bound =
+			item.affinityKey === undefined
+				? undefined
+				: this._getAffinityWorker(item.affinityKey);
+		if (
+			bound &&
+			bound.activeTasks.size < this.maxConcurrentTasksPerWorker &&
+			!this._hasExpired(bound)
+		) {
+			return bound;
+		}
+		const idle = this._findIdleWorker();
+		if (idle) return idle;
+
+		// Initializing workers take no tasks, so keep spawning while the backlog
+		// outnumbers them.
+		while (
+			this._canCreateWorker() &&
+			this.initializingWorkers < this.queue.length
+		) {
+			let worker: WorkerMetadata<TProxy, TTask, TResult> | null;
+			try {
+				worker = this._spawnWorker();
+			} catch (error) {
+				const fallback = this._selectBusyWorker();
+				if (fallback || this.initializingWorkers > 0) return fallback;
+				throw error;
+			}
+			if (!worker?.initializing) return worker;
+		}
+		return this._selectBusyWorker();
+	}
+
+	/** Returns an idle worker, pruning stale and expired entries on the way. */
+	private _findIdleWorker(): WorkerMetadata<TProxy, TTask, TResult> | null {
 		for (const worker of this.idleWorkers) {
 			if (
 				!worker.managed ||
@@ -803,23 +2706,33 @@ export class WorkerPool<
 			}
 			return worker;
 		}
+		return null;
+	}
 
-		const physicalWorkerCount = this.workers.length + this.termination.count;
-		const canCreate =
+	private _canCreateWorker(): boolean {
+		return (
+			!this.initializationFailing &&
 			this.workers.length < this.size &&
-			physicalWorkerCount < this.physicalWorkerLimit;
-		if (!canCreate) return this._findLeastLoadedWorker();
+			this.workers.length + this.termination.count < this.physicalWorkerLimit
+		);
+	}
+
+	private _countRetainedWorkers(): number {
+		let retained = 0;
+		for (const worker of this.workers) {
+			if (!worker.markedForTermination) retained++;
+		}
+		return retained;
+	}
 
+	/**
+	 * Creates a managed worker, or returns null if observers removed it. With
+	 * initializeWorker the worker stays initializing until it becomes idle.
+	 */
+	private _spawnWorker(): WorkerMetadata<TProxy, TTask, TResult> | null {
 		this.workerCreationsInProgress++;
 		try {
-			let worker: WorkerMetadata<TProxy, TTask, TResult>;
-			try {
-				worker = this._createWorker();
-			} catch (error) {
-				const fallback = this._findLeastLoadedWorker();
-				if (fallback) return fallback;
-				throw error;
-			}
+			const worker = this._createWorker();
 			worker.poolIndex = this.workers.length;
 			this.workers.push(worker);
 			worker.managed = true;
@@ -837,7 +2750,19 @@ export class WorkerPool<
 			}
 			this._startLifetimeTimer(worker);
 			if (!this._containsWorker(worker)) return null;
-			this._startIdleTimer(worker);
+			const { initializeWorker } = this;
+			// Snapshot replays now; later broadcasts reach this worker directly.
+			const replay = [...this.replayedBroadcasts];
+			if (initializeWorker || replay.length > 0) {
+				this._initializeWorker(worker, async (proxy, workerId) => {
+					if (initializeWorker) await initializeWorker(proxy, workerId);
+					for (const [method, args] of replay) {
+						await this._invokeWorker(worker, method, args);
+					}
+				});
+			} else {
+				this._startIdleTimer(worker);
+			}
 			return worker;
 		} finally {
 			this.workerCreationsInProgress--;
@@ -845,28 +2770,92 @@ export class WorkerPool<
 		}
 	}
 
-	private _findLeastLoadedWorker(): WorkerMetadata<
-		TProxy,
-		TTask,
-		TResult
-	> | null {
-		let leastLoaded: WorkerMetadata<TProxy, TTask, TResult> | null = null;
+	/**
+	 * Spawns workers until at least target are retained. Returns the factory
+	 * error that stopped it, if any.
+	 */
+	private _spawnUntil(target: number): { error: unknown } | undefined {
+		let retained = this._countRetainedWorkers();
+		while (
+			retained < target &&
+			!this.terminationStarted &&
+			this._canCreateWorker()
+		) {
+			try {
+				if (!this._spawnWorker()) return undefined;
+			} catch (error) {
+				return { error };
+			}
+			retained++;
+		}
+		return undefined;
+	}
+
+	private _retireSurplusWorkers(): void {
+		const retained = this.workers.filter(
+			(worker) => !worker.markedForTermination,
+		);
+		const surplus = retained.length - this.size;
+		if (surplus <= 0) return;
+		retained.sort(
+			(left, right) => left.activeTasks.size - right.activeTasks.size,
+		);
+		for (const worker of retained.slice(0, surplus)) {
+			worker.markedForTermination = true;
+			worker.retirementReason = "resize";
+			if (worker.activeTasks.size === 0) {
+				this._removeWorker(worker, false, "resize");
+			}
+		}
+	}
+
+	/** Keeps busy workers that an earlier shrink was still waiting to retire. */
+	private _reinstateResizedWorkers(): void {
+		let retained = this.workers.filter(
+			(worker) => !worker.markedForTermination,
+		).length;
+		for (const worker of this.workers) {
+			if (retained >= this.size) return;
+			if (worker.retirementReason !== "resize" || this._hasExpired(worker)) {
+				continue;
+			}
+			worker.markedForTermination = false;
+			worker.retirementReason = undefined;
+			retained++;
+		}
+	}
+
+	/** Picks a worker with spare concurrency using the workerSelection strategy. */
+	private _selectBusyWorker(
+		excludedId?: number,
+	): WorkerMetadata<TProxy, TTask, TResult> | null {
+		const candidates: WorkerMetadata<TProxy, TTask, TResult>[] = [];
 		for (const worker of this.workers) {
-			if (!worker.managed || worker.markedForTermination) continue;
+			if (
+				!worker.managed ||
+				worker.markedForTermination ||
+				worker.initializing ||
+				worker.id === excludedId
+			) {
+				continue;
+			}
 			if (this._hasExpired(worker)) {
 				worker.markedForTermination = true;
 				worker.retirementReason = "lifetime";
 				continue;
 			}
-			if (
-				worker.activeTasks.size < this.maxConcurrentTasksPerWorker &&
-				(leastLoaded === null ||
-					worker.activeTasks.size < leastLoaded.activeTasks.size)
-			) {
-				leastLoaded = worker;
+			if (worker.activeTasks.size < this.maxConcurrentTasksPerWorker) {
+				candidates.push(worker);
 			}
 		}
-		return leastLoaded;
+		if (candidates.length === 0) return null;
+		const selected = selectWorker(this.workerSelection, candidates, {
+			previousId: this.selectedWorkerId,
+			now: monotonicNow(),
+			workers: this.workers,
+		});
+		this.selectedWorkerId = selected.id;
+		return selected;
 	}
 
 	private _createWorker(): WorkerMetadata<TProxy, TTask, TResult> {
@@ -938,88 +2927,528 @@ export class WorkerPool<
 			poolIndex: -1,
 			markedForTermination: false,
 			managed: false,
+			initializing: false,
 			failureHandler,
 			failureEventTypes,
 		};
 		return metadata;
 	}
 
-	private _dispatch(
+	/** Runs initializeWorker under workerInitTimeoutMs before the worker goes idle. */
+	private _initializeWorker(
+		worker: WorkerMetadata<TProxy, TTask, TResult>,
+		initialize: WorkerInitializer<TProxy>,
+	): void {
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		worker.initializing = true;
+		this.initializingWorkers++;
+		worker.initialization = new Promise((resolve) => {
+			worker.settleInitialization = (error) => {
+				if (!worker.initializing) return;
+				worker.initializing = false;
+				worker.settleInitialization = undefined;
+				this.initializingWorkers--;
+				if (timer !== undefined) clearTimeout(timer);
+				resolve(error === undefined ? undefined : { error });
+			};
+		});
+		const conclude = (error?: WorkerInitializationError) => {
+			if (!worker.initializing || !this._containsWorker(worker)) return;
+			worker.settleInitialization?.(error);
+			if (error) {
+				this._failInitialization(worker, error);
+				return;
+			}
+			this.initializationFailing = false;
+			this._startIdleTimer(worker);
+			this._next();
+			this._updateStats();
+		};
+
+		if (this.workerInitTimeoutMs !== undefined) {
+			const deadline = monotonicNow() + this.workerInitTimeoutMs;
+			const schedule = () => {
+				const remaining = deadline - monotonicNow();
+				if (remaining > 0) {
+					timer = setTimeout(schedule, Math.min(remaining, MAX_TIMER_DELAY_MS));
+					return;
+				}
+				timer = undefined;
+				conclude(new WorkerInitializationError(worker.id, true));
+			};
+			schedule();
+		}
+		void Promise.resolve()
+			.then(() => {
+				if (worker.initializing) return initialize(worker.proxy, worker.id);
+			})
+			.then(
+				() => conclude(),
+				(error) =>
+					conclude(new WorkerInitializationError(worker.id, false, error)),
+			);
+	}
+
+	private _failInitialization(
+		worker: WorkerMetadata<TProxy, TTask, TResult>,
+		error: WorkerInitializationError,
+	): void {
+		// No new workers until demand or warmup() asks again; a persistently
+		// failing initializer would otherwise respawn in a loop.
+		this.initializationFailing = true;
+		if (this.onEvent) {
+			this._emit({
+				type: "worker-init-failed",
+				timestamp: Date.now(),
+				workerId: worker.id,
+				reason: error.timedOut ? "timeout" : "error",
+			});
+		}
+		this._removeWorker(worker, true, "init-failure");
+		if (this._countRetainedWorkers() === 0) {
+			for (const item of [...this.queue.drain(), ...this.admissions.drain()]) {
+				this._settleTask(item, false, error);
+			}
+		}
+		this._next();
+		this._updateStats();
+	}
+
+	/**
+	 * Starts an attempt on a worker. A hedge duplicates an attempt that already
+	 * counted as started and took any circuit probe, so it does neither again.
+	 */
+	private _dispatch(
+		worker: WorkerMetadata<TProxy, TTask, TResult>,
+		item: ScheduledTask<TTask, TResult>,
+		hedge = false,
+	): void {
+		if (item.settled) return;
+		if (this._expireQueuedTaskIfNeeded(item)) return;
+		if (item.queueTimeout !== undefined) clearTimeout(item.queueTimeout);
+		item.queueTimeout = undefined;
+		item.queueDeadline = undefined;
+		this._clearIdleTimer(worker);
+		worker.activeTasks.add(item);
+		const methodState = this.methods.get(String(item.task.method));
+		if (methodState) methodState.runningTasks++;
+		if (!hedge) {
+			item.circuitProbe =
+				this.circuitBreakers.get(String(item.task.method))?.start() ?? false;
+		}
+		if (this.concurrencyLimiter) this.concurrencyLimiter.running++;
+		worker.taskCount++;
+		item.startedAt = monotonicNow();
+		item.workerId = worker.id;
+		if (item.affinityKey !== undefined) {
+			this._bindAffinity(item.affinityKey, worker);
+		}
+		if (!hedge) this.startedTasks++;
+		if (
+			this.maxTasksPerWorker !== undefined &&
+			worker.taskCount >= this.maxTasksPerWorker
+		) {
+			worker.markedForTermination = true;
+			worker.retirementReason = "max-tasks";
+		}
+
+		if (item.inactivityTimeoutMs !== undefined) {
+			item.activity = {
+				deadline: item.startedAt + item.inactivityTimeoutMs,
+				windowMs: item.inactivityTimeoutMs,
+			};
+		}
+		if (
+			item.taskTimeoutMs !== undefined ||
+			item.inactivityTimeoutMs !== undefined
+		) {
+			this._startTaskTimer(worker, item);
+		}
+		if (item.hedge) this._scheduleHedge(item);
+
+		queueMicrotask(() => {
+			try {
+				if (!this._canInvoke(worker, item)) return;
+				const [target, thisArg, args] = this._resolveInvocation(
+					worker,
+					String(item.task.method),
+					item.task.args,
+					item.sequence,
+					item.stream !== undefined,
+					this._openHeartbeat(worker, item),
+				);
+				if (!this._canInvoke(worker, item)) return;
+				this._assertInvocable(target, String(item.task.method));
+				attachTransferables(args, item.transfer);
+				item.invoked = true;
+				const result = Reflect.apply(target, thisArg, args);
+				if (
+					!this._containsWorker(worker) ||
+					!worker.activeTasks.has(item) ||
+					this._expireTaskIfNeeded(worker, item)
+				) {
+					isolateAsyncFailure(result);
+					return;
+				}
+				void Promise.resolve(result).then(
+					(value) =>
+						item.stream
+							? this._pumpStream(worker, item, value)
+							: this._completeTask(worker, item, true, value as TResult),
+					(error) => this._completeTask(worker, item, false, error),
+				);
+			} catch (error) {
+				this._completeTask(worker, item, false, error);
+			}
+		});
+		// Duplicates report task-hedged once dispatched instead.
+		if (this.onEvent && !hedge) {
+			this._emit({
+				type: "task-started",
+				timestamp: Date.now(),
+				taskId: item.sequence,
+				method: String(item.task.method),
+				workerId: worker.id,
+				queueWaitMs: Math.max(0, item.startedAt - item.enqueuedAt),
+			});
+		}
+		if (item.handles) {
+			for (const handle of [...item.handles]) handle.start(worker.id);
+		}
+	}
+
+	/** Starts the hedge timer of an attempt that just started. */
+	private _scheduleHedge(item: ScheduledTask<TTask, TResult>): void {
+		const delayMs = hedgeDelay(
+			item.hedge as WorkerHedgePolicy,
+			this.hedgeSamples.get(String(item.task.method)),
+		);
+		if (delayMs === undefined) return;
+		item.hedgeTimer = setTimeout(
+			() => {
+				item.hedgeTimer = undefined;
+				this._startHedge(item, delayMs);
+			},
+			Math.min(delayMs, MAX_TIMER_DELAY_MS),
+		);
+	}
+
+	/**
+	 * Runs a duplicate of a slow attempt on another worker. Duplicates only use
+	 * spare capacity, so none starts while calls wait for a worker.
+	 */
+	private _startHedge(
+		item: ScheduledTask<TTask, TResult>,
+		delayMs: number,
+	): void {
+		const method = String(item.task.method);
+		const limiter = this.concurrencyLimiter;
+		if (
+			this.paused ||
+			this.queue.length > 0 ||
+			(limiter && limiter.running >= limiter.limit) ||
+			!this._canStartMethod(method) ||
+			(this.rateLimit?.waitMs(monotonicNow()) ?? 0) > 0
+		) {
+			return;
+		}
+		const worker = this._getHedgeWorker(item.workerId);
+		if (!worker) return;
+		const now = monotonicNow();
+		this.rateLimit?.take(now);
+		this.methods.get(method)?.rateLimit?.take(now);
+		const duplicate: ScheduledTask<TTask, TResult> = {
+			task: item.task,
+			resolve: item.resolve,
+			reject: item.reject,
+			settled: false,
+			priority: item.priority,
+			sequence: item.sequence,
+			enqueuedAt: now,
+			taskTimeoutMs: item.taskTimeoutMs,
+			inactivityTimeoutMs: item.inactivityTimeoutMs,
+			hedgeOf: item,
+			attempt: item.attempt,
+			queueIndex: -1,
+			previousQueued: null,
+			nextQueued: null,
+		};
+		item.hedgeAttempt = duplicate;
+		this.hedgedTasks++;
+		this._dispatch(worker, duplicate, true);
+		if (this.onEvent) {
+			this._emit({
+				type: "task-hedged",
+				timestamp: Date.now(),
+				taskId: item.sequence,
+				method,
+				workerId: worker.id,
+				attempt: item.attempt,
+				delayMs,
+			});
+		}
+		this._updateStats();
+	}
+
+	/** Finds a worker for a duplicate attempt other than the original's. */
+	private _getHedgeWorker(
+		excludedId: number | undefined,
+	): WorkerMetadata<TProxy, TTask, TResult> | null {
+		const idle = this._findIdleWorker();
+		if (idle) return idle;
+		if (this._canCreateWorker()) {
+			try {
+				const worker = this._spawnWorker();
+				if (worker && !worker.initializing) return worker;
+			} catch {
+				// Hedging is best effort; the original attempt keeps running.
+			}
+		}
+		return this._selectBusyWorker(excludedId);
+	}
+
+	/** Stops hedging the task's current attempt and abandons its duplicate. */
+	private _cancelHedge(item: ScheduledTask<TTask, TResult>): void {
+		if (item.hedgeTimer !== undefined) clearTimeout(item.hedgeTimer);
+		item.hedgeTimer = undefined;
+		item.deferredFailure = undefined;
+		const duplicate = item.hedgeAttempt;
+		if (!duplicate) return;
+		item.hedgeAttempt = undefined;
+		// Like an abandoned call, the duplicate holds its slot until it returns.
+		duplicate.settled = true;
+		const worker = this.workers.find(({ activeTasks }) =>
+			activeTasks.has(duplicate),
+		);
+		if (worker) {
+			this._forwardAbort(worker, duplicate, new WorkerTaskAbortedError());
+		}
+	}
+
+	/** Ends a duplicate attempt that returned, failed, or timed out. */
+	private _endDuplicate(duplicate: ScheduledTask<TTask, TResult>): void {
+		if (duplicate.timeout !== undefined) clearTimeout(duplicate.timeout);
+		duplicate.timeout = undefined;
+		duplicate.settled = true;
+		const item = duplicate.hedgeOf as ScheduledTask<TTask, TResult>;
+		if (item.hedgeAttempt === duplicate) item.hedgeAttempt = undefined;
+	}
+
+	/** Settles a call with its duplicate's result and abandons the original attempt. */
+	private _completeDuplicate(
+		duplicate: ScheduledTask<TTask, TResult>,
+		value: unknown,
+	): void {
+		this._endDuplicate(duplicate);
+		const item = duplicate.hedgeOf as ScheduledTask<TTask, TResult>;
+		if (item.settled) return;
+		const worker = this.workers.find(({ activeTasks }) =>
+			activeTasks.has(item),
+		);
+		item.workerId = duplicate.workerId;
+		this._settleTask(item, true, value, "fulfilled", worker !== undefined);
+		if (worker) {
+			this._forwardAbort(worker, item, new WorkerTaskAbortedError());
+		}
+	}
+
+	private _canInvoke(
 		worker: WorkerMetadata<TProxy, TTask, TResult>,
 		item: ScheduledTask<TTask, TResult>,
-	): void {
-		if (item.settled) return;
-		if (this._expireQueuedTaskIfNeeded(item)) return;
-		if (item.queueTimeout !== undefined) clearTimeout(item.queueTimeout);
-		item.queueTimeout = undefined;
-		item.queueDeadline = undefined;
-		this._clearIdleTimer(worker);
-		worker.activeTasks.add(item);
-		worker.taskCount++;
-		item.startedAt = monotonicNow();
-		item.workerId = worker.id;
-		this.startedTasks++;
+	): boolean {
 		if (
-			this.maxTasksPerWorker !== undefined &&
-			worker.taskCount >= this.maxTasksPerWorker
+			!this._containsWorker(worker) ||
+			!worker.activeTasks.has(item) ||
+			this._expireTaskIfNeeded(worker, item)
 		) {
-			worker.markedForTermination = true;
-			worker.retirementReason = "max-tasks";
+			return false;
+		}
+		if (item.settled) {
+			// The caller left before the call reached the worker; free the slot.
+			this._completeTask(worker, item, false, undefined);
+			return false;
+		}
+		return true;
+	}
+
+	private _resolveInvocation(
+		worker: WorkerMetadata<TProxy, TTask, TResult>,
+		method: string,
+		args: unknown[],
+		taskId: number,
+		streaming: boolean,
+		heartbeat?: MessagePort,
+	): [target: unknown, thisArg: unknown, args: unknown[]] {
+		if (!this.pooledWorkers) {
+			return [worker.proxy[method as keyof TProxy], worker.proxy, args];
 		}
+		const control = (worker.proxy as unknown as PooledWorkerRemote)[
+			POOLED_WORKER_KEY
+		];
+		return [
+			streaming ? control?.stream : control?.invoke,
+			control,
+			heartbeat
+				? [taskId, method, args, transfer(heartbeat, [heartbeat])]
+				: [taskId, method, args],
+		];
+	}
+
+	/**
+	 * Opens the channel over which a pooled worker method sends heartbeats and
+	 * returns the port to hand to the worker.
+	 */
+	private _openHeartbeat(
+		worker: WorkerMetadata<TProxy, TTask, TResult>,
+		item: ScheduledTask<TTask, TResult>,
+	): MessagePort | undefined {
+		if (!item.activity) return undefined;
+		const { port1, port2 } = new MessageChannel();
+		port1.onmessage = ({ data }: MessageEvent<unknown>) =>
+			this._recordHeartbeat(worker, item, data);
+		item.activity.port = port1;
+		return port2;
+	}
 
-		if (this.taskTimeoutMs !== undefined) {
+	/** Postpones the inactivity deadline of a running attempt. */
+	private _recordHeartbeat(
+		worker: WorkerMetadata<TProxy, TTask, TResult>,
+		item: ScheduledTask<TTask, TResult>,
+		windowMs: unknown,
+	): void {
+		const activity = item.activity;
+		if (!activity || !worker.activeTasks.has(item)) return;
+		activity.windowMs =
+			typeof windowMs === "number" && windowMs > 0 && Number.isFinite(windowMs)
+				? windowMs
+				: (item.inactivityTimeoutMs as number);
+		const previous = activity.deadline;
+		activity.deadline = monotonicNow() + activity.windowMs;
+		// A later deadline is picked up when the pending timer fires.
+		if (activity.deadline < previous) {
+			if (item.timeout !== undefined) clearTimeout(item.timeout);
 			this._startTaskTimer(worker, item);
 		}
+	}
 
-		queueMicrotask(() => {
-			try {
-				if (
-					!this._containsWorker(worker) ||
-					!worker.activeTasks.has(item) ||
-					this._expireTaskIfNeeded(worker, item)
-				) {
-					return;
-				}
-				const method = worker.proxy[item.task.method];
-				if (
-					!this._containsWorker(worker) ||
-					!worker.activeTasks.has(item) ||
-					this._expireTaskIfNeeded(worker, item)
-				) {
-					return;
-				}
-				if (typeof method !== "function") {
-					throw new TypeError(
-						`Worker proxy method ${String(item.task.method)} is not a function`,
-					);
-				}
-				const result = Reflect.apply(method, worker.proxy, item.task.args);
-				if (
-					!this._containsWorker(worker) ||
-					!worker.activeTasks.has(item) ||
-					this._expireTaskIfNeeded(worker, item)
-				) {
-					isolateAsyncFailure(result);
+	private _assertInvocable(
+		target: unknown,
+		method: string,
+	): asserts target is (...args: unknown[]) => unknown {
+		if (typeof target !== "function") {
+			throw new TypeError(
+				this.pooledWorkers
+					? "Worker proxy has no pooled control channel; expose the API with exposePooled()"
+					: `Worker proxy method ${method} is not a function`,
+			);
+		}
+	}
+
+	/** Calls a method on one worker outside the task queue, as broadcasts do. */
+	private _invokeWorker(
+		worker: WorkerMetadata<TProxy, TTask, TResult>,
+		method: string,
+		args: unknown[],
+	): Promise<unknown> {
+		return new Promise((resolve) => {
+			const [target, thisArg, callArgs] = this._resolveInvocation(
+				worker,
+				method,
+				args,
+				this.nextBroadcastId--,
+				false,
+			);
+			this._assertInvocable(target, method);
+			resolve(Reflect.apply(target, thisArg, callArgs));
+		});
+	}
+
+	/**
+	 * Runs a broadcast on one worker once it has initialized. The call rejects
+	 * if the worker leaves the pool first, since its result can never arrive.
+	 */
+	private _broadcastTo(
+		worker: WorkerMetadata<TProxy, TTask, TResult>,
+		method: string,
+		args: unknown[],
+	): Promise<unknown> {
+		return new Promise((resolve, reject) => {
+			const broadcasts = worker.broadcasts ?? new Set();
+			worker.broadcasts = broadcasts;
+			broadcasts.add(reject);
+			Promise.resolve(worker.initializing ? worker.initialization : undefined)
+				.then((failure) => {
+					if (failure) throw failure.error;
+					return this._invokeWorker(worker, method, args);
+				})
+				.then(resolve, reject)
+				.finally(() => broadcasts.delete(reject));
+		});
+	}
+
+	private _forwardAbort(
+		worker: WorkerMetadata<TProxy, TTask, TResult>,
+		item: ScheduledTask<TTask, TResult>,
+		reason: Error,
+	): void {
+		if (!this.pooledWorkers || !item.invoked) return;
+		try {
+			const control = (worker.proxy as unknown as PooledWorkerRemote)[
+				POOLED_WORKER_KEY
+			];
+			isolateAsyncFailure(
+				control.abort(item.sequence, toPooledAbortReason(reason)),
+			);
+		} catch {
+			// Cooperative cancellation is best effort; settlement already happened.
+		}
+	}
+
+	private async _pumpStream(
+		worker: WorkerMetadata<TProxy, TTask, TResult>,
+		item: ScheduledTask<TTask, TResult>,
+		value: unknown,
+	): Promise<void> {
+		const stream = item.stream as TaskStream<unknown>;
+		const isStreaming = () =>
+			!item.settled &&
+			this._containsWorker(worker) &&
+			worker.activeTasks.has(item);
+		let source: StreamSource | undefined;
+		try {
+			if (this.pooledWorkers) {
+				const control = (worker.proxy as unknown as PooledWorkerRemote)[
+					POOLED_WORKER_KEY
+				];
+				source = {
+					next: () => control.next(item.sequence),
+					return: () => control.return(item.sequence),
+				};
+			} else {
+				source = toStreamSource(value);
+			}
+			while (isStreaming()) {
+				await stream.ready();
+				if (!isStreaming()) break;
+				const step = await source.next();
+				if (!isStreaming()) break;
+				if (step.done) {
+					this._completeTask(worker, item, true, undefined);
 					return;
 				}
-				void Promise.resolve(result).then(
-					(value) => this._completeTask(worker, item, true, value as TResult),
-					(error) => this._completeTask(worker, item, false, error),
-				);
-			} catch (error) {
-				this._completeTask(worker, item, false, error);
+				stream.push(step.value);
 			}
-		});
-		if (this.onEvent) {
-			this._emit({
-				type: "task-started",
-				timestamp: Date.now(),
-				taskId: item.sequence,
-				method: String(item.task.method),
-				workerId: worker.id,
-				queueWaitMs: Math.max(0, item.startedAt - item.enqueuedAt),
-			});
+		} catch (error) {
+			this._completeTask(worker, item, false, error);
+			return;
+		}
+		// The caller left, the task timed out, or the worker was removed.
+		try {
+			isolateAsyncFailure(source.return?.());
+		} catch {
+			// Releasing an abandoned source is best effort.
 		}
+		this._completeTask(worker, item, false, undefined);
 	}
 
 	private _completeTask(
@@ -1030,8 +3459,28 @@ export class WorkerPool<
 	): void {
 		if (!this._containsWorker(worker) || !worker.activeTasks.has(item)) return;
 		if (this._expireTaskIfNeeded(worker, item)) return;
-		worker.activeTasks.delete(item);
-		this._settleTask(item, succeeded, value);
+		this._detachTask(worker, item);
+		if (item.softTimedOut)
+			this._reportSoftTimeoutReturn(worker, item, succeeded);
+		if (
+			this.workerSelection === "ewma-latency" &&
+			item.startedAt !== undefined
+		) {
+			recordWorkerLatency(worker, monotonicNow() - item.startedAt);
+		}
+		if (succeeded) {
+			this._recordLatency(item, "fulfilled");
+			this._recordCircuitOutcome(item, "fulfilled");
+			if (item.startedAt !== undefined) {
+				this.hedgeSamples
+					.get(String(item.task.method))
+					?.record(monotonicNow() - item.startedAt);
+			}
+			if (item.hedgeOf) this._completeDuplicate(item, value);
+			else this._settleTask(item, true, value);
+		} else {
+			this._failAttempt(item, value, "rejected");
+		}
 
 		if (!this._containsWorker(worker) || this.terminationStarted) return;
 		if (worker.activeTasks.size === 0) {
@@ -1057,21 +3506,22 @@ export class WorkerPool<
 		if (!this._containsWorker(worker)) return;
 		worker.markedForTermination = true;
 		for (const item of worker.activeTasks) {
-			worker.activeTasks.delete(item);
+			this._detachTask(worker, item);
 			const taskReason =
 				triggeringTask !== undefined && item !== triggeringTask
 					? new WorkerCrashedError(worker.id, reason)
 					: reason;
-			this._settleTask(
+			if (reason instanceof WorkerTaskTimeoutError) {
+				this._forwardAbort(worker, item, taskReason as Error);
+			}
+			this._failAttempt(
 				item,
-				false,
 				taskReason,
 				triggeringTask === item && reason instanceof WorkerTaskTimeoutError
 					? "task-timeout"
 					: "worker-failure",
 			);
 		}
-		worker.activeTasks.clear();
 		this._removeWorker(
 			worker,
 			true,
@@ -1081,6 +3531,238 @@ export class WorkerPool<
 		this._updateStats();
 	}
 
+	/** Frees the task's worker and method slots. */
+	private _detachTask(
+		worker: WorkerMetadata<TProxy, TTask, TResult>,
+		item: ScheduledTask<TTask, TResult>,
+	): void {
+		if (!worker.activeTasks.delete(item)) return;
+		item.activity?.port?.close();
+		item.activity = undefined;
+		const methodState = this.methods.get(String(item.task.method));
+		if (methodState) methodState.runningTasks--;
+		const breaker = this.circuitBreakers.get(String(item.task.method));
+		if (breaker && item.circuitProbe) breaker.probes--;
+		if (this.concurrencyLimiter) this.concurrencyLimiter.running--;
+	}
+
+	/** Feeds a finished attempt's timings to the adaptive concurrency limiter. */
+	private _recordLatency(
+		item: ScheduledTask<TTask, TResult>,
+		outcome: "fulfilled" | RetryableOutcome,
+	): void {
+		const limiter = this.concurrencyLimiter;
+		// Attempts that never reached the worker say nothing about its latency,
+		// and a soft timeout already reported the attempt when it fired.
+		if (
+			!limiter ||
+			item.startedAt === undefined ||
+			!item.invoked ||
+			item.softTimedOut
+		) {
+			return;
+		}
+		const now = monotonicNow();
+		const previousLimit = limiter.limit;
+		const latencyMs = Math.max(0, now - item.startedAt);
+		const queueWaitMs = Math.max(0, item.startedAt - item.enqueuedAt);
+		const reason = limiter.record(
+			{
+				method: String(item.task.method),
+				startedAt: item.startedAt,
+				latencyMs,
+				queueWaitMs,
+				failed: outcome === "worker-failure" || outcome === "task-timeout",
+			},
+			this.queue.length > 0,
+			now,
+		);
+		if (!reason || !this.onEvent) return;
+		this._emit({
+			type: "concurrency-changed",
+			timestamp: Date.now(),
+			limit: limiter.limit,
+			previousLimit,
+			reason,
+			latencyMs,
+			queueWaitMs,
+		});
+	}
+
+	/** Feeds a finished attempt to its method's breaker; caller-abandoned attempts do not count. */
+	private _recordCircuitOutcome(
+		item: ScheduledTask<TTask, TResult>,
+		outcome: "fulfilled" | RetryableOutcome,
+		error?: unknown,
+	): void {
+		const method = String(item.task.method);
+		const breaker = this.circuitBreakers.get(method);
+		const probe = item.circuitProbe === true;
+		item.circuitProbe = false;
+		if (!breaker || item.settled) return;
+		let failed = outcome !== "fulfilled";
+		if (failed && breaker.policy.failureOn) {
+			try {
+				failed = breaker.policy.failureOn(outcome, error) === true;
+			} catch {
+				// A throwing classifier counts the attempt as failed.
+			}
+		}
+		const state = breaker.record(failed, probe, monotonicNow());
+		if (state === undefined) return;
+		if (state === "open") {
+			// Queued and retrying calls of the method fail fast as well.
+			const error = new WorkerCircuitOpenError(method, breaker.policy.openMs);
+			for (const waiting of [
+				...this.queue.drainMethod(method),
+				...[...this.admissions.tasks(), ...this.retryingTasks].filter(
+					(waiting) => String(waiting.task.method) === method,
+				),
+			]) {
+				this._settleTask(waiting, false, error, "circuit-open");
+			}
+			breaker.timer = setTimeout(
+				() => {
+					breaker.timer = undefined;
+					breaker.halfOpen();
+					this._emitCircuitState(method, "half-open");
+					this._next();
+					this._updateStats();
+				},
+				Math.min(breaker.policy.openMs, MAX_TIMER_DELAY_MS),
+			);
+		}
+		this._emitCircuitState(method, state);
+	}
+
+	private _emitCircuitState(method: string, state: WorkerCircuitState): void {
+		if (!this.onEvent) return;
+		this._emit({
+			type: "circuit-state-changed",
+			timestamp: Date.now(),
+			method,
+			state,
+		});
+	}
+
+	/**
+	 * Settles a failed worker attempt unless its retry policy runs it again.
+	 * While a hedged attempt's duplicate runs, the first one to fail waits for
+	 * the other.
+	 */
+	private _failAttempt(
+		item: ScheduledTask<TTask, TResult>,
+		reason: unknown,
+		outcome: RetryableOutcome,
+	): void {
+		this._recordLatency(item, outcome);
+		this._recordCircuitOutcome(item, outcome, reason);
+		const original = item.hedgeOf;
+		if (original) {
+			this._endDuplicate(item);
+			const deferred = original.deferredFailure;
+			original.deferredFailure = undefined;
+			if (deferred && !original.settled) {
+				this._retryOrSettle(original, deferred.reason, deferred.outcome);
+			}
+			return;
+		}
+		if (!item.settled && item.hedgeAttempt) {
+			if (item.timeout !== undefined) clearTimeout(item.timeout);
+			item.timeout = undefined;
+			item.deferredFailure = { reason, outcome };
+			return;
+		}
+		this._retryOrSettle(item, reason, outcome);
+	}
+
+	private _retryOrSettle(
+		item: ScheduledTask<TTask, TResult>,
+		reason: unknown,
+		outcome: RetryableOutcome,
+	): void {
+		// A streamed task may already have delivered values, and transferred
+		// arguments were detached by the first attempt, so neither is re-run.
+		const delayMs =
+			item.settled ||
+			item.stream ||
+			item.transfer ||
+			this.terminationStarted ||
+			this.circuitBreakers.get(String(item.task.method))?.state === "open"
+				? undefined
+				: retryDelay(item.retry, item.attempt, outcome, reason);
+		if (
+			delayMs === undefined ||
+			(item.deadline !== undefined &&
+				item.deadline - monotonicNow() - delayMs <= this.minDispatchBudgetMs)
+		) {
+			this._settleTask(item, false, reason, outcome);
+			return;
+		}
+		if (item.timeout !== undefined) clearTimeout(item.timeout);
+		item.timeout = undefined;
+		this._cancelHedge(item);
+		const workerId = item.workerId;
+		item.attempt++;
+		item.startedAt = undefined;
+		item.workerId = undefined;
+		item.invoked = false;
+		if (item.handles) {
+			for (const handle of [...item.handles]) handle.requeue();
+		}
+		this.retriedTasks++;
+		this.retryingTasks.add(item);
+		if (this.onEvent) {
+			this._emit({
+				type: "task-retried",
+				timestamp: Date.now(),
+				taskId: item.sequence,
+				method: String(item.task.method),
+				workerId,
+				outcome,
+				attempt: item.attempt,
+				delayMs,
+			});
+		}
+		if (item.settled) return;
+		if (delayMs === 0) {
+			// Callers reschedule after releasing the failed worker's slot, so the
+			// queue limit applies once the call is still waiting after that.
+			this.retryingTasks.delete(item);
+			this._requeue(item);
+			queueMicrotask(() => {
+				if (!this.queue.contains(item)) return;
+				this._enforceRequeueLimit(item);
+				this._updateStats();
+			});
+			return;
+		}
+		item.retryTimer = setTimeout(
+			() => {
+				item.retryTimer = undefined;
+				if (!this.retryingTasks.delete(item)) return;
+				this._requeue(item);
+				this._next();
+				if (this.queue.contains(item)) this._enforceRequeueLimit(item);
+				this._updateStats();
+			},
+			Math.min(delayMs, MAX_TIMER_DELAY_MS),
+		);
+	}
+
+	/** Puts a retried call back in the queue for a fresh queueTimeoutMs wait. */
+	private _requeue(item: ScheduledTask<TTask, TResult>): void {
+		this.queue.insert(item);
+		this._startQueueTimer(item, monotonicNow());
+	}
+
+	private _enforceRequeueLimit(item: ScheduledTask<TTask, TResult>): void {
+		this._enforceQueueLimit(
+			item,
+			this.methods.get(String(item.task.method))?.limits?.maxQueueSize,
+		);
+	}
+
 	private _settleTask(
 		item: ScheduledTask<TTask, TResult>,
 		succeeded: boolean,
@@ -1091,6 +3773,13 @@ export class WorkerPool<
 		if (item.queueTimeout !== undefined) clearTimeout(item.queueTimeout);
 		item.queueTimeout = undefined;
 		item.queueDeadline = undefined;
+		if (item.retryTimer !== undefined) clearTimeout(item.retryTimer);
+		item.retryTimer = undefined;
+		if (item.deadlineTimer !== undefined) clearTimeout(item.deadlineTimer);
+		item.deadlineTimer = undefined;
+		this.retryingTasks.delete(item);
+		this.admissions.remove(item);
+		this._cancelHedge(item);
 		if (!preserveTaskTimer) {
 			if (item.timeout !== undefined) clearTimeout(item.timeout);
 			item.timeout = undefined;
@@ -1106,6 +3795,9 @@ export class WorkerPool<
 		}
 		if (item.settled) return;
 		item.settled = true;
+		if (item.shared && this.sharedTasks.get(item.shared.key) === item) {
+			this.sharedTasks.delete(item.shared.key);
+		}
 		switch (outcome) {
 			case "fulfilled":
 				this.completedTasks++;
@@ -1115,6 +3807,8 @@ export class WorkerPool<
 				break;
 			case "queue-timeout":
 			case "task-timeout":
+			case "task-soft-timeout":
+			case "deadline-exceeded":
 				this.timedOutTasks++;
 				break;
 			case "dropped":
@@ -1123,6 +3817,18 @@ export class WorkerPool<
 			default:
 				this.failedTasks++;
 		}
+		const methodState = this.methods.get(String(item.task.method));
+		if (methodState) {
+			if (outcome === "fulfilled") methodState.completedTasks++;
+			else methodState.failedTasks++;
+		}
+		if (succeeded && item.cacheKey !== undefined) {
+			const cache = this.resultCaches.get(String(item.task.method));
+			// Results started before an invalidation may already be stale.
+			if (cache && cache.generation === item.cacheGeneration) {
+				cache.set(item.cacheKey, value, monotonicNow());
+			}
+		}
 		if (succeeded) item.resolve(value as TResult);
 		else item.reject(value);
 		if (this.onEvent) {
@@ -1137,20 +3843,45 @@ export class WorkerPool<
 					0,
 					monotonicNow() - (item.startedAt ?? item.enqueuedAt),
 				),
+				callers: item.shared?.served ?? 1,
 			});
 		}
 	}
 
+	/**
+	 * Recycles the worker of an attempt past its deadline or silent for its
+	 * inactivity window and returns true. In a grace period the call is rejected
+	 * instead, and the attempt keeps its slot until the worker returns or the
+	 * grace period ends.
+	 */
 	private _expireTaskIfNeeded(
 		worker: WorkerMetadata<TProxy, TTask, TResult>,
 		item: ScheduledTask<TTask, TResult>,
 	): boolean {
-		const timeoutMs = this.taskTimeoutMs;
+		if (item.startedAt === undefined) return false;
+		const now = monotonicNow();
+		if (item.activity && now >= item.activity.deadline) {
+			this._handleWorkerFailure(
+				worker,
+				new WorkerTaskTimeoutError(item.activity.windowMs, true),
+				item,
+			);
+			return true;
+		}
+		const timeoutMs = item.taskTimeoutMs;
+		if (timeoutMs === undefined) return false;
+		const elapsedMs = now - item.startedAt;
+		if (elapsedMs < timeoutMs) return false;
+		const graceMs = item.taskTimeoutGraceMs;
+		// Hedged attempts settle through each other, so they time out hard.
 		if (
-			timeoutMs === undefined ||
-			item.startedAt === undefined ||
-			monotonicNow() - item.startedAt < timeoutMs
+			graceMs !== undefined &&
+			elapsedMs < timeoutMs + graceMs &&
+			!item.hedgeOf &&
+			!item.hedgeAttempt
 		) {
+			if (!item.settled)
+				this._softTimeoutTask(worker, item, timeoutMs, graceMs);
 			return false;
 		}
 		this._handleWorkerFailure(
@@ -1165,13 +3896,11 @@ export class WorkerPool<
 		worker: WorkerMetadata<TProxy, TTask, TResult>,
 		item: ScheduledTask<TTask, TResult>,
 	): void {
-		const timeoutMs = this.taskTimeoutMs;
-		const startedAt = item.startedAt;
-		if (timeoutMs === undefined || startedAt === undefined) return;
-		const deadline = startedAt + timeoutMs;
+		let inGracePeriod = false;
 		const schedule = () => {
 			if (!worker.activeTasks.has(item)) return;
-			const remaining = deadline - monotonicNow();
+			const remaining =
+				this._taskDeadline(item, inGracePeriod) - monotonicNow();
 			if (remaining > 0) {
 				item.timeout = setTimeout(
 					schedule,
@@ -1180,11 +3909,82 @@ export class WorkerPool<
 				return;
 			}
 			item.timeout = undefined;
-			this._expireTaskIfNeeded(worker, item);
+			if (this._expireTaskIfNeeded(worker, item)) return;
+			// A soft timeout waits out the grace period before recycling.
+			inGracePeriod = true;
+			schedule();
 		};
 		schedule();
 	}
 
+	/** Monotonic time at which a running attempt next needs checking. */
+	private _taskDeadline(
+		item: ScheduledTask<TTask, TResult>,
+		inGracePeriod: boolean,
+	): number {
+		let deadline = item.activity?.deadline ?? Number.POSITIVE_INFINITY;
+		const timeoutMs = item.taskTimeoutMs;
+		if (timeoutMs !== undefined) {
+			const graceMs = inGracePeriod ? (item.taskTimeoutGraceMs ?? 0) : 0;
+			deadline = Math.min(
+				deadline,
+				(item.startedAt as number) + timeoutMs + graceMs,
+			);
+		}
+		return deadline;
+	}
+
+	/** Rejects a call at its soft deadline and asks the worker to stop it. */
+	private _softTimeoutTask(
+		worker: WorkerMetadata<TProxy, TTask, TResult>,
+		item: ScheduledTask<TTask, TResult>,
+		timeoutMs: number,
+		graceMs: number,
+	): void {
+		const reason = new WorkerTaskTimeoutError(timeoutMs);
+		this._recordLatency(item, "task-timeout");
+		this._recordCircuitOutcome(item, "task-timeout", reason);
+		item.softTimedOut = true;
+		if (this.onEvent) {
+			this._emit({
+				type: "task-soft-timeout",
+				timestamp: Date.now(),
+				taskId: item.sequence,
+				method: String(item.task.method),
+				workerId: worker.id,
+				timeoutMs,
+				graceMs,
+			});
+		}
+		// The attempt may still be running, so the call is not retried.
+		this._settleTask(item, false, reason, "task-soft-timeout", true);
+		this._forwardAbort(worker, item, reason);
+		this._updateStats();
+	}
+
+	/** Reports a worker that finished a soft-timed-out call within its grace period. */
+	private _reportSoftTimeoutReturn(
+		worker: WorkerMetadata<TProxy, TTask, TResult>,
+		item: ScheduledTask<TTask, TResult>,
+		succeeded: boolean,
+	): void {
+		if (!this.onEvent) return;
+		this._emit({
+			type: "task-soft-timeout-returned",
+			timestamp: Date.now(),
+			taskId: item.sequence,
+			method: String(item.task.method),
+			workerId: worker.id,
+			outcome: succeeded ? "fulfilled" : "rejected",
+			overrunMs: Math.max(
+				0,
+				monotonicNow() -
+					(item.startedAt as number) -
+					(item.taskTimeoutMs as number),
+			),
+		});
+	}
+
 	private _hasExpired(worker: WorkerMetadata<TProxy, TTask, TResult>): boolean {
 		return (
 			this.maxWorkerLifetimeMs !== undefined &&
@@ -1246,6 +4046,7 @@ export class WorkerPool<
 			}
 			worker.idleTimer = undefined;
 			worker.idleDeadline = undefined;
+			if (this._countRetainedWorkers() <= this.minWorkers) return;
 			this._removeWorker(worker, false, "idle");
 			this._next();
 			this._updateStats();
@@ -1286,6 +4087,22 @@ export class WorkerPool<
 		}
 		worker.poolIndex = -1;
 		worker.managed = false;
+		worker.settleInitialization?.(
+			new WorkerInitializationError(worker.id, false),
+		);
+		// Broadcasts waiting on a failed initialization reject with its error.
+		if (worker.broadcasts && reason !== "init-failure") {
+			const error =
+				reason === "failure" || reason === "task-timeout"
+					? new WorkerCrashedError(worker.id)
+					: new WorkerPoolTerminatedError(
+							`Worker ${worker.id} was removed before the broadcast settled`,
+						);
+			for (const reject of worker.broadcasts) reject(error);
+		}
+		// Keys bound to this worker re-home on their next dispatch.
+		for (const key of worker.affinityKeys ?? []) this.affinity.delete(key);
+		worker.affinityKeys = undefined;
 		const termination = this.termination.quarantine(worker.worker, worker.id);
 		this._clearIdleTimer(worker);
 		if (worker.lifetimeTimer !== undefined) clearTimeout(worker.lifetimeTimer);
@@ -1357,17 +4174,25 @@ export class WorkerPool<
 			this.physicalWorkerLimit,
 			this.termination.count,
 		);
-		for (const item of this.queue.drain()) {
+		for (const item of [...this.queue.drain(), ...this.admissions.drain()]) {
 			this._settleTask(item, false, error);
 		}
 	}
 
+	private _getState(): WorkerPoolState {
+		if (this.terminationStarted) return "closed";
+		if (this.drainRequested) return "draining";
+		return this.paused ? "paused" : "running";
+	}
+
 	private _updateStats(): void {
 		if (
 			this.drainRequested &&
 			!this.terminationStarted &&
 			this.workerCreationsInProgress === 0 &&
 			this.queue.length === 0 &&
+			this.admissions.length === 0 &&
+			this.retryingTasks.size === 0 &&
 			this.workers.every((worker) => worker.activeTasks.size === 0)
 		) {
 			this.terminateAll();
@@ -1387,6 +4212,7 @@ export class WorkerPool<
 				terminationFailures: this.termination.failures,
 			});
 		}
+		if (this.availabilityWaiters.length > 0) this._notifyAvailability();
 		if (!this.onUpdate) return;
 		try {
 			isolateAsyncFailure(this.onUpdate(this.getStats()));
@@ -1395,6 +4221,22 @@ export class WorkerPool<
 		}
 	}
 
+	/** Settles whenAvailable() callers once the queue has room or the pool stops accepting. */
+	private _notifyAvailability(): void {
+		if (
+			this.accepting &&
+			(this.admissions.length > 0 || !this._hasQueueRoom())
+		) {
+			return;
+		}
+		const waiters = this.availabilityWaiters;
+		this.availabilityWaiters = [];
+		for (const { resolve, reject } of waiters) {
+			if (this.accepting) resolve();
+			else reject(this._createClosedError());
+		}
+	}
+
 	private _emit(event: WorkerPoolEvent): void {
 		try {
 			isolateAsyncFailure(this.onEvent?.(event));
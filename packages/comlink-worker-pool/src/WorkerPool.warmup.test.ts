@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	type WorkerPoolOptions,
+	WorkerPoolTerminatedError,
+} from "./WorkerPool";
+import { closeTestPools, createTestPool, sleep } from "./__mocks__/testPool";
+
+type WarmApi = {
+	run(label: string): Promise<string>;
+};
+
+afterEach(closeTestPools);
+
+function createPool(options: Partial<WorkerPoolOptions<WarmApi>> = {}) {
+	const workers: EventTarget[] = [];
+	const { events, pool } = createTestPool<WarmApi>({
+		size: 3,
+		workerFactory: () => {
+			const worker = new EventTarget();
+			workers.push(worker);
+			return worker as unknown as Worker;
+		},
+		proxyFactory: () => ({ run: async (label) => label }),
+		...options,
+	});
+	return { events, pool, workers };
+}
+
+describe("WorkerPool - warm workers", () => {
+	test("keeps minWorkers alive through idle timeouts", async () => {
+		const { events, pool, workers } = createPool({
+			minWorkers: 1,
+			workerIdleTimeoutMs: 10,
+		});
+		expect(workers).toHaveLength(1);
+		expect(pool.getStats()).toMatchObject({ workers: 1, idleWorkers: 1 });
+
+		await Promise.all(["a", "b", "c"].map((label) => pool.run("run", [label])));
+		expect(pool.getStats().workers).toBe(3);
+		await sleep(40);
+		expect(pool.getStats()).toMatchObject({ workers: 1, idleWorkers: 1 });
+		expect(
+			events.filter(
+				(event) => event.type === "worker-removed" && event.reason === "idle",
+			),
+		).toHaveLength(2);
+		await expect(pool.run("run", ["warm"])).resolves.toBe("warm");
+		expect(workers).toHaveLength(3);
+	});
+
+	test("replaces warm workers lost to failure or retirement", async () => {
+		const { pool, workers } = createPool({
+			minWorkers: 2,
+			maxTasksPerWorker: 1,
+		});
+		expect(workers).toHaveLength(2);
+
+		workers[0].dispatchEvent(new Event("error"));
+		expect(workers).toHaveLength(3);
+		await pool.run("run", ["retire"]);
+		expect(workers).toHaveLength(4);
+		expect(pool.getStats()).toMatchObject({
+			healthyWorkers: 2,
+			idleWorkers: 2,
+		});
+	});
+
+	test("warmup spawns workers ahead of demand", async () => {
+		const { events, pool, workers } = createPool();
+		expect(workers).toHaveLength(0);
+
+		await pool.warmup(2);
+		expect(workers).toHaveLength(2);
+		await pool.warmup(1);
+		expect(workers).toHaveLength(2);
+		await pool.warmup();
+		expect(workers).toHaveLength(3);
+		await pool.warmup(10);
+		expect(workers).toHaveLength(3);
+		expect(
+			events.filter((event) => event.type === "worker-created"),
+		).toHaveLength(3);
+		expect(pool.getStats()).toMatchObject({ workers: 3, idleWorkers: 3 });
+	});
+
+	test("warmup reports factory failures and closed pools", async () => {
+		const failure = new Error("no workers today");
+		const { pool } = createPool({
+			workerFactory: () => {
+				throw failure;
+			},
+			minWorkers: 1,
+		});
+		expect(pool.getStats().workers).toBe(0);
+		await expect(pool.warmup()).rejects.toBe(failure);
+		await expect(pool.warmup(0)).rejects.toBeInstanceOf(RangeError);
+
+		await pool.close();
+		await expect(pool.warmup()).rejects.toBeInstanceOf(
+			WorkerPoolTerminatedError,
+		);
+
+		const busy = createPool({
+			proxyFactory: () => ({ run: () => new Promise(() => {}) }),
+		});
+		busy.pool.run("run", ["held"]).catch(() => {});
+		void busy.pool.drain();
+		await expect(busy.pool.warmup()).rejects.toThrow(/draining/);
+	});
+
+	test("validates minWorkers", () => {
+		expect(() => createPool({ minWorkers: -1 })).toThrow(RangeError);
+		expect(() => createPool({ minWorkers: 4 })).toThrow(
+			"minWorkers must not exceed size",
+		);
+	});
+});
@@ -11,6 +11,9 @@ const api = {
 		await new Promise<void>((resolve) => setTimeout(resolve, ms));
 		return value;
 	},
+	measure(payload: { bytes: Uint8Array }) {
+		return payload.bytes.reduce((sum, byte) => sum + byte, 0);
+	},
 };
 
 Comlink.expose(api);
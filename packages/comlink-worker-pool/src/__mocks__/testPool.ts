@@ -0,0 +1,99 @@
+import {
+	WorkerPool,
+	type WorkerPoolEvent,
+	type WorkerPoolOptions,
+	type WorkerTaskOptions,
+} from "../WorkerPool";
+
+type TestApi<T> = {
+	// biome-ignore lint/suspicious/noExplicitAny: test APIs may have arbitrary signatures
+	[K in keyof T]: (...args: any[]) => unknown;
+};
+
+export interface HeldCalls {
+	/** Keys of held calls, in the order they reached a worker. */
+	readonly started: string[];
+	/** Returns a call that stays pending until `finish(key)`. */
+	hold(key: string, value?: string): Promise<string>;
+	/** Settles a held call, rejecting with `error` when given, then flushes microtasks. */
+	finish(key: string, error?: Error): Promise<void>;
+}
+
+const pools = new Set<{ close(): Promise<unknown> }>();
+
+/** Creates worker calls that stay pending until the test finishes them. */
+export function holdCalls(): HeldCalls {
+	const pending = new Map<string, [() => void, (error: Error) => void]>();
+	const started: string[] = [];
+	return {
+		started,
+		hold: (key, value = key) =>
+			new Promise<string>((resolve, reject) => {
+				started.push(key);
+				pending.set(key, [() => resolve(value), reject]);
+			}),
+		finish: async (key, error) => {
+			const [resolve, reject] = pending.get(key) ?? [];
+			pending.delete(key);
+			if (error) reject?.(error);
+			else resolve?.();
+			await flushMicrotasks();
+		},
+	};
+}
+
+/**
+ * Creates a pool of fake workers that records its events. Defaults to one
+ * worker without task timeouts; `closeTestPools()` closes every pool created.
+ */
+export function createTestPool<T extends TestApi<T>>(
+	options: Partial<WorkerPoolOptions<T>> &
+		Pick<WorkerPoolOptions<T>, "proxyFactory">,
+) {
+	const events: WorkerPoolEvent[] = [];
+	const pool: WorkerPool<T> = new WorkerPool<T>({
+		size: 1,
+		taskTimeoutMs: false,
+		workerFactory: () => new EventTarget() as unknown as Worker,
+		workerTerminator: () => {},
+		onEvent: (event) => {
+			events.push(event);
+		},
+		...options,
+	});
+	pools.add(pool);
+	// Work still held at close() rejects; callers that do not await it opt out here.
+	const run = <K extends keyof T>(
+		method: K,
+		args: Parameters<T[K]>,
+		taskOptions?: WorkerTaskOptions,
+	) => {
+		const task = pool.run(method, args, taskOptions);
+		task.catch(() => {});
+		return task;
+	};
+	const submit = <K extends keyof T>(
+		method: K,
+		args: Parameters<T[K]>,
+		taskOptions?: WorkerTaskOptions,
+	) => {
+		const handle = pool.submit(method, args, taskOptions);
+		handle.result.catch(() => {});
+		return handle;
+	};
+	return { events, pool, run, submit };
+}
+
+/** Closes every pool from `createTestPool()`; register it with `afterEach`. */
+export async function closeTestPools(): Promise<void> {
+	await Promise.allSettled([...pools].map((pool) => pool.close()));
+	pools.clear();
+}
+
+export function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function flushMicrotasks(): Promise<void> {
+	for (let index = 0; index < 6; index++) await Promise.resolve();
+}
@@ -1,3 +1,5 @@
+import type { QueueOverflowStrategy } from "./WorkerPool";
+
 /** Error returned when work is submitted to, or interrupted by, a closed pool. */
 export class WorkerPoolTerminatedError extends Error {
 	constructor(message = "Worker pool has been terminated") {
@@ -19,14 +21,41 @@ export class WorkerCrashedError extends Error {
 	}
 }
 
-/** Error returned when a task exceeds taskTimeoutMs. */
+/** Error reported when initializeWorker rejects or exceeds workerInitTimeoutMs. */
+export class WorkerInitializationError extends Error {
+	readonly workerId: number;
+	readonly timedOut: boolean;
+
+	constructor(workerId: number, timedOut: boolean, cause?: unknown) {
+		const detail =
+			cause instanceof Error && cause.message ? `: ${cause.message}` : "";
+		super(
+			timedOut
+				? `Worker ${workerId} initialization timed out`
+				: `Worker ${workerId} failed to initialize${detail}`,
+			{ cause },
+		);
+		this.name = "WorkerInitializationError";
+		this.workerId = workerId;
+		this.timedOut = timedOut;
+	}
+}
+
+/** Error returned when a task exceeds taskTimeoutMs or inactivityTimeoutMs. */
 export class WorkerTaskTimeoutError extends Error {
 	readonly timeoutMs: number;
+	/** True when the worker stopped sending heartbeats, not when the run took too long. */
+	readonly inactivity: boolean;
 
-	constructor(timeoutMs: number) {
-		super(`Worker task timed out after ${timeoutMs}ms`);
+	constructor(timeoutMs: number, inactivity = false) {
+		super(
+			inactivity
+				? `Worker task sent no heartbeat for ${timeoutMs}ms`
+				: `Worker task timed out after ${timeoutMs}ms`,
+		);
 		this.name = "WorkerTaskTimeoutError";
 		this.timeoutMs = timeoutMs;
+		this.inactivity = inactivity;
 	}
 }
 
@@ -75,16 +104,44 @@ export class WorkerPoolCapacityError extends Error {
 export class WorkerPoolQueueFullError extends Error {
 	readonly maxQueueSize: number;
 	readonly dropped: boolean;
+	/** Method whose own queue limit was reached, or undefined for the pool limit. */
+	readonly method: string | undefined;
+	/** Overflow policy that applied; custom for an evictor function. */
+	readonly policy: QueueOverflowStrategy | "custom";
 
-	constructor(maxQueueSize: number, dropped = false) {
+	constructor(
+		maxQueueSize: number,
+		dropped = false,
+		method?: string,
+		policy: QueueOverflowStrategy | "custom" = dropped
+			? "drop-oldest"
+			: "reject",
+	) {
+		const queue = method === undefined ? "queue" : `${method} queue`;
 		super(
 			dropped
-				? `Worker task was dropped because the queue limit of ${maxQueueSize} was reached`
-				: `Worker pool queue limit of ${maxQueueSize} was reached`,
+				? `Worker task was dropped because the ${queue} limit of ${maxQueueSize} was reached`
+				: `Worker pool ${queue} limit of ${maxQueueSize} was reached`,
 		);
 		this.name = "WorkerPoolQueueFullError";
 		this.maxQueueSize = maxQueueSize;
 		this.dropped = dropped;
+		this.method = method;
+		this.policy = policy;
+	}
+}
+
+/** Error returned when a retried task is rejected or dropped by a full queue. */
+export class WorkerRetryQueueFullError extends Error {
+	/** Attempt that could not wait in the queue. */
+	readonly attempt: number;
+
+	constructor(attempt: number, cause: WorkerPoolQueueFullError) {
+		super(`Retried worker task could not stay queued: ${cause.message}`, {
+			cause,
+		});
+		this.name = "WorkerRetryQueueFullError";
+		this.attempt = attempt;
 	}
 }
 
@@ -99,6 +156,25 @@ export class WorkerQueueTimeoutError extends Error {
 	}
 }
 
+/** Error returned when a task's deadline passes before it produces a result. */
+export class WorkerDeadlineExceededError extends Error {
+	/** Budget from submission to the deadline. */
+	readonly budgetMs: number;
+	/** True when the deadline passed while a worker was running the task. */
+	readonly started: boolean;
+
+	constructor(budgetMs: number, started: boolean) {
+		super(
+			started
+				? `Worker task exceeded its ${budgetMs}ms deadline while running`
+				: `Worker task cannot finish within its ${budgetMs}ms deadline`,
+		);
+		this.name = "WorkerDeadlineExceededError";
+		this.budgetMs = budgetMs;
+		this.started = started;
+	}
+}
+
 /** Error returned when an AbortSignal cancels a scheduled task. */
 export class WorkerTaskAbortedError extends Error {
 	constructor(cause?: unknown) {
@@ -106,3 +182,17 @@ export class WorkerTaskAbortedError extends Error {
 		this.name = "WorkerTaskAbortedError";
 	}
 }
+
+/** Error returned for calls to a method whose circuit breaker is open. */
+export class WorkerCircuitOpenError extends Error {
+	readonly method: string;
+	/** Time until the breaker admits half-open probe calls. */
+	readonly retryAfterMs: number;
+
+	constructor(method: string, retryAfterMs: number) {
+		super(`Circuit breaker for worker method ${method} is open`);
+		this.name = "WorkerCircuitOpenError";
+		this.method = method;
+		this.retryAfterMs = retryAfterMs;
+	}
+}
@@ -51,18 +51,51 @@ export const WorkerPool =
 	WorkerPoolImplementation as unknown as WorkerPoolConstructor;
 
 export type {
+	PooledStreamValue,
 	QueueOverflowPolicy,
+	QueueOverflowStrategy,
 	Task,
+	TaskHandle,
+	TransferDetector,
+	WorkerAdaptiveConcurrency,
+	WorkerAffinityFallback,
+	WorkerBroadcastOptions,
+	WorkerBroadcastResults,
+	WorkerCachePolicy,
+	WorkerCircuitBreakerPolicy,
+	WorkerCircuitState,
+	WorkerCircuitStats,
+	WorkerConcurrencyChangeReason,
+	WorkerDedupeKey,
 	WorkerFactory,
+	WorkerHedgePolicy,
+	WorkerInitializer,
+	WorkerMethodLimits,
+	WorkerMethodStats,
+	WorkerPoolCache,
 	WorkerPoolEvent,
+	WorkerPoolInspectOptions,
 	WorkerPoolObserver,
 	WorkerPoolOptions,
+	WorkerPoolResizeOptions,
 	WorkerPoolShutdownReport,
+	WorkerPoolSnapshot,
 	WorkerPoolState,
 	WorkerPoolStats,
 	WorkerPoolTaskOutcome,
 	WorkerPoolWorkerRemovalReason,
+	WorkerQuarantineSnapshot,
+	WorkerQueueEvictor,
+	WorkerQueuedTaskSnapshot,
+	WorkerRateLimit,
+	WorkerRateLimitStats,
+	WorkerRetryPolicy,
+	WorkerRunningTaskSnapshot,
+	WorkerSelectionStrategy,
+	WorkerSnapshot,
 	WorkerTaskOptions,
+	WorkerTaskState,
 	WorkerTerminator,
 } from "./WorkerPool";
 export * from "./errors";
+export { detectTransferables } from "./transfer";
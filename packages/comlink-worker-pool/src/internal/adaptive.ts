@@ -0,0 +1,144 @@
+import type {
+	WorkerAdaptiveConcurrency,
+	WorkerConcurrencyChangeReason,
+} from "../WorkerPool";
+import { assertPositiveDuration, assertPositiveInteger } from "./lifecycle";
+
+export const DEFAULT_LATENCY_TOLERANCE = 2;
+export const DEFAULT_BACKOFF_RATIO = 0.9;
+/** Weight of the newest attempt in a method's latency baseline. */
+const BASELINE_WEIGHT = 0.2;
+
+/** Timing of one finished worker attempt. */
+export interface AttemptSample {
+	method: string;
+	startedAt: number;
+	latencyMs: number;
+	/** Time the attempt waited in the queue before it started. */
+	queueWaitMs: number;
+	/** The attempt ended in a worker failure or task timeout. */
+	failed: boolean;
+}
+
+/**
+ * Additive-increase, multiplicative-decrease limit on running tasks. The limit
+ * grows by one after a limit's worth of healthy attempts that waited in the
+ * queue at least as long as they ran finish while work is still queued, and
+ * shrinks by backoffRatio when an attempt is slow or fails. Without a target,
+ * an attempt is slow relative to a moving average of its method's latency.
+ */
+export class ConcurrencyLimiter {
+	limit: number;
+	/** Tasks started under the limit that are still running. */
+	running = 0;
+	private healthySamples = 0;
+	private readonly baselines = new Map<string, number>();
+	private changedAt: number;
+
+	constructor(
+		private readonly policy: WorkerAdaptiveConcurrency,
+		now: number,
+	) {
+		this.limit = policy.initial ?? policy.min;
+		this.changedAt = now;
+	}
+
+	/** Records a finished attempt; returns the reason when the limit moved. */
+	record(
+		sample: AttemptSample,
+		queued: boolean,
+		now: number,
+	): WorkerConcurrencyChangeReason | undefined {
+		const baselineMs = this.baselines.get(sample.method);
+		const targetMs =
+			this.policy.targetLatencyMs ??
+			(baselineMs ?? sample.latencyMs) *
+				(this.policy.latencyTolerance ?? DEFAULT_LATENCY_TOLERANCE);
+		if (!sample.failed) {
+			this.baselines.set(
+				sample.method,
+				baselineMs === undefined
+					? sample.latencyMs
+					: baselineMs + (sample.latencyMs - baselineMs) * BASELINE_WEIGHT,
+			);
+		}
+		const reason = sample.failed
+			? "failure"
+			: sample.latencyMs > targetMs
+				? "latency"
+				: undefined;
+		if (reason) {
+			// Attempts started before the last change reflect the old limit.
+			if (sample.startedAt < this.changedAt) return undefined;
+			return this.change(
+				Math.max(
+					this.policy.min,
+					Math.floor(
+						this.limit * (this.policy.backoffRatio ?? DEFAULT_BACKOFF_RATIO),
+					),
+				),
+				reason,
+				now,
+			);
+		}
+		// Attempts that started without waiting long show spare capacity.
+		if (!queued || sample.queueWaitMs < sample.latencyMs) return undefined;
+		if (++this.healthySamples < this.limit) return undefined;
+		return this.change(
+			Math.min(this.policy.max, this.limit + 1),
+			"queue-wait",
+			now,
+		);
+	}
+
+	private change(
+		limit: number,
+		reason: WorkerConcurrencyChangeReason,
+		now: number,
+	): WorkerConcurrencyChangeReason | undefined {
+		this.healthySamples = 0;
+		if (limit === this.limit) return undefined;
+		this.limit = limit;
+		this.changedAt = now;
+		return reason;
+	}
+}
+
+export function assertAdaptiveConcurrency(adaptive: unknown): void {
+	if (adaptive === undefined) return;
+	if (typeof adaptive !== "object" || adaptive === null) {
+		throw new TypeError("adaptiveConcurrency must be an object");
+	}
+	const { min, max, initial, targetLatencyMs, latencyTolerance, backoffRatio } =
+		adaptive as WorkerAdaptiveConcurrency;
+	assertPositiveInteger(min, "adaptiveConcurrency.min");
+	assertPositiveInteger(max, "adaptiveConcurrency.max");
+	if (min > max) {
+		throw new RangeError("adaptiveConcurrency.min must not exceed max");
+	}
+	if (initial !== undefined) {
+		assertPositiveInteger(initial, "adaptiveConcurrency.initial");
+		if (initial < min || initial > max) {
+			throw new RangeError(
+				"adaptiveConcurrency.initial must be between min and max",
+			);
+		}
+	}
+	assertPositiveDuration(
+		targetLatencyMs,
+		"adaptiveConcurrency.targetLatencyMs",
+	);
+	if (
+		latencyTolerance !== undefined &&
+		!(Number.isFinite(latencyTolerance) && latencyTolerance >= 1)
+	) {
+		throw new RangeError(
+			"adaptiveConcurrency.latencyTolerance must be a finite number of at least 1",
+		);
+	}
+	if (backoffRatio !== undefined && !(backoffRatio > 0 && backoffRatio < 1)) {
+		throw new RangeError(
+			"adaptiveConcurrency.backoffRatio must be between 0 and 1",
+		);
+	}
+}
@@ -0,0 +1,157 @@
+import type { WorkerCachePolicy } from "../WorkerPool";
+import {
+	assertFunction,
+	assertOptionalFunction,
+	assertPositiveDuration,
+	assertPositiveInteger,
+} from "./lifecycle";
+
+export const DEFAULT_CACHE_MAX_ENTRIES = 1_000;
+
+interface CacheEntry {
+	value: unknown;
+	bytes: number;
+	expiresAt: number;
+}
+
+/** LRU store of one method's results, bounded by entries, bytes, and age. */
+export class ResultCache {
+	private readonly entries = new Map<string, CacheEntry>();
+	private bytes = 0;
+	/** Bumped by invalidation so results still in flight are not stored. */
+	generation = 0;
+
+	constructor(private readonly policy: WorkerCachePolicy) {}
+
+	keyOf(method: string, args: readonly unknown[]): string | undefined {
+		const key = this.policy.key(method, args);
+		if (key !== undefined && typeof key !== "string") {
+			throw new TypeError("cache keys must be strings");
+		}
+		return key;
+	}
+
+	/** Returns a live entry and marks it most recently used. */
+	get(key: string, now: number): { value: unknown } | undefined {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+		this.entries.delete(key);
+		if (entry.expiresAt <= now) {
+			this.bytes -= entry.bytes;
+			return undefined;
+		}
+		this.entries.set(key, entry);
+		return entry;
+	}
+
+	set(key: string, value: unknown, now: number): void {
+		const { maxBytes, ttlMs } = this.policy;
+		const maxEntries = this.policy.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+		const bytes =
+			maxBytes === undefined ? 0 : (this.policy.sizeOf ?? estimateSize)(value);
+		this.delete(key);
+		// A result larger than the whole budget would only evict everything else.
+		if (maxBytes !== undefined && bytes > maxBytes) return;
+		this.entries.set(key, {
+			value,
+			bytes,
+			expiresAt: ttlMs === undefined ? Number.POSITIVE_INFINITY : now + ttlMs,
+		});
+		this.bytes += bytes;
+		for (const oldest of this.entries.keys()) {
+			if (
+				this.entries.size <= maxEntries &&
+				(maxBytes === undefined || this.bytes <= maxBytes)
+			) {
+				break;
+			}
+			this.delete(oldest);
+		}
+	}
+
+	/** Removes entries whose key matches, or all entries; returns the count. */
+	invalidate(keyPredicate?: (key: string) => boolean): number {
+		this.generation++;
+		let removed = 0;
+		for (const key of [...this.entries.keys()]) {
+			if (keyPredicate && !keyPredicate(key)) continue;
+			this.delete(key);
+			removed++;
+		}
+		return removed;
+	}
+
+	private delete(key: string): void {
+		const entry = this.entries.get(key);
+		if (!entry) return;
+		this.entries.delete(key);
+		this.bytes -= entry.bytes;
+	}
+}
+
+/**
+ * Approximates the memory a structured-cloned result occupies: strings count
+ * two bytes per character, binary data its byte length, and containers the
+ * sum of their members.
+ */
+export function estimateSize(value: unknown): number {
+	const seen = new Set<object>();
+	const measure = (current: unknown): number => {
+		switch (typeof current) {
+			case "string":
+				return current.length * 2;
+			case "number":
+			case "bigint":
+				return 8;
+			case "boolean":
+				return 4;
+			case "object":
+				break;
+			default:
+				return 0;
+		}
+		if (current === null || seen.has(current)) return 0;
+		seen.add(current);
+		if (current instanceof ArrayBuffer) return current.byteLength;
+		if (ArrayBuffer.isView(current)) return current.byteLength;
+		let bytes = 0;
+		if (current instanceof Map) {
+			for (const [key, entry] of current) {
+				bytes += measure(key) + measure(entry);
+			}
+			return bytes;
+		}
+		const members =
+			current instanceof Set ? [...current] : Object.values(current);
+		for (const member of members) bytes += measure(member);
+		if (!Array.isArray(current) && !(current instanceof Set)) {
+			for (const key of Object.keys(current)) bytes += key.length * 2;
+		}
+		return bytes;
+	};
+	return measure(value);
+}
+
+export function assertCachePolicies(cache: unknown): void {
+	if (cache === undefined) return;
+	if (typeof cache !== "object" || cache === null) {
+		throw new TypeError("cache must be an object");
+	}
+	for (const [method, policy] of Object.entries(cache)) {
+		const name = `cache.${method}`;
+		if (typeof policy !== "object" || policy === null) {
+			throw new TypeError(`${name} must be an object`);
+		}
+		const { key, maxEntries, maxBytes, ttlMs, sizeOf } =
+			policy as WorkerCachePolicy;
+		assertFunction(key, `${name}.key`);
+		assertOptionalFunction(sizeOf, `${name}.sizeOf`);
+		if (maxEntries !== undefined) {
+			assertPositiveInteger(maxEntries, `${name}.maxEntries`);
+		}
+		if (maxBytes !== undefined) {
+			assertPositiveInteger(maxBytes, `${name}.maxBytes`);
+		}
+		assertPositiveDuration(ttlMs, `${name}.ttlMs`);
+	}
+}
@@ -0,0 +1,159 @@
+import type {
+	WorkerCircuitBreakerPolicy,
+	WorkerCircuitState,
+	WorkerCircuitStats,
+} from "../WorkerPool";
+import {
+	assertOptionalFunction,
+	assertPositiveDuration,
+	assertPositiveInteger,
+} from "./lifecycle";
+
+export const DEFAULT_CIRCUIT_MINIMUM_CALLS = 5;
+
+interface AttemptOutcome {
+	at: number;
+	failed: boolean;
+}
+
+/**
+ * Closed, open, and half-open states for one method. Closed tracks attempt
+ * outcomes over a rolling window; half-open admits a few probe attempts whose
+ * outcomes decide between closing and reopening.
+ */
+export class CircuitBreaker {
+	state: WorkerCircuitState = "closed";
+	/** Probe attempts still running. */
+	probes = 0;
+	/** Moves an open breaker to half-open once openMs has passed. */
+	timer?: ReturnType<typeof setTimeout>;
+	private outcomes: AttemptOutcome[] = [];
+	private probeSuccesses = 0;
+	private openedAt = 0;
+
+	constructor(readonly policy: WorkerCircuitBreakerPolicy) {}
+
+	canStart(): boolean {
+		return (
+			this.state === "closed" ||
+			(this.state === "half-open" && this.probes < this.probeLimit())
+		);
+	}
+
+	/** Counts a started attempt; returns true when it is a half-open probe. */
+	start(): boolean {
+		if (this.state !== "half-open") return false;
+		this.probes++;
+		return true;
+	}
+
+	/** Records an attempt outcome; returns the new state when it changed. */
+	record(
+		failed: boolean,
+		probe: boolean,
+		now: number,
+	): WorkerCircuitState | undefined {
+		if (this.state === "half-open") {
+			// Attempts started before the breaker opened do not decide probing.
+			if (!probe) return undefined;
+			if (failed) return this.open(now);
+			if (++this.probeSuccesses < this.probeLimit()) return undefined;
+			this.state = "closed";
+			return "closed";
+		}
+		if (this.state === "open") return undefined;
+		this.outcomes.push({ at: now, failed });
+		const { attempts, failureRate } = this.measure(now);
+		return attempts >=
+			(this.policy.minimumCalls ?? DEFAULT_CIRCUIT_MINIMUM_CALLS) &&
+			failureRate >= this.policy.failureThreshold
+			? this.open(now)
+			: undefined;
+	}
+
+	halfOpen(): void {
+		this.state = "half-open";
+		this.probeSuccesses = 0;
+	}
+
+	retryAfterMs(now: number): number {
+		return this.state === "open"
+			? Math.max(0, this.openedAt + this.policy.openMs - now)
+			: 0;
+	}
+
+	getStats(now: number): WorkerCircuitStats {
+		return {
+			state: this.state,
+			...this.measure(now),
+			retryAfterMs: this.retryAfterMs(now),
+		};
+	}
+
+	private open(now: number): "open" {
+		this.state = "open";
+		this.openedAt = now;
+		this.outcomes = [];
+		return "open";
+	}
+
+	private probeLimit(): number {
+		return this.policy.halfOpenProbes ?? 1;
+	}
+
+	/** Drops outcomes older than the window and summarizes the rest. */
+	private measure(now: number): { attempts: number; failureRate: number } {
+		const cutoff = now - this.policy.windowMs;
+		let expired = 0;
+		while (
+			expired < this.outcomes.length &&
+			this.outcomes[expired].at <= cutoff
+		) {
+			expired++;
+		}
+		this.outcomes.splice(0, expired);
+		const attempts = this.outcomes.length;
+		let failures = 0;
+		for (const outcome of this.outcomes) if (outcome.failed) failures++;
+		return { attempts, failureRate: attempts === 0 ? 0 : failures / attempts };
+	}
+}
+
+export function assertCircuitBreakers(circuitBreaker: unknown): void {
+	if (circuitBreaker === undefined) return;
+	if (typeof circuitBreaker !== "object" || circuitBreaker === null) {
+		throw new TypeError("circuitBreaker must be an object");
+	}
+	for (const [method, policy] of Object.entries(circuitBreaker)) {
+		const name = `circuitBreaker.${method}`;
+		if (typeof policy !== "object" || policy === null) {
+			throw new TypeError(`${name} must be an object`);
+		}
+		const {
+			failureThreshold,
+			windowMs,
+			minimumCalls,
+			openMs,
+			halfOpenProbes,
+			failureOn,
+		} = policy as WorkerCircuitBreakerPolicy;
+		if (
+			typeof failureThreshold !== "number" ||
+			!(failureThreshold > 0 && failureThreshold <= 1)
+		) {
+			throw new RangeError(
+				`${name}.failureThreshold must be greater than 0 and at most 1`,
+			);
+		}
+		// Durations are required, so a missing value fails like an invalid one.
+		assertPositiveDuration(windowMs ?? Number.NaN, `${name}.windowMs`);
+		assertPositiveDuration(openMs ?? Number.NaN, `${name}.openMs`);
+		if (minimumCalls !== undefined) {
+			assertPositiveInteger(minimumCalls, `${name}.minimumCalls`);
+		}
+		if (halfOpenProbes !== undefined) {
+			assertPositiveInteger(halfOpenProbes, `${name}.halfOpenProbes`);
+		}
+		assertOptionalFunction(failureOn, `${name}.failureOn`);
+	}
+}
@@ -0,0 +1,55 @@
+/** One call waiting on a deduplicated task. */
+export interface SharedCaller<TResult> {
+	resolve: (value: TResult) => void;
+	reject: (reason?: unknown) => void;
+	signal?: AbortSignal;
+	abortHandler?: () => void;
+}
+
+/**
+ * Callers sharing one deduplicated task. The task settles every attached
+ * caller; a caller that aborts leaves without affecting the others.
+ */
+export class SharedCall<TResult> {
+	private readonly callers = new Set<SharedCaller<TResult>>();
+	/** Calls the task has served, including callers that later left. */
+	served = 0;
+
+	constructor(readonly key: string) {}
+
+	get size(): number {
+		return this.callers.size;
+	}
+
+	add(caller: SharedCaller<TResult>): void {
+		this.callers.add(caller);
+		this.served++;
+	}
+
+	/** Detaches a caller; returns false if it already left or was settled. */
+	leave(caller: SharedCaller<TResult>): boolean {
+		detachAbortHandler(caller);
+		return this.callers.delete(caller);
+	}
+
+	settle(succeeded: boolean, value: unknown): void {
+		const callers = [...this.callers];
+		this.callers.clear();
+		for (const caller of callers) {
+			detachAbortHandler(caller);
+			if (succeeded) caller.resolve(value as TResult);
+			else caller.reject(value);
+		}
+	}
+}
+
+function detachAbortHandler<TResult>(caller: SharedCaller<TResult>): void {
+	const { abortHandler, signal } = caller;
+	caller.abortHandler = undefined;
+	if (!abortHandler || !signal) return;
+	try {
+		signal.removeEventListener("abort", abortHandler);
+	} catch {
+		// A malformed signal must not interrupt task settlement.
+	}
+}
@@ -0,0 +1,114 @@
+import type { TaskHandle, WorkerTaskState } from "../WorkerPool";
+import { WorkerTaskAbortedError } from "../errors";
+import { isolateAsyncFailure } from "./lifecycle";
+import type { ScheduledTask } from "./scheduler";
+
+/**
+ * TaskHandle returned by WorkerPool.submit(). The pool moves it between queued
+ * and running; the caller's own settlement decides its final state, so a
+ * caller that leaves a shared task is cancelled while the task runs on.
+ */
+export class PoolTaskHandle<TResult> implements TaskHandle<TResult> {
+	id: number | undefined;
+	state: WorkerTaskState = "queued";
+	workerId: number | undefined;
+	/** Date.now() epoch milliseconds. */
+	readonly queuedAt: number;
+	/** Date.now() epoch milliseconds. */
+	startedAt: number | undefined;
+	readonly result: Promise<TResult>;
+	/** Task the call waits on or runs as, until the call settles. */
+	task?: ScheduledTask<unknown, TResult>;
+	readonly resolve: (value: TResult) => void;
+	readonly reject: (reason?: unknown) => void;
+	private readonly controller = new AbortController();
+	private readonly listeners = new Set<(state: WorkerTaskState) => void>();
+
+	constructor(
+		private readonly reprioritize: (
+			handle: PoolTaskHandle<TResult>,
+			priority: number,
+		) => boolean,
+	) {
+		this.queuedAt = Date.now();
+		let resolve!: (value: TResult) => void;
+		let reject!: (reason?: unknown) => void;
+		this.result = new Promise<TResult>((resolvePromise, rejectPromise) => {
+			resolve = resolvePromise;
+			reject = rejectPromise;
+		});
+		this.resolve = (value) => {
+			this.settle("fulfilled");
+			resolve(value);
+		};
+		this.reject = (reason) => {
+			this.settle(
+				reason instanceof WorkerTaskAbortedError ? "cancelled" : "rejected",
+			);
+			reject(reason);
+		};
+	}
+
+	/** Aborted by cancel(); the pool treats it as the call's own signal. */
+	get signal(): AbortSignal {
+		return this.controller.signal;
+	}
+
+	setPriority(priority: number): boolean {
+		return this.reprioritize(this, priority);
+	}
+
+	cancel(reason?: unknown): void {
+		this.controller.abort(reason);
+	}
+
+	onStateChange(listener: (state: WorkerTaskState) => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/** Binds the handle to the task its call was scheduled on. */
+	attach(task: ScheduledTask<unknown, TResult>): void {
+		this.id = task.sequence;
+		if (this.state !== "queued") return;
+		this.task = task;
+		if (!task.handles) task.handles = new Set();
+		task.handles.add(this);
+		if (task.startedAt !== undefined) this.start(task.workerId);
+	}
+
+	start(workerId: number | undefined): void {
+		this.workerId = workerId;
+		this.startedAt = Date.now();
+		this.transition("running");
+	}
+
+	/** Returns a failed attempt to the queue for its retry. */
+	requeue(): void {
+		this.workerId = undefined;
+		this.startedAt = undefined;
+		this.transition("queued");
+	}
+
+	private settle(state: WorkerTaskState): void {
+		if (this.state !== "queued" && this.state !== "running") return;
+		this.task?.handles?.delete(this);
+		this.task = undefined;
+		this.transition(state);
+		this.listeners.clear();
+	}
+
+	private transition(state: WorkerTaskState): void {
+		if (state === this.state) return;
+		this.state = state;
+		for (const listener of [...this.listeners]) {
+			try {
+				isolateAsyncFailure(listener(state));
+			} catch {
+				// Listeners are isolated from scheduling like pool observers.
+			}
+		}
+	}
+}
@@ -0,0 +1,86 @@
+import type { WorkerHedgePolicy } from "../WorkerPool";
+import { assertPositiveDuration, assertPositiveInteger } from "./lifecycle";
+
+/** Successful execution times kept per method for percentile delays. */
+export const HEDGE_SAMPLE_SIZE = 100;
+
+const DEFAULT_MIN_SAMPLES = 20;
+
+/** Ring buffer of a method's most recent successful execution times. */
+export class LatencySamples {
+	private readonly samples: number[] = [];
+	private nextIndex = 0;
+
+	constructor(private readonly capacity = HEDGE_SAMPLE_SIZE) {}
+
+	get size(): number {
+		return this.samples.length;
+	}
+
+	record(latencyMs: number): void {
+		this.samples[this.nextIndex] = latencyMs;
+		this.nextIndex = (this.nextIndex + 1) % this.capacity;
+	}
+
+	/** Nearest-rank percentile of the recorded samples. */
+	percentile(percentile: number): number {
+		const sorted = [...this.samples].sort((left, right) => left - right);
+		const rank = Math.ceil((percentile / 100) * sorted.length);
+		return sorted[Math.max(0, rank - 1)];
+	}
+}
+
+/**
+ * Returns how long an attempt runs before its duplicate starts, or undefined
+ * while a percentile policy without delayMs lacks samples.
+ */
+export function hedgeDelay(
+	policy: WorkerHedgePolicy,
+	samples: LatencySamples | undefined,
+): number | undefined {
+	if (
+		policy.percentile !== undefined &&
+		samples &&
+		samples.size >= (policy.minSamples ?? DEFAULT_MIN_SAMPLES)
+	) {
+		return samples.percentile(policy.percentile);
+	}
+	return policy.delayMs;
+}
+
+export function assertHedgePolicy(policy: unknown, name: string): void {
+	if (typeof policy !== "object" || policy === null) {
+		throw new TypeError(`${name} must be an object`);
+	}
+	const { delayMs, percentile, minSamples } = policy as WorkerHedgePolicy;
+	if (delayMs === undefined && percentile === undefined) {
+		throw new TypeError(`${name} requires delayMs or percentile`);
+	}
+	assertPositiveDuration(delayMs, `${name}.delayMs`);
+	if (
+		percentile !== undefined &&
+		(!Number.isFinite(percentile) || percentile <= 0 || percentile > 100)
+	) {
+		throw new RangeError(
+			`${name}.percentile must be greater than 0 and at most 100`,
+		);
+	}
+	if (minSamples !== undefined) {
+		assertPositiveInteger(minSamples, `${name}.minSamples`);
+		if (minSamples > HEDGE_SAMPLE_SIZE) {
+			throw new RangeError(
+				`${name}.minSamples must be at most ${HEDGE_SAMPLE_SIZE}, the samples kept per method`,
+			);
+		}
+	}
+}
+
+export function assertHedgePolicies(hedge: unknown): void {
+	if (hedge === undefined) return;
+	if (typeof hedge !== "object" || hedge === null) {
+		throw new TypeError("hedge must be an object");
+	}
+	for (const [method, policy] of Object.entries(hedge)) {
+		assertHedgePolicy(policy, `hedge.${method}`);
+	}
+}
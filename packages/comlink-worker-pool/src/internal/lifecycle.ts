@@ -2,6 +2,7 @@ import type { ScheduledTask } from "./scheduler";
 
 export const MAX_TIMER_DELAY_MS = 2_147_483_647;
 export const DEFAULT_TASK_TIMEOUT_MS = 5 * 60 * 1000;
+export const DEFAULT_WORKER_INIT_TIMEOUT_MS = 30_000;
 
 export interface WorkerMetadata<TProxy, TTask, TResult> {
 	id: number;
@@ -13,7 +14,18 @@ export interface WorkerMetadata<TProxy, TTask, TResult> {
 	markedForTermination: boolean;
 	managed: boolean;
 	poolIndex: number;
-	retirementReason?: "lifetime" | "max-tasks";
+	/** Recent execution time, tracked for the ewma-latency selection strategy. */
+	latencyEwmaMs?: number;
+	retirementReason?: "lifetime" | "max-tasks" | "resize";
+	/** True until initializeWorker settles; such workers take no tasks. */
+	initializing: boolean;
+	/** Settles with the initialization failure, if any, once it ends. */
+	initialization?: Promise<{ error: unknown } | undefined>;
+	settleInitialization?: (error?: unknown) => void;
+	/** Rejects broadcast calls still awaiting this worker. */
+	broadcasts?: Set<(error: unknown) => void>;
+	/** Affinity keys bound to this worker, dropped when it leaves the pool. */
+	affinityKeys?: Set<string>;
 	idleTimer?: ReturnType<typeof setTimeout>;
 	idleDeadline?: number;
 	lifetimeTimer?: ReturnType<typeof setTimeout>;
@@ -53,6 +65,22 @@ export function assertPositiveInteger(value: number, name: string): void {
 	}
 }
 
+export function assertPoolCapacity(
+	size: number,
+	maxConcurrentTasksPerWorker: number,
+): void {
+	assertPositiveInteger(size, "WorkerPool size");
+	assertPositiveInteger(
+		maxConcurrentTasksPerWorker,
+		"maxConcurrentTasksPerWorker",
+	);
+	if (!Number.isSafeInteger(size * maxConcurrentTasksPerWorker)) {
+		throw new RangeError(
+			"size * maxConcurrentTasksPerWorker must be a safe integer",
+		);
+	}
+}
+
 export function assertNonNegativeInteger(value: number, name: string): void {
 	if (!Number.isSafeInteger(value) || value < 0) {
 		throw new RangeError(`${name} must be a non-negative safe integer`);
@@ -0,0 +1,75 @@
+import type { WorkerMethodLimits } from "../WorkerPool";
+import {
+	assertNonNegativeInteger,
+	assertPositiveDuration,
+	assertPositiveInteger,
+	monotonicNow,
+} from "./lifecycle";
+import { TokenBucket, assertRateLimit } from "./rateLimit";
+
+/** Limits and counters tracked for one method name. */
+export interface MethodState {
+	limits: WorkerMethodLimits;
+	rateLimit?: TokenBucket;
+	runningTasks: number;
+	submittedTasks: number;
+	completedTasks: number;
+	failedTasks: number;
+}
+
+export function createMethodState(
+	limits: WorkerMethodLimits = {},
+): MethodState {
+	return {
+		limits,
+		rateLimit:
+			limits.rateLimit && new TokenBucket(limits.rateLimit, monotonicNow()),
+		runningTasks: 0,
+		submittedTasks: 0,
+		completedTasks: 0,
+		failedTasks: 0,
+	};
+}
+
+export function assertMethodLimits(methodLimits: unknown): void {
+	if (methodLimits === undefined) return;
+	if (typeof methodLimits !== "object" || methodLimits === null) {
+		throw new TypeError("methodLimits must be an object");
+	}
+	for (const [method, limits] of Object.entries(methodLimits)) {
+		const name = `methodLimits.${method}`;
+		if (typeof limits !== "object" || limits === null) {
+			throw new TypeError(`${name} must be an object`);
+		}
+		const {
+			maxConcurrent,
+			maxQueueSize,
+			taskTimeoutMs,
+			queueTimeoutMs,
+			rateLimit,
+		} = limits as WorkerMethodLimits;
+		if (maxConcurrent !== undefined) {
+			assertPositiveInteger(maxConcurrent, `${name}.maxConcurrent`);
+		}
+		if (maxQueueSize !== undefined) {
+			assertNonNegativeInteger(maxQueueSize, `${name}.maxQueueSize`);
+		}
+		assertPositiveDuration(
+			taskTimeoutMs === false ? undefined : taskTimeoutMs,
+			`${name}.taskTimeoutMs`,
+		);
+		assertPositiveDuration(
+			queueTimeoutMs === false ? undefined : queueTimeoutMs,
+			`${name}.queueTimeoutMs`,
+		);
+		assertRateLimit(rateLimit, `${name}.rateLimit`);
+	}
+}
+
+/** Applies an override where false disables the setting and undefined inherits it. */
+export function resolveDuration(
+	override: number | false | undefined,
+	inherited: number | undefined,
+): number | undefined {
+	return override === false ? undefined : (override ?? inherited);
+}
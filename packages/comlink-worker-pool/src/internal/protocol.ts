@@ -0,0 +1,42 @@
+/** Property under which exposePooled() publishes its control channel. */
+export const POOLED_WORKER_KEY = "__comlinkWorkerPool";
+
+/** Structured-clone-safe description of why the pool stopped waiting. */
+export interface PooledAbortReason {
+	name: string;
+	message: string;
+}
+
+/** Control surface shared by exposePooled() and WorkerPool. */
+export interface PooledWorkerControl {
+	/** heartbeat receives the worker's heartbeats when the call has an inactivity timeout. */
+	invoke(
+		taskId: number,
+		method: string,
+		args: unknown[],
+		heartbeat?: MessagePort,
+	): Promise<unknown>;
+	stream(
+		taskId: number,
+		method: string,
+		args: unknown[],
+		heartbeat?: MessagePort,
+	): Promise<void>;
+	next(taskId: number): Promise<IteratorResult<unknown>>;
+	return(taskId: number): Promise<void>;
+	abort(taskId: number, reason: PooledAbortReason): void;
+}
+
+export type PooledWorkerRemote = {
+	[POOLED_WORKER_KEY]: PooledWorkerControl;
+};
+
+export function toPooledAbortReason(reason: Error): PooledAbortReason {
+	return { name: reason.name, message: reason.message };
+}
+
+export function fromPooledAbortReason(reason: PooledAbortReason): Error {
+	const error = new Error(reason.message);
+	error.name = reason.name;
+	return error;
+}
@@ -0,0 +1,62 @@
+import type { WorkerRateLimit, WorkerRateLimitStats } from "../WorkerPool";
+import { assertPositiveDuration, assertPositiveInteger } from "./lifecycle";
+
+/**
+ * Token bucket refilled continuously at tokensPerInterval per intervalMs and
+ * capped at burst. Starting a task takes one whole token.
+ */
+export class TokenBucket {
+	private readonly capacity: number;
+	private readonly tokensPerMs: number;
+	private tokens: number;
+	private refilledAt: number;
+
+	constructor(limit: WorkerRateLimit, now: number) {
+		this.capacity = limit.burst ?? limit.tokensPerInterval;
+		this.tokensPerMs = limit.tokensPerInterval / limit.intervalMs;
+		this.tokens = this.capacity;
+		this.refilledAt = now;
+	}
+
+	/** Time until a whole token is available; 0 when one is available now. */
+	waitMs(now: number): number {
+		this.refill(now);
+		return this.tokens >= 1 ? 0 : (1 - this.tokens) / this.tokensPerMs;
+	}
+
+	take(now: number): void {
+		this.refill(now);
+		this.tokens = Math.max(0, this.tokens - 1);
+	}
+
+	getStats(now: number): WorkerRateLimitStats {
+		this.refill(now);
+		return {
+			tokens: this.tokens,
+			nextTokenInMs:
+				this.tokens >= this.capacity
+					? 0
+					: (1 - (this.tokens % 1)) / this.tokensPerMs,
+		};
+	}
+
+	private refill(now: number): void {
+		this.tokens = Math.min(
+			this.capacity,
+			this.tokens + Math.max(0, now - this.refilledAt) * this.tokensPerMs,
+		);
+		this.refilledAt = now;
+	}
+}
+
+export function assertRateLimit(rateLimit: unknown, name: string): void {
+	if (rateLimit === undefined) return;
+	if (typeof rateLimit !== "object" || rateLimit === null) {
+		throw new TypeError(`${name} must be an object`);
+	}
+	const { tokensPerInterval, intervalMs, burst } = rateLimit as WorkerRateLimit;
+	assertPositiveInteger(tokensPerInterval, `${name}.tokensPerInterval`);
+	// intervalMs is required, so a missing value fails like an invalid one.
+	assertPositiveDuration(intervalMs ?? Number.NaN, `${name}.intervalMs`);
+	if (burst !== undefined) assertPositiveInteger(burst, `${name}.burst`);
+}
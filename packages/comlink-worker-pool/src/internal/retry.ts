@@ -0,0 +1,61 @@
+import type { WorkerPoolTaskOutcome, WorkerRetryPolicy } from "../WorkerPool";
+import { assertFunction, assertPositiveInteger } from "./lifecycle";
+
+/** Outcomes that end an attempt on a worker and may therefore be retried. */
+export type RetryableOutcome = Extract<
+	WorkerPoolTaskOutcome,
+	"rejected" | "worker-failure" | "task-timeout"
+>;
+
+const DEFAULT_RETRY_OUTCOMES: ReadonlySet<WorkerPoolTaskOutcome> = new Set([
+	"worker-failure",
+	"task-timeout",
+]);
+
+export function assertRetryPolicy(
+	policy: WorkerRetryPolicy | false | undefined,
+): void {
+	if (policy === undefined || policy === false) return;
+	if (typeof policy !== "object" || policy === null) {
+		throw new TypeError("retry must be an object or false");
+	}
+	assertPositiveInteger(policy.maxAttempts, "retry.maxAttempts");
+	const { backoffMs, retryOn } = policy;
+	if (typeof backoffMs === "number") {
+		if (!Number.isFinite(backoffMs) || backoffMs < 0) {
+			throw new RangeError(
+				"retry.backoffMs must be a non-negative finite number",
+			);
+		}
+	} else if (backoffMs !== undefined) {
+		assertFunction(backoffMs, "retry.backoffMs");
+	}
+	if (retryOn !== undefined) assertFunction(retryOn, "retry.retryOn");
+}
+
+/**
+ * Returns the delay before the next attempt, or undefined when the failed
+ * attempt should settle. Throwing callbacks and invalid delays end retrying so
+ * the caller still receives the original failure.
+ */
+export function retryDelay(
+	policy: WorkerRetryPolicy | undefined,
+	attempt: number,
+	outcome: RetryableOutcome,
+	error: unknown,
+): number | undefined {
+	if (policy === undefined || attempt >= policy.maxAttempts) return undefined;
+	try {
+		const retryable = policy.retryOn
+			? policy.retryOn(outcome, error) === true
+			: DEFAULT_RETRY_OUTCOMES.has(outcome);
+		if (!retryable) return undefined;
+		const delayMs =
+			typeof policy.backoffMs === "function"
+				? policy.backoffMs(attempt)
+				: (policy.backoffMs ?? 0);
+		return Number.isFinite(delayMs) && delayMs >= 0 ? delayMs : undefined;
+	} catch {
+		return undefined;
+	}
+}
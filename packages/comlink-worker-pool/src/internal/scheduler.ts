@@ -1,4 +1,13 @@
-import type { QueueOverflowPolicy, Task } from "../WorkerPool";
+import type {
+	QueueOverflowStrategy,
+	Task,
+	WorkerHedgePolicy,
+	WorkerRetryPolicy,
+} from "../WorkerPool";
+import type { SharedCall } from "./dedupe";
+import type { PoolTaskHandle } from "./handle";
+import type { RetryableOutcome } from "./retry";
+import type { TaskStream } from "./stream";
 
 export interface ScheduledTask<TTask, TResult> extends Task<TTask, TResult> {
 	settled: boolean;
@@ -7,8 +16,54 @@ export interface ScheduledTask<TTask, TResult> extends Task<TTask, TResult> {
 	enqueuedAt: number;
 	startedAt?: number;
 	workerId?: number;
+	invoked?: boolean;
 	signal?: AbortSignal;
+	transfer?: Transferable[];
+	stream?: TaskStream<unknown>;
+	retry?: WorkerRetryPolicy;
+	/** Routes the task to the worker that last served the same key. */
+	affinityKey?: string;
+	/** Callers sharing this task, set when it was scheduled with a dedupe key. */
+	shared?: SharedCall<TResult>;
+	/** Result cache key, with the cache generation current at submission. */
+	cacheKey?: string;
+	cacheGeneration?: number;
+	/** Handles of submit() calls waiting on or running as this task. */
+	handles?: Set<PoolTaskHandle<TResult>>;
+	/** Starts a duplicate attempt when the current attempt runs long. */
+	hedge?: WorkerHedgePolicy;
+	hedgeTimer?: ReturnType<typeof setTimeout>;
+	/** Duplicate of the current attempt, while it runs. */
+	hedgeAttempt?: ScheduledTask<TTask, TResult>;
+	/** Set on a duplicate attempt; the task whose call it serves. */
+	hedgeOf?: ScheduledTask<TTask, TResult>;
+	/** Failure of an attempt that waits on its still-running duplicate. */
+	deferredFailure?: { reason: unknown; outcome: RetryableOutcome };
+	/** Set while the current attempt is a half-open circuit breaker probe. */
+	circuitProbe?: boolean;
+	/** Bounds the wait for queue space under the wait overflow policy. */
+	admissionTimeoutMs?: number;
+	/** Resolved execution deadline: call, method limit, then pool default. */
+	taskTimeoutMs?: number;
+	/** Turns taskTimeoutMs into a soft deadline with this grace period. */
+	taskTimeoutGraceMs?: number;
+	/** Set once the call was rejected at its soft deadline; the worker may still return. */
+	softTimedOut?: boolean;
+	/** Fails the attempt when its worker sends no heartbeat for this long. */
+	inactivityTimeoutMs?: number;
+	/** Heartbeat channel and inactivity deadline of the running attempt. */
+	activity?: { deadline: number; windowMs: number; port?: MessagePort };
+	/** Monotonic time after which the caller no longer wants the result. */
+	deadline?: number;
+	deadlineTimer?: ReturnType<typeof setTimeout>;
+	/** Orders equal priorities earliest first; set under earliestDeadlineFirst. */
+	dueAt?: number;
+	/** 1-based attempt number; retries keep the original sequence. */
+	attempt: number;
+	retryTimer?: ReturnType<typeof setTimeout>;
 	abortHandler?: () => void;
+	/** Bounds each wait in the queue, including a retry's. */
+	queueTimeoutMs?: number;
 	queueTimeout?: ReturnType<typeof setTimeout>;
 	queueDeadline?: number;
 	timeout?: ReturnType<typeof setTimeout>;
@@ -22,6 +77,29 @@ export interface QueueEviction<TTask, TResult> {
 	dropped: boolean;
 }
 
+/**
+ * A built-in overflow strategy, or a selector over the waiting tasks in start
+ * order that returns the task to evict; undefined rejects the submitted task.
+ */
+export type OverflowPolicy<TTask, TResult> =
+	| QueueOverflowStrategy
+	| ((
+			tasks: ScheduledTask<TTask, TResult>[],
+			submitted: ScheduledTask<TTask, TResult> | undefined,
+	  ) => ScheduledTask<TTask, TResult> | undefined);
+
+/** Queue operations overflow eviction needs from a lane or the whole queue. */
+interface EvictableQueue<TTask, TResult> {
+	contains(task: ScheduledTask<TTask, TResult>): boolean;
+	remove(task: ScheduledTask<TTask, TResult>): boolean;
+	tasks(): ScheduledTask<TTask, TResult>[];
+	oldestTask(): ScheduledTask<TTask, TResult> | undefined;
+	newestTask(
+		excluded?: ScheduledTask<TTask, TResult>,
+	): ScheduledTask<TTask, TResult> | undefined;
+	lowestPriorityTask(): ScheduledTask<TTask, TResult> | undefined;
+}
+
 const FIFO_QUEUE_INDEX = -2;
 
 /**
@@ -30,11 +108,15 @@ const FIFO_QUEUE_INDEX = -2;
  * Dual representation invariants:
  * - The linked list (`oldest`/`newest`) is authoritative in both FIFO and heap
  *   modes for enqueue order, drain order, oldest-age tracking, and overflow.
+ *   It stays sorted by `sequence`, so a retried task re-enters ahead of
+ *   later submissions.
  * - `items` is empty whenever `heapMode === false`. `promoteToHeap()` therefore
  *   pushes into an empty array, and `contains()` can gate its FIFO branch on
  *   `!heapMode` without consulting the heap.
  * - In heap mode, `queueIndex` mirrors membership in `items`; FIFO mode uses
  *   `FIFO_QUEUE_INDEX` so `remove`/`drain` can unlink without heap bookkeeping.
+ * - FIFO mode holds only tasks of one priority without a `dueAt`, for which
+ *   sequence order is start order.
  */
 export class SchedulerQueue<TTask, TResult> {
 	private readonly items: ScheduledTask<TTask, TResult>[] = [];
@@ -44,26 +126,27 @@ export class SchedulerQueue<TTask, TResult> {
 	private uniformPriority: number | undefined;
 	private heapMode = false;
 
-	get length(): number {
-		return this.queueSize;
-	}
-
 	insert(task: ScheduledTask<TTask, TResult>): void {
 		if (task.queueIndex !== -1) {
 			throw new Error("Scheduled task is already queued");
 		}
 
-		const previous = this.newest;
+		let previous = this.newest;
+		while (previous && previous.sequence > task.sequence) {
+			previous = previous.previousQueued;
+		}
+		const next = previous ? previous.nextQueued : this.oldest;
 		task.previousQueued = previous;
-		task.nextQueued = null;
+		task.nextQueued = next;
 		if (previous) previous.nextQueued = task;
 		else this.oldest = task;
-		this.newest = task;
+		if (next) next.previousQueued = task;
+		else this.newest = task;
 		this.queueSize++;
 
 		if (!this.heapMode) {
 			if (this.queueSize === 1) this.uniformPriority = task.priority;
-			if (task.priority === this.uniformPriority) {
+			if (task.priority === this.uniformPriority && task.dueAt === undefined) {
 				task.queueIndex = FIFO_QUEUE_INDEX;
 				return;
 			}
@@ -76,10 +159,66 @@ export class SchedulerQueue<TTask, TResult> {
 		this.siftUp(task.queueIndex);
 	}
 
-	shift(): ScheduledTask<TTask, TResult> | undefined {
-		const task = this.heapMode ? this.items[0] : (this.oldest ?? undefined);
-		if (task) this.remove(task);
-		return task;
+	/**
+	 * Returns the highest-priority waiting task accepted by canStart, without
+	 * removing it. The head is checked first, so the common case stays O(1).
+	 */
+	find(
+		canStart: (task: ScheduledTask<TTask, TResult>) => boolean,
+	): ScheduledTask<TTask, TResult> | undefined {
+		if (!this.heapMode) {
+			for (let task = this.oldest; task; task = task.nextQueued) {
+				if (canStart(task)) return task;
+			}
+			return undefined;
+		}
+		// Visit heap entries best-first; a skipped entry exposes its children.
+		const frontier = this.items.length > 0 ? [0] : [];
+		while (frontier.length > 0) {
+			let best = 0;
+			for (let index = 1; index < frontier.length; index++) {
+				if (precedes(this.items[frontier[index]], this.items[frontier[best]])) {
+					best = index;
+				}
+			}
+			const index = frontier[best];
+			frontier[best] = frontier[frontier.length - 1];
+			frontier.pop();
+			const task = this.items[index];
+			if (canStart(task)) return task;
+			for (const child of [index * 2 + 1, index * 2 + 2]) {
+				if (child < this.items.length) frontier.push(child);
+			}
+		}
+		return undefined;
+	}
+
+	oldestTask(): ScheduledTask<TTask, TResult> | undefined {
+		return this.oldest ?? undefined;
+	}
+
+	newestTask(
+		excluded?: ScheduledTask<TTask, TResult>,
+	): ScheduledTask<TTask, TResult> | undefined {
+		const newest =
+			this.newest === excluded ? this.newest?.previousQueued : this.newest;
+		return newest ?? undefined;
+	}
+
+	/** The task that would start last: lowest priority, newest among equals. */
+	lowestPriorityTask(): ScheduledTask<TTask, TResult> | undefined {
+		if (!this.heapMode) return this.newest ?? undefined;
+		// The lowest entry is a heap leaf.
+		let lowest: ScheduledTask<TTask, TResult> | undefined;
+		for (
+			let index = this.items.length >> 1;
+			index < this.items.length;
+			index++
+		) {
+			const task = this.items[index];
+			if (!lowest || precedes(lowest, task)) lowest = task;
+		}
+		return lowest;
 	}
 
 	contains(task: ScheduledTask<TTask, TResult>): boolean {
@@ -94,6 +233,25 @@ export class SchedulerQueue<TTask, TResult> {
 		return task.queueIndex >= 0 && this.items[task.queueIndex] === task;
 	}
 
+	/**
+	 * Moves a waiting task to a new priority in place: a heap entry sifts from
+	 * its index, and a FIFO queue switches to heap mode once priorities differ.
+	 */
+	setPriority(task: ScheduledTask<TTask, TResult>, priority: number): boolean {
+		if (!this.contains(task)) return false;
+		const previous = task.priority;
+		task.priority = priority;
+		if (!this.heapMode) {
+			if (this.queueSize === 1) this.uniformPriority = priority;
+			else if (priority !== this.uniformPriority) this.promoteToHeap();
+		} else if (priority > previous) {
+			this.siftUp(task.queueIndex);
+		} else {
+			this.siftDown(task.queueIndex);
+		}
+		return true;
+	}
+
 	remove(task: ScheduledTask<TTask, TResult>): boolean {
 		if (!this.contains(task)) return false;
 
@@ -103,14 +261,7 @@ export class SchedulerQueue<TTask, TResult> {
 			if (index < this.items.length) {
 				this.items[index] = last;
 				last.queueIndex = index;
-				const parentIndex = (index - 1) >> 1;
-				const parent = this.items[parentIndex];
-				if (
-					index > 0 &&
-					(last.priority > parent.priority ||
-						(last.priority === parent.priority &&
-							last.sequence < parent.sequence))
-				) {
+				if (index > 0 && precedes(last, this.items[(index - 1) >> 1])) {
 					this.siftUp(index);
 				} else {
 					this.siftDown(index);
@@ -161,24 +312,25 @@ export class SchedulerQueue<TTask, TResult> {
 		return this.oldest?.enqueuedAt ?? null;
 	}
 
+	/** Waiting tasks, oldest first. */
+	tasks(): ScheduledTask<TTask, TResult>[] {
+		const tasks: ScheduledTask<TTask, TResult>[] = [];
+		for (let task = this.oldest; task; task = task.nextQueued) tasks.push(task);
+		return tasks;
+	}
+
 	enforceLimit(
 		submitted: ScheduledTask<TTask, TResult>,
 		maxQueueSize: number,
-		policy: QueueOverflowPolicy,
+		policy: OverflowPolicy<TTask, TResult>,
 	): QueueEviction<TTask, TResult>[] {
-		const evictions: QueueEviction<TTask, TResult>[] = [];
-		while (this.queueSize > maxQueueSize) {
-			let rejected = submitted;
-			let dropped = false;
-			if (!this.contains(submitted) || policy === "drop-oldest") {
-				if (!this.oldest) break;
-				rejected = this.oldest;
-				dropped = policy === "drop-oldest";
-			}
-			if (!this.remove(rejected)) break;
-			evictions.push({ task: rejected, dropped });
-		}
-		return evictions;
+		return enforceLimit(
+			this,
+			() => this.queueSize,
+			submitted,
+			maxQueueSize,
+			policy,
+		);
 	}
 
 	private promoteToHeap(): void {
@@ -200,12 +352,7 @@ export class SchedulerQueue<TTask, TResult> {
 		while (index > 0) {
 			const parentIndex = (index - 1) >> 1;
 			const parent = this.items[parentIndex];
-			if (
-				parent.priority > task.priority ||
-				(parent.priority === task.priority && parent.sequence <= task.sequence)
-			) {
-				break;
-			}
+			if (!precedes(task, parent)) break;
 			this.items[index] = parent;
 			parent.queueIndex = index;
 			index = parentIndex;
@@ -224,20 +371,12 @@ export class SchedulerQueue<TTask, TResult> {
 			const rightIndex = childIndex + 1;
 			if (rightIndex < this.items.length) {
 				const right = this.items[rightIndex];
-				if (
-					right.priority > child.priority ||
-					(right.priority === child.priority && right.sequence < child.sequence)
-				) {
+				if (precedes(right, child)) {
 					childIndex = rightIndex;
 					child = right;
 				}
 			}
-			if (
-				task.priority > child.priority ||
-				(task.priority === child.priority && task.sequence <= child.sequence)
-			) {
-				break;
-			}
+			if (!precedes(child, task)) break;
 			this.items[index] = child;
 			child.queueIndex = index;
 			index = childIndex;
@@ -246,3 +385,328 @@ export class SchedulerQueue<TTask, TResult> {
 		task.queueIndex = index;
 	}
 }
+
+/**
+ * Evicts until the queue fits maxQueueSize. The policy picks a waiting task to
+ * drop; without a pick the submitted task is rejected, or the oldest task once
+ * the submitted one has already left the queue.
+ */
+function enforceLimit<TTask, TResult>(
+	queue: EvictableQueue<TTask, TResult>,
+	size: () => number,
+	submitted: ScheduledTask<TTask, TResult>,
+	maxQueueSize: number,
+	policy: OverflowPolicy<TTask, TResult>,
+): QueueEviction<TTask, TResult>[] {
+	const evictions: QueueEviction<TTask, TResult>[] = [];
+	while (size() > maxQueueSize) {
+		const queued = queue.contains(submitted) ? submitted : undefined;
+		const picked = pickEviction(queue, policy, queued);
+		const task = picked ?? queued ?? queue.oldestTask();
+		if (!task || !queue.remove(task)) break;
+		evictions.push({ task, dropped: picked !== undefined && task !== queued });
+	}
+	return evictions;
+}
+
+/** The waiting task a drop policy evicts, or undefined to reject instead. */
+function pickEviction<TTask, TResult>(
+	queue: EvictableQueue<TTask, TResult>,
+	policy: OverflowPolicy<TTask, TResult>,
+	submitted: ScheduledTask<TTask, TResult> | undefined,
+): ScheduledTask<TTask, TResult> | undefined {
+	if (typeof policy === "function") {
+		const tasks = queue
+			.tasks()
+			.sort((left, right) => (precedes(left, right) ? -1 : 1));
+		const task = policy(tasks, submitted);
+		return task && queue.contains(task) ? task : undefined;
+	}
+	switch (policy) {
+		case "drop-oldest":
+			return queue.oldestTask();
+		case "drop-newest":
+			return queue.newestTask(submitted);
+		case "drop-lowest-priority":
+			return queue.lowestPriorityTask();
+		default:
+			return undefined;
+	}
+}
+
+/** Start order: higher priority, then earlier dueAt, then submission order. */
+function precedes<TTask, TResult>(
+	left: ScheduledTask<TTask, TResult>,
+	right: ScheduledTask<TTask, TResult>,
+): boolean {
+	if (left.priority !== right.priority) return left.priority > right.priority;
+	const leftDue = left.dueAt ?? Number.POSITIVE_INFINITY;
+	const rightDue = right.dueAt ?? Number.POSITIVE_INFINITY;
+	if (leftDue !== rightDue) return leftDue < rightDue;
+	return left.sequence < right.sequence;
+}
+
+/**
+ * Waiting tasks split into one lane per limited method plus a shared lane.
+ * Each lane keeps SchedulerQueue ordering; peek() compares lane heads, so a
+ * method at its concurrency limit does not block other methods behind it.
+ * Pool-wide overflow treats all lanes as one queue ordered by sequence.
+ */
+export class MethodQueues<TTask extends { method: unknown }, TResult> {
+	private readonly shared = new SchedulerQueue<TTask, TResult>();
+	private readonly lanes = new Map<string, SchedulerQueue<TTask, TResult>>();
+	private readonly counts = new Map<string, number>();
+	private queueSize = 0;
+
+	constructor(limitedMethods: Iterable<string> = []) {
+		for (const method of limitedMethods) {
+			this.lanes.set(method, new SchedulerQueue());
+		}
+	}
+
+	get length(): number {
+		return this.queueSize;
+	}
+
+	/** Number of waiting tasks for one method. */
+	lengthOf(method: string): number {
+		return this.counts.get(method) ?? 0;
+	}
+
+	insert(task: ScheduledTask<TTask, TResult>): void {
+		this.laneOf(task).insert(task);
+		const method = String(task.task.method);
+		this.counts.set(method, this.lengthOf(method) + 1);
+		this.queueSize++;
+	}
+
+	contains(task: ScheduledTask<TTask, TResult>): boolean {
+		return this.laneOf(task).contains(task);
+	}
+
+	remove(task: ScheduledTask<TTask, TResult>): boolean {
+		if (!this.laneOf(task).remove(task)) return false;
+		this.uncount(task);
+		return true;
+	}
+
+	setPriority(task: ScheduledTask<TTask, TResult>, priority: number): boolean {
+		return this.laneOf(task).setPriority(task, priority);
+	}
+
+	/**
+	 * Returns the highest-priority waiting task that may start now, without
+	 * removing it. Lanes of methods at their limit are skipped as a whole.
+	 */
+	peek(
+		canStartMethod: (method: string) => boolean,
+		canStartTask: (task: ScheduledTask<TTask, TResult>) => boolean,
+	): ScheduledTask<TTask, TResult> | undefined {
+		let best = this.shared.find(canStartTask);
+		for (const [method, lane] of this.lanes) {
+			if (!canStartMethod(method)) continue;
+			const candidate = lane.find(canStartTask);
+			if (candidate && (!best || precedes(candidate, best))) best = candidate;
+		}
+		return best;
+	}
+
+	/** Removes every waiting task of a method that has its own lane, oldest first. */
+	drainMethod(method: string): ScheduledTask<TTask, TResult>[] {
+		const tasks = this.lanes.get(method)?.drain() ?? [];
+		this.counts.delete(method);
+		this.queueSize -= tasks.length;
+		return tasks;
+	}
+
+	/** Every waiting task in priority order, ignoring method limits. */
+	tasks(): ScheduledTask<TTask, TResult>[] {
+		const tasks = this.shared.tasks();
+		for (const lane of this.lanes.values()) tasks.push(...lane.tasks());
+		// Sequences are unique, so no two tasks compare equal.
+		return tasks.sort((left, right) => (precedes(left, right) ? -1 : 1));
+	}
+
+	/** Removes every waiting task, oldest first. */
+	drain(): ScheduledTask<TTask, TResult>[] {
+		const tasks = this.shared.drain();
+		for (const lane of this.lanes.values()) tasks.push(...lane.drain());
+		if (this.lanes.size > 0) {
+			tasks.sort((left, right) => left.sequence - right.sequence);
+		}
+		this.counts.clear();
+		this.queueSize = 0;
+		return tasks;
+	}
+
+	oldestEnqueuedAt(): number | null {
+		let oldest = this.shared.oldestEnqueuedAt();
+		for (const lane of this.lanes.values()) {
+			const enqueuedAt = lane.oldestEnqueuedAt();
+			if (enqueuedAt !== null && (oldest === null || enqueuedAt < oldest)) {
+				oldest = enqueuedAt;
+			}
+		}
+		return oldest;
+	}
+
+	/** Applies a method's own queue limit within its lane. */
+	enforceMethodLimit(
+		submitted: ScheduledTask<TTask, TResult>,
+		maxQueueSize: number,
+		policy: OverflowPolicy<TTask, TResult>,
+	): QueueEviction<TTask, TResult>[] {
+		const evictions = this.laneOf(submitted).enforceLimit(
+			submitted,
+			maxQueueSize,
+			policy,
+		);
+		for (const { task } of evictions) this.uncount(task);
+		return evictions;
+	}
+
+	enforceLimit(
+		submitted: ScheduledTask<TTask, TResult>,
+		maxQueueSize: number,
+		policy: OverflowPolicy<TTask, TResult>,
+	): QueueEviction<TTask, TResult>[] {
+		return enforceLimit(
+			this,
+			() => this.queueSize,
+			submitted,
+			maxQueueSize,
+			policy,
+		);
+	}
+
+	/**
+	 * Evicts waiting tasks until the queue fits a lowered limit: those a drop
+	 * policy picks, otherwise the newest, as if they had arrived after the limit.
+	 */
+	trimTo(
+		maxQueueSize: number,
+		policy: OverflowPolicy<TTask, TResult>,
+	): QueueEviction<TTask, TResult>[] {
+		const evictions: QueueEviction<TTask, TResult>[] = [];
+		while (this.queueSize > maxQueueSize) {
+			const picked = pickEviction(this, policy, undefined);
+			const task = (picked ?? this.newestTask()) as ScheduledTask<
+				TTask,
+				TResult
+			>;
+			this.remove(task);
+			evictions.push({ task, dropped: picked !== undefined });
+		}
+		return evictions;
+	}
+
+	oldestTask(): ScheduledTask<TTask, TResult> | undefined {
+		return this.edgeTask("oldest");
+	}
+
+	newestTask(
+		excluded?: ScheduledTask<TTask, TResult>,
+	): ScheduledTask<TTask, TResult> | undefined {
+		return this.edgeTask("newest", excluded);
+	}
+
+	/** The waiting task that would start last across all lanes. */
+	lowestPriorityTask(): ScheduledTask<TTask, TResult> | undefined {
+		let lowest = this.shared.lowestPriorityTask();
+		for (const lane of this.lanes.values()) {
+			const task = lane.lowestPriorityTask();
+			if (task && (!lowest || precedes(lowest, task))) lowest = task;
+		}
+		return lowest;
+	}
+
+	private laneOf(
+		task: ScheduledTask<TTask, TResult>,
+	): SchedulerQueue<TTask, TResult> {
+		return this.lanes.get(String(task.task.method)) ?? this.shared;
+	}
+
+	private uncount(task: ScheduledTask<TTask, TResult>): void {
+		const method = String(task.task.method);
+		const remaining = this.lengthOf(method) - 1;
+		if (remaining > 0) this.counts.set(method, remaining);
+		else this.counts.delete(method);
+		this.queueSize--;
+	}
+
+	/** Oldest or newest waiting task across all lanes, by sequence. */
+	private edgeTask(
+		edge: "oldest" | "newest",
+		excluded?: ScheduledTask<TTask, TResult>,
+	): ScheduledTask<TTask, TResult> | undefined {
+		let found =
+			edge === "oldest"
+				? this.shared.oldestTask()
+				: this.shared.newestTask(excluded);
+		for (const lane of this.lanes.values()) {
+			const task =
+				edge === "oldest" ? lane.oldestTask() : lane.newestTask(excluded);
+			if (
+				task &&
+				(!found ||
+					(edge === "oldest"
+						? task.sequence < found.sequence
+						: task.sequence > found.sequence))
+			) {
+				found = task;
+			}
+		}
+		return found;
+	}
+}
+
+/**
+ * Calls held back by the wait overflow policy until the queue has room, in
+ * priority/FIFO order. Tasks here are outside every SchedulerQueue, so their
+ * queueIndex stays -1.
+ */
+export class AdmissionQueue<TTask, TResult> {
+	private readonly waiting: ScheduledTask<TTask, TResult>[] = [];
+
+	get length(): number {
+		return this.waiting.length;
+	}
+
+	insert(task: ScheduledTask<TTask, TResult>): void {
+		let low = 0;
+		let high = this.waiting.length;
+		while (low < high) {
+			const middle = (low + high) >> 1;
+			if (precedes(this.waiting[middle], task)) low = middle + 1;
+			else high = middle;
+		}
+		this.waiting.splice(low, 0, task);
+	}
+
+	contains(task: ScheduledTask<TTask, TResult>): boolean {
+		return this.waiting.includes(task);
+	}
+
+	remove(task: ScheduledTask<TTask, TResult>): boolean {
+		const index = this.waiting.indexOf(task);
+		if (index === -1) return false;
+		this.waiting.splice(index, 1);
+		return true;
+	}
+
+	setPriority(task: ScheduledTask<TTask, TResult>, priority: number): boolean {
+		if (!this.remove(task)) return false;
+		task.priority = priority;
+		this.insert(task);
+		return true;
+	}
+
+	/** Waiting tasks in admission order. */
+	tasks(): ScheduledTask<TTask, TResult>[] {
+		return [...this.waiting];
+	}
+
+	drain(): ScheduledTask<TTask, TResult>[] {
+		return this.waiting.splice(0);
+	}
+}
@@ -0,0 +1,138 @@
+import type { WorkerSelectionStrategy } from "../WorkerPool";
+
+/** Weight of the newest sample in a worker's latency average. */
+export const LATENCY_EWMA_WEIGHT = 0.3;
+
+const STRATEGIES: readonly WorkerSelectionStrategy[] = [
+	"least-loaded",
+	"round-robin",
+	"random-two-choices",
+	"ewma-latency",
+];
+
+/** The parts of a worker that selection strategies read. */
+export interface SelectableWorker {
+	id: number;
+	activeTasks: ReadonlySet<{ readonly startedAt?: number }>;
+	/** Exponentially weighted execution time, once a task has finished. */
+	latencyEwmaMs?: number;
+}
+
+/** What a pick may depend on besides the candidates themselves. */
+export interface SelectionContext {
+	/** Last worker chosen, which round-robin continues after. */
+	previousId: number;
+	/** Monotonic time that running tasks are measured against. */
+	now: number;
+	/** Every worker in the pool, whose averages estimate unsampled workers. */
+	workers: readonly SelectableWorker[];
+}
+
+/** Picks one of the non-empty candidates. */
+export function selectWorker<TWorker extends SelectableWorker>(
+	strategy: WorkerSelectionStrategy,
+	candidates: readonly TWorker[],
+	{ previousId, now, workers }: SelectionContext,
+): TWorker {
+	switch (strategy) {
+		case "round-robin": {
+			let next: TWorker | undefined;
+			let first = candidates[0];
+			for (const worker of candidates) {
+				if (worker.id < first.id) first = worker;
+				if (worker.id > previousId && (!next || worker.id < next.id)) {
+					next = worker;
+				}
+			}
+			return next ?? first;
+		}
+		case "random-two-choices": {
+			if (candidates.length === 1) return candidates[0];
+			const left = Math.floor(Math.random() * candidates.length);
+			let right = Math.floor(Math.random() * (candidates.length - 1));
+			if (right >= left) right++;
+			return candidates[right].activeTasks.size <
+				candidates[left].activeTasks.size
+				? candidates[right]
+				: candidates[left];
+		}
+		case "ewma-latency": {
+			const fallbackMs = meanLatency(workers);
+			// Expected wait grows with the queue ahead of the task. A task running
+			// longer than the worker's average raises the estimate, so a worker
+			// stuck on a slow task loses picks before it records a sample.
+			return pickLowest(
+				candidates,
+				(worker) =>
+					Math.max(
+						worker.latencyEwmaMs ?? fallbackMs,
+						longestRunningMs(worker, now),
+					) *
+					(worker.activeTasks.size + 1),
+			);
+		}
+		default:
+			return pickLowest(candidates, (worker) => worker.activeTasks.size);
+	}
+}
+
+/** Folds a finished task's execution time into the worker's average. */
+export function recordWorkerLatency(
+	worker: SelectableWorker,
+	latencyMs: number,
+): void {
+	worker.latencyEwmaMs =
+		worker.latencyEwmaMs === undefined
+			? latencyMs
+			: worker.latencyEwmaMs +
+				LATENCY_EWMA_WEIGHT * (latencyMs - worker.latencyEwmaMs);
+}
+
+export function assertWorkerSelection(strategy: unknown): void {
+	if (
+		strategy !== undefined &&
+		!STRATEGIES.includes(strategy as WorkerSelectionStrategy)
+	) {
+		throw new RangeError(
+			`workerSelection must be one of ${STRATEGIES.map((name) => `"${name}"`).join(", ")}`,
+		);
+	}
+}
+
+/** Pool-wide mean of the sampled averages, the estimate for unsampled workers. */
+function meanLatency(workers: readonly SelectableWorker[]): number {
+	let total = 0;
+	let sampled = 0;
+	for (const { latencyEwmaMs } of workers) {
+		if (latencyEwmaMs === undefined) continue;
+		total += latencyEwmaMs;
+		sampled++;
+	}
+	return sampled === 0 ? 0 : total / sampled;
+}
+
+/** Time the worker's oldest running task has spent so far. */
+function longestRunningMs(worker: SelectableWorker, now: number): number {
+	let longest = 0;
+	for (const { startedAt } of worker.activeTasks) {
+		if (startedAt !== undefined) longest = Math.max(longest, now - startedAt);
+	}
+	return longest;
+}
+
+/** First candidate with the lowest cost; ties keep pool order. */
+function pickLowest<TWorker>(
+	candidates: readonly TWorker[],
+	cost: (worker: TWorker) => number,
+): TWorker {
+	let best = candidates[0];
+	let bestCost = cost(best);
+	for (let index = 1; index < candidates.length; index++) {
+		const candidateCost = cost(candidates[index]);
+		if (candidateCost < bestCost) {
+			best = candidates[index];
+			bestCost = candidateCost;
+		}
+	}
+	return best;
+}
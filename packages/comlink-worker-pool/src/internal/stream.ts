@@ -0,0 +1,128 @@
+/** Pull-based source of streamed values, local or behind the pooled protocol. */
+export interface StreamSource {
+	next(): Promise<IteratorResult<unknown>> | IteratorResult<unknown>;
+	return?(): unknown;
+}
+
+function isObjectLike(value: unknown): value is object {
+	return (
+		value !== null && (typeof value === "object" || typeof value === "function")
+	);
+}
+
+/**
+ * Normalizes a worker method result into a stream source. Async iterables and
+ * iterators (such as generators) are iterated; any other value is yielded once.
+ */
+export function toStreamSource(value: unknown): StreamSource {
+	if (isObjectLike(value)) {
+		const asyncIterator = (value as Partial<AsyncIterable<unknown>>)[
+			Symbol.asyncIterator
+		];
+		if (typeof asyncIterator === "function") {
+			return Reflect.apply(asyncIterator, value, []) as StreamSource;
+		}
+		const next = (value as Partial<Iterator<unknown>>).next;
+		if (typeof next === "function" && Symbol.iterator in value) {
+			return value as unknown as StreamSource;
+		}
+	}
+	let yielded = false;
+	return {
+		next: () => {
+			if (yielded) return { done: true, value: undefined };
+			yielded = true;
+			return { done: false, value };
+		},
+	};
+}
+
+/**
+ * Consumer side of a streamed task. Values are buffered one step ahead of the
+ * consumer; the producer waits in ready() until the buffer drains.
+ */
+export class TaskStream<T> implements AsyncIterableIterator<T> {
+	private readonly buffered: T[] = [];
+	private readonly consumers: {
+		resolve: (result: IteratorResult<T>) => void;
+		reject: (reason: unknown) => void;
+	}[] = [];
+	private readonly producers: (() => void)[] = [];
+	private finished = false;
+	private failure: { reason: unknown } | undefined;
+	onCancel?: () => void;
+
+	push(value: T): void {
+		if (this.finished) return;
+		const consumer = this.consumers.shift();
+		if (consumer) consumer.resolve({ done: false, value });
+		else this.buffered.push(value);
+	}
+
+	end(): void {
+		if (this.finished) return;
+		this.finished = true;
+		this.flush();
+	}
+
+	fail(reason: unknown): void {
+		if (this.finished) return;
+		this.finished = true;
+		this.failure = { reason };
+		this.flush();
+	}
+
+	/** Resolves once the consumer has taken every buffered value or left. */
+	ready(): Promise<void> {
+		if (this.finished || this.buffered.length === 0) return Promise.resolve();
+		return new Promise((resolve) => this.producers.push(resolve));
+	}
+
+	next(): Promise<IteratorResult<T>> {
+		if (this.buffered.length > 0) {
+			const value = this.buffered.shift() as T;
+			if (this.buffered.length === 0) this.releaseProducers();
+			return Promise.resolve({ done: false, value });
+		}
+		if (this.failure) {
+			const { reason } = this.failure;
+			this.failure = undefined;
+			return Promise.reject(reason);
+		}
+		if (this.finished) return Promise.resolve({ done: true, value: undefined });
+		return new Promise((resolve, reject) => {
+			this.consumers.push({ resolve, reject });
+		});
+	}
+
+	return(): Promise<IteratorResult<T>> {
+		if (!this.finished) {
+			this.onCancel?.();
+			this.end();
+		}
+		this.buffered.length = 0;
+		this.failure = undefined;
+		this.releaseProducers();
+		return Promise.resolve({ done: true, value: undefined });
+	}
+
+	[Symbol.asyncIterator](): AsyncIterableIterator<T> {
+		return this;
+	}
+
+	private flush(): void {
+		for (const consumer of this.consumers.splice(0)) {
+			if (this.failure) {
+				consumer.reject(this.failure.reason);
+				this.failure = undefined;
+			} else {
+				consumer.resolve({ done: true, value: undefined });
+			}
+		}
+		this.releaseProducers();
+	}
+
+	private releaseProducers(): void {
+		for (const resolve of this.producers.splice(0)) resolve();
+	}
+}
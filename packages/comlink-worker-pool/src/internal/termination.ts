@@ -39,6 +39,11 @@ export class TerminationController {
 		return this.failureCount;
 	}
 
+	/** Quarantined workers in removal order. */
+	quarantined(): TerminationRecord[] {
+		return [...this.records.values()];
+	}
+
 	allExhausted(): boolean {
 		for (const record of this.records.values()) {
 			if (!record.exhausted) return false;
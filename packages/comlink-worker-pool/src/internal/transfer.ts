@@ -0,0 +1,41 @@
+import { transfer } from "comlink";
+import type { TransferDetector } from "../WorkerPool";
+
+/** Resolves a per-call transfer list or detector into a validated array. */
+export function resolveTransferables(
+	args: readonly unknown[],
+	source: readonly Transferable[] | TransferDetector | undefined,
+	requireCarrier: boolean,
+): Transferable[] | undefined {
+	if (source === undefined) return undefined;
+	const transferables = typeof source === "function" ? source(args) : source;
+	if (!Array.isArray(transferables)) {
+		throw new TypeError("transfer must be an array or return an array");
+	}
+	if (transferables.length === 0) return undefined;
+	if (requireCarrier && !args.some(isTransferCarrier)) {
+		throw new TypeError(
+			"transfer requires at least one object argument to carry the transfer list",
+		);
+	}
+	return [...new Set(transferables)];
+}
+
+/**
+ * Registers the transfer list with Comlink. Comlink looks transfer lists up per
+ * top-level argument, so the full list rides on the first object argument.
+ */
+export function attachTransferables(
+	args: readonly unknown[],
+	transferables: Transferable[] | undefined,
+): void {
+	if (transferables === undefined) return;
+	const carrier = args.find(isTransferCarrier);
+	if (carrier !== undefined) transfer(carrier, transferables);
+}
+
+function isTransferCarrier(value: unknown): value is object {
+	return (
+		value !== null && (typeof value === "object" || typeof value === "function")
+	);
+}
@@ -0,0 +1,67 @@
+import type { TransferDetector } from "./WorkerPool";
+
+const TRANSFERABLE_CONSTRUCTOR_NAMES = [
+	"MessagePort",
+	"ImageBitmap",
+	"OffscreenCanvas",
+	"ReadableStream",
+	"WritableStream",
+	"TransformStream",
+	"VideoFrame",
+	"AudioData",
+	"RTCDataChannel",
+] as const;
+
+function isTransferableHostObject(value: object): boolean {
+	const scope = globalThis as Record<string, unknown>;
+	for (const name of TRANSFERABLE_CONSTRUCTOR_NAMES) {
+		const hostType = scope[name];
+		if (typeof hostType === "function" && value instanceof hostType) {
+			return true;
+		}
+	}
+	return false;
+}
+
+function isTransferableBuffer(value: unknown): value is ArrayBuffer {
+	// Transferring an already detached buffer throws a DataCloneError.
+	return (
+		value instanceof ArrayBuffer &&
+		(value as ArrayBuffer & { detached?: boolean }).detached !== true
+	);
+}
+
+/**
+ * Collects transferable objects reachable from arrays, plain objects, Maps, and
+ * Sets. Typed arrays contribute their whole underlying ArrayBuffer, so every
+ * other view over that buffer is detached once the call is dispatched.
+ */
+export const detectTransferables: TransferDetector = (values) => {
+	const found = new Set<Transferable>();
+	const visited = new WeakSet<object>();
+	const pending: unknown[] = [...values];
+	while (pending.length > 0) {
+		const value = pending.pop();
+		if (value === null || typeof value !== "object" || visited.has(value)) {
+			continue;
+		}
+		visited.add(value);
+		if (isTransferableBuffer(value)) {
+			found.add(value);
+		} else if (ArrayBuffer.isView(value)) {
+			if (isTransferableBuffer(value.buffer)) found.add(value.buffer);
+		} else if (isTransferableHostObject(value)) {
+			found.add(value as Transferable);
+		} else if (Array.isArray(value) || value instanceof Set) {
+			for (const entry of value) pending.push(entry);
+		} else if (value instanceof Map) {
+			for (const [key, entry] of value) pending.push(key, entry);
+		} else {
+			const prototype = Object.getPrototypeOf(value);
+			if (prototype === Object.prototype || prototype === null) {
+				for (const entry of Object.values(value)) pending.push(entry);
+			}
+		}
+	}
+	return [...found];
+};
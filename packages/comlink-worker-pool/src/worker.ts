@@ -0,0 +1,150 @@
+import { type Endpoint, expose, transfer } from "comlink";
+import { assertPositiveDuration } from "./internal/lifecycle";
+import {
+	POOLED_WORKER_KEY,
+	type PooledAbortReason,
+	type PooledWorkerControl,
+	fromPooledAbortReason,
+} from "./internal/protocol";
+import { type StreamSource, toStreamSource } from "./internal/stream";
+import { detectTransferables } from "./transfer";
+
+export { detectTransferables } from "./transfer";
+export type { TransferDetector } from "./WorkerPool";
+
+// Streamed steps are wrapped before posting, so transfer lists are re-attached.
+const resultTransfers = new WeakMap<object, Transferable[]>();
+
+/**
+ * Marks a worker method's return value, or a streamed value, for transfer back
+ * to the pool owner. Without an explicit list, transferables are detected in
+ * the value itself.
+ */
+export function transferResult<T>(
+	value: T,
+	transferables: Transferable[] = detectTransferables([value]),
+): T {
+	if (
+		value === null ||
+		(typeof value !== "object" && typeof value !== "function")
+	) {
+		return value;
+	}
+	resultTransfers.set(value, transferables);
+	return transfer(value, transferables);
+}
+
+/** Per-call context bound as `this` for methods exposed with exposePooled(). */
+export interface PooledTaskContext {
+	/**
+	 * Matches the taskId reported by WorkerPool events. Broadcast calls have no
+	 * task and use negative ids instead.
+	 */
+	readonly taskId: number;
+	/** Aborted when the caller aborts, the task times out, or the pool closes. */
+	readonly signal: AbortSignal;
+	/**
+	 * Reports progress, postponing the call's inactivity timeout. timeoutMs
+	 * sets how long until the next heartbeat is due instead of the pool's
+	 * inactivityTimeoutMs. Does nothing for calls without an inactivity timeout.
+	 */
+	heartbeat(timeoutMs?: number): void;
+}
+
+/**
+ * Exposes an API for a pool created with `pooledWorkers: true`.
+ *
+ * Each pooled call runs with a context whose prototype is the API object, so
+ * methods can still reach sibling members through `this` while reading
+ * `this.signal` and `this.taskId` or calling `this.heartbeat()`. Methods
+ * called through WorkerPool.stream() may return an async iterable or
+ * generator; the pool pulls one value at a time. Direct Comlink calls keep
+ * working unchanged.
+ */
+export function exposePooled(api: object, endpoint?: Endpoint): void {
+	const controllers = new Map<number, AbortController>();
+	const streams = new Map<number, StreamSource>();
+	const heartbeats = new Map<number, MessagePort>();
+	const start = (
+		taskId: number,
+		method: string,
+		args: unknown[],
+		port: MessagePort | undefined,
+	) => {
+		const target: unknown = Reflect.get(api, method);
+		if (typeof target !== "function") {
+			throw new TypeError(`Pooled worker method ${method} is not a function`);
+		}
+		const controller = new AbortController();
+		controllers.set(taskId, controller);
+		if (port) heartbeats.set(taskId, port);
+		const heartbeat = (timeoutMs?: number) => {
+			assertPositiveDuration(timeoutMs, "timeoutMs");
+			heartbeats.get(taskId)?.postMessage(timeoutMs);
+		};
+		const context: PooledTaskContext = Object.create(api, {
+			taskId: { value: taskId },
+			signal: { value: controller.signal },
+			heartbeat: { value: heartbeat },
+		});
+		return Reflect.apply(target, context, args) as unknown;
+	};
+	const finish = (taskId: number) => {
+		controllers.delete(taskId);
+		streams.delete(taskId);
+		heartbeats.get(taskId)?.close();
+		heartbeats.delete(taskId);
+	};
+	const control: PooledWorkerControl = {
+		async invoke(taskId, method, args, heartbeat) {
+			try {
+				return await start(taskId, method, args, heartbeat);
+			} finally {
+				finish(taskId);
+			}
+		},
+		async stream(taskId, method, args, heartbeat) {
+			try {
+				streams.set(
+					taskId,
+					toStreamSource(await start(taskId, method, args, heartbeat)),
+				);
+			} catch (error) {
+				finish(taskId);
+				throw error;
+			}
+		},
+		async next(taskId) {
+			const source = streams.get(taskId);
+			if (!source) return { done: true, value: undefined };
+			let step: IteratorResult<unknown>;
+			try {
+				step = await source.next();
+			} catch (error) {
+				finish(taskId);
+				throw error;
+			}
+			if (step.done) {
+				finish(taskId);
+				return step;
+			}
+			const transferables =
+				step.value !== null && typeof step.value === "object"
+					? resultTransfers.get(step.value)
+					: undefined;
+			return transferables ? transfer(step, transferables) : step;
+		},
+		async return(taskId) {
+			const source = streams.get(taskId);
+			finish(taskId);
+			await source?.return?.();
+		},
+		abort(taskId: number, reason: PooledAbortReason) {
+			controllers.get(taskId)?.abort(fromPooledAbortReason(reason));
+		},
+	};
+	expose(
+		Object.create(api, { [POOLED_WORKER_KEY]: { value: control } }),
+		endpoint,
+	);
+}
@@ -12,7 +12,6 @@ const MAX_LOG_ENTRIES = 80;
 
 interface PoolConfig {
 	concurrency: number;
-	revision: number;
 	size: number;
 }
 
@@ -25,6 +24,7 @@ interface LogEntry {
 interface BatchState {
 	completed: number;
 	failed: number;
+	progress: number;
 	status: "idle" | "running" | "completed" | "error";
 }
 
@@ -52,9 +52,23 @@ function describeEvent(event: WorkerPoolEvent): string {
 		case "task-started":
 			return `#${event.taskId} started on worker ${event.workerId} after ${Math.round(event.queueWaitMs)} ms`;
 		case "task-settled":
-			return `#${event.taskId} ${event.outcome} in ${Math.round(event.durationMs)} ms`;
+			return `#${event.taskId} ${event.outcome} in ${Math.round(event.durationMs)} ms${event.callers > 1 ? ` for ${event.callers} callers` : ""}`;
+		case "task-retried":
+			return `#${event.taskId} ${event.outcome}; retrying as attempt ${event.attempt} in ${Math.round(event.delayMs)} ms`;
+		case "task-hedged":
+			return `#${event.taskId} hedged on worker ${event.workerId} after ${Math.round(event.delayMs)} ms`;
+		case "task-soft-timeout":
+			return `#${event.taskId} timed out on worker ${event.workerId}; ${event.graceMs} ms grace`;
+		case "task-soft-timeout-returned":
+			return `#${event.taskId} ${event.outcome} on worker ${event.workerId} ${Math.round(event.overrunMs)} ms past its timeout`;
+		case "concurrency-changed":
+			return `concurrency limit ${event.previousLimit} to ${event.limit}: ${event.reason}`;
+		case "circuit-state-changed":
+			return `${event.method} circuit ${event.state}`;
 		case "worker-created":
 			return `worker ${event.workerId} created`;
+		case "worker-init-failed":
+			return `worker ${event.workerId} failed to initialize: ${event.reason}`;
 		case "worker-removed":
 			return `worker ${event.workerId} removed: ${event.reason}`;
 		case "worker-termination-failed":
@@ -65,7 +79,6 @@ function describeEvent(event: WorkerPoolEvent): string {
 function App() {
 	const [config, setConfig] = useState<PoolConfig>({
 		concurrency: 1,
-		revision: 0,
 		size: DEFAULT_POOL_SIZE,
 	});
 	const [draftConcurrency, setDraftConcurrency] = useState(1);
@@ -81,6 +94,7 @@ function App() {
 	const [batch, setBatch] = useState<BatchState>({
 		completed: 0,
 		failed: 0,
+		progress: 0,
 		status: "idle",
 	});
 	const batchGenerationRef = useRef(0);
@@ -102,15 +116,15 @@ function App() {
 		[appendLog],
 	);
 
-	const pool = useWorkerPool<WorkerApi>({
+	const pool = useWorkerPool<Comlink.Remote<WorkerApi>>({
 		maxConcurrentTasksPerWorker: config.concurrency,
 		maxQueueSize: 48,
 		onEvent: handleEvent,
 		onUpdateStats: setStats,
 		poolSize: config.size,
+		pooledWorkers: true,
 		proxyFactory,
 		queueTimeoutMs: 5_000,
-		reconfigureKey: config.revision,
 		taskTimeoutMs: 30_000,
 		workerFactory,
 		workerIdleTimeoutMs: 30_000,
@@ -144,20 +158,11 @@ function App() {
 		event.preventDefault();
 		const size = Math.max(1, Math.min(16, Math.round(draftSize)));
 		const concurrency = Math.max(1, Math.min(8, Math.round(draftConcurrency)));
-		++batchGenerationRef.current;
 		setDraftSize(size);
 		setDraftConcurrency(concurrency);
-		setStats(null);
-		setBatch({ completed: 0, failed: 0, status: "idle" });
-		setConfig((current) => ({
-			concurrency,
-			revision: current.revision + 1,
-			size,
-		}));
-		appendLog(
-			"lifecycle",
-			`pool configuration applied: ${size} x ${concurrency}`,
-		);
+		// The hook resizes the live pool, so running batches keep going.
+		setConfig({ concurrency, size });
+		appendLog("lifecycle", `pool resized: ${size} x ${concurrency}`);
 	};
 
 	const runFibonacci = () => {
@@ -173,28 +178,47 @@ function App() {
 	};
 
 	const runBatch = async () => {
-		const api = pool.api;
-		if (!api) return;
+		if (!pool.api) return;
 		const generation = ++batchGenerationRef.current;
 		const taskTotal = Math.max(1, Math.min(40, Math.round(batchCount)));
 		const delayMs = Math.max(0, Math.min(5_000, Math.round(batchDelay)));
 		setBatchCount(taskTotal);
 		setBatchDelay(delayMs);
-		setBatch({ completed: 0, failed: 0, status: "running" });
-		const calls = Array.from({ length: taskTotal }, (_, index) =>
-			api.delayedTransform(`task-${index + 1}`, delayMs),
+		setBatch({ completed: 0, failed: 0, progress: 0, status: "running" });
+		const fractions = new Array<number>(taskTotal).fill(0);
+		let completed = 0;
+		let failed = 0;
+		const publish = (status: BatchState["status"]) => {
+			if (batchGenerationRef.current !== generation) return;
+			const settled = fractions.reduce((sum, fraction) => sum + fraction, 0);
+			setBatch({
+				completed,
+				failed,
+				progress: Math.round((settled / taskTotal) * 100),
+				status,
+			});
+		};
+		// Each task streams its progress, so counters move as items finish.
+		await Promise.all(
+			fractions.map(async (_, index) => {
+				try {
+					for await (const update of pool.stream("delayedTransformProgress", [
+						`task-${index + 1}`,
+						delayMs,
+					])) {
+						fractions[index] = update.fraction;
+						publish("running");
+					}
+					completed++;
+				} catch {
+					failed++;
+				}
+				fractions[index] = 1;
+				publish("running");
+			}),
 		);
-		const settled = await Promise.allSettled(calls);
 		if (batchGenerationRef.current !== generation) return;
-		const completed = settled.filter(
-			(result) => result.status === "fulfilled",
-		).length;
-		const failed = settled.length - completed;
-		setBatch({
-			completed,
-			failed,
-			status: failed > 0 ? "error" : "completed",
-		});
+		publish(failed > 0 ? "error" : "completed");
 		appendLog(
 			failed > 0 ? "error" : "task",
 			`batch settled: ${completed} completed, ${failed} failed`,
@@ -298,7 +322,7 @@ function App() {
 							/>
 						</label>
 						<button className="button button-secondary" type="submit">
-							Apply and restart
+							Resize
 						</button>
 					</form>
 
@@ -427,7 +451,7 @@ function App() {
 							<output className="task-output" aria-live="polite">
 								{batch.status === "idle"
 									? "No batch has run"
-									: `${batch.completed} completed, ${batch.failed} failed`}
+									: `${batch.completed} completed, ${batch.failed} failed, ${batch.progress}% settled`}
 							</output>
 						</article>
 					</div>
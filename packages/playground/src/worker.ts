@@ -1,4 +1,7 @@
-import * as Comlink from "comlink";
+import {
+	type PooledTaskContext,
+	exposePooled,
+} from "comlink-worker-pool/worker";
 import { analyzeText } from "./text-analysis";
 export { analyzeText, type TextAnalysis } from "./text-analysis";
 
@@ -24,13 +27,25 @@ export interface DelayedTaskResult {
 	workerValue: string;
 }
 
+export interface DelayedTaskProgress {
+	fraction: number;
+	label: string;
+	result?: DelayedTaskResult;
+}
+
+const DELAYED_TASK_STEPS = 4;
+
+function assertDelay(delayMs: number): void {
+	if (!Number.isFinite(delayMs) || delayMs < 0 || delayMs > 5_000) {
+		throw new Error("Delay must be between 0 and 5000 milliseconds");
+	}
+}
+
 export async function delayedTransform(
 	label: string,
 	delayMs: number,
 ): Promise<DelayedTaskResult> {
-	if (!Number.isFinite(delayMs) || delayMs < 0 || delayMs > 5_000) {
-		throw new Error("Delay must be between 0 and 5000 milliseconds");
-	}
+	assertDelay(delayMs);
 	await sleep(delayMs);
 	return {
 		delayMs,
@@ -39,7 +54,32 @@ export async function delayedTransform(
 	};
 }
 
-const api = { analyzeText, delayedTransform, fibAsync };
+export async function* delayedTransformProgress(
+	this: PooledTaskContext,
+	label: string,
+	delayMs: number,
+): AsyncGenerator<DelayedTaskProgress> {
+	assertDelay(delayMs);
+	for (let step = 1; step <= DELAYED_TASK_STEPS; step++) {
+		await sleep(delayMs / DELAYED_TASK_STEPS);
+		this.signal.throwIfAborted();
+		yield {
+			fraction: step / DELAYED_TASK_STEPS,
+			label,
+			result:
+				step === DELAYED_TASK_STEPS
+					? { delayMs, label, workerValue: label.toUpperCase() }
+					: undefined,
+		};
+	}
+}
+
+const api = {
+	analyzeText,
+	delayedTransform,
+	delayedTransformProgress,
+	fibAsync,
+};
 export type WorkerApi = typeof api;
 
-Comlink.expose(api);
+exposePooled(api);
@@ -1,4 +1,7 @@
-import { WorkerPool } from "../packages/comlink-worker-pool/src";
+import {
+	WorkerPool,
+	type WorkerSelectionStrategy,
+} from "../packages/comlink-worker-pool/src";
 
 type BenchmarkApi = {
 	run(value: number): Promise<number>;
@@ -23,7 +26,17 @@ class CountingBenchmarkWorker extends EventTarget {
 	}
 }
 
+const selectionStrategies: WorkerSelectionStrategy[] = [
+	"least-loaded",
+	"round-robin",
+	"random-two-choices",
+	"ewma-latency",
+];
+
 const taskCount = Number(process.env.WORKER_POOL_BENCHMARK_TASKS ?? 50_000);
+const selectionTaskCount = Number(
+	process.env.WORKER_POOL_BENCHMARK_SELECTION_TASKS ?? 2_000,
+);
 const workerChurnCount = Number(
 	process.env.WORKER_POOL_BENCHMARK_CHURN_WORKERS ?? 10_000,
 );
@@ -38,6 +51,9 @@ const churnBudgetMs = Number(
 const burstBudgetMs = Number(
 	process.env.WORKER_POOL_BENCHMARK_BURST_BUDGET_MS ?? 100,
 );
+const selectionBudgetMs = Number(
+	process.env.WORKER_POOL_BENCHMARK_SELECTION_BUDGET_MS ?? 2_000,
+);
 
 function assertPositiveInteger(value: number, label: string): void {
 	if (!Number.isSafeInteger(value) || value <= 0) {
@@ -47,6 +63,7 @@ function assertPositiveInteger(value: number, label: string): void {
 
 for (const [value, label] of [
 	[taskCount, "WORKER_POOL_BENCHMARK_TASKS"],
+	[selectionTaskCount, "WORKER_POOL_BENCHMARK_SELECTION_TASKS"],
 	[workerChurnCount, "WORKER_POOL_BENCHMARK_CHURN_WORKERS"],
 	[workerBurstCount, "WORKER_POOL_BENCHMARK_BURST_WORKERS"],
 	[runCount, "WORKER_POOL_BENCHMARK_RUNS"],
@@ -57,6 +74,7 @@ for (const [value, label] of [
 	[budgetMs, "WORKER_POOL_BENCHMARK_BUDGET_MS"],
 	[churnBudgetMs, "WORKER_POOL_BENCHMARK_CHURN_BUDGET_MS"],
 	[burstBudgetMs, "WORKER_POOL_BENCHMARK_BURST_BUDGET_MS"],
+	[selectionBudgetMs, "WORKER_POOL_BENCHMARK_SELECTION_BUDGET_MS"],
 ] as const) {
 	if (!Number.isFinite(value) || value <= 0) {
 		throw new Error(`${label} must be positive`);
@@ -65,7 +83,6 @@ for (const [value, label] of [
 
 async function measureTasks(taskTotal: number): Promise<number> {
 	const pool = new WorkerPool<BenchmarkApi>({
-		maxConcurrentTasksPerWorker: 1,
 		maxQueueSize: taskTotal,
 		onUpdateStats: () => {},
 		proxyFactory: () => ({
@@ -97,6 +114,87 @@ async function measureTasks(taskTotal: number): Promise<number> {
 	return elapsedMs;
 }
 
+/**
+ * Delay of one call on a selection benchmark worker: workers 0 and 1 take 1 ms,
+ * worker 2 is slow on every fourth call, and worker 3 is always slow. Every
+ * call takes a timer turn, so workers stay busy and strategies pick among them.
+ */
+function selectionLatencyMs(workerIndex: number, value: number): number {
+	if (workerIndex === 3) return 8;
+	return workerIndex === 2 && value % 4 === 0 ? 8 : 1;
+}
+
+/** Calls submitted per millisecond, about two thirds of the pool's capacity. */
+const selectionWaveSize = 6;
+
+interface SelectionSample {
+	elapsedMs: number;
+	/** Mean time from submission to result. */
+	meanCallMs: number;
+	/** Calls each worker ran, in creation order. */
+	tasksPerWorker: number[];
+}
+
+async function measureSelection(
+	taskTotal: number,
+	workerSelection: WorkerSelectionStrategy,
+): Promise<SelectionSample> {
+	const workers: BenchmarkWorker[] = [];
+	const tasksPerWorker = [0, 0, 0, 0];
+	const pool = new WorkerPool<BenchmarkApi>({
+		// Selection strategies only choose among workers running several tasks.
+		maxConcurrentTasksPerWorker: 4,
+		maxQueueSize: taskTotal,
+		proxyFactory: (worker) => {
+			const workerIndex = workers.indexOf(worker as unknown as BenchmarkWorker);
+			return {
+				run: async (value: number) => {
+					tasksPerWorker[workerIndex]++;
+					await new Promise((resolve) =>
+						setTimeout(resolve, selectionLatencyMs(workerIndex, value)),
+					);
+					return value;
+				},
+			};
+		},
+		size: 4,
+		taskTimeoutMs: false,
+		workerFactory: () => {
+			const worker = new BenchmarkWorker();
+			workers.push(worker);
+			return worker as unknown as Worker;
+		},
+		workerSelection,
+	});
+	const api = pool.getApi();
+	const calls: Promise<number>[] = [];
+	let totalCallMs = 0;
+	const startedAt = performance.now();
+	// Calls arrive in waves below capacity, so workers often have spare slots
+	// at the same time and the strategy decides which one a call takes.
+	for (let value = 0; value < taskTotal; value++) {
+		if (value > 0 && value % selectionWaveSize === 0) {
+			await new Promise((resolve) => setTimeout(resolve, 1));
+		}
+		const submittedAt = performance.now();
+		calls.push(
+			api.run(value).then((result) => {
+				totalCallMs += performance.now() - submittedAt;
+				return result;
+			}),
+		);
+	}
+	const results = await Promise.all(calls);
+	const elapsedMs = performance.now() - startedAt;
+	const expectedChecksum = ((taskTotal - 1) * taskTotal) / 2;
+	const checksum = results.reduce((total, value) => total + value, 0);
+	if (checksum !== expectedChecksum) {
+		throw new Error(`${workerSelection} checksum mismatch: ${checksum}`);
+	}
+	await pool.close();
+	return { elapsedMs, meanCallMs: totalCallMs / taskTotal, tasksPerWorker };
+}
+
 async function measureWorkerChurn(workerTotal: number): Promise<number> {
 	const counters: WorkerCounters = { creations: 0, terminations: 0 };
 	const pool = new WorkerPool<BenchmarkApi>({
@@ -180,6 +278,9 @@ async function collectSamples(
 await measureTasks(Math.min(1_000, taskCount));
 await measureWorkerChurn(Math.min(100, workerChurnCount));
 await measureWorkerBurst(Math.min(100, workerBurstCount));
+for (const strategy of selectionStrategies) {
+	await measureSelection(Math.min(200, selectionTaskCount), strategy);
+}
 
 const taskSamples = await collectSamples(() => measureTasks(taskCount));
 const churnSamples = await collectSamples(() =>
@@ -188,6 +289,18 @@ const churnSamples = await collectSamples(() =>
 const burstSamples = await collectSamples(() =>
 	measureWorkerBurst(workerBurstCount),
 );
+const selectionSamples: Record<
+	string,
+	{ medianMs: number; p95Ms: number; last: SelectionSample }
+> = {};
+for (const strategy of selectionStrategies) {
+	let last!: SelectionSample;
+	const samples = await collectSamples(async () => {
+		last = await measureSelection(selectionTaskCount, strategy);
+		return last.elapsedMs;
+	});
+	selectionSamples[strategy] = { ...samples, last };
+}
 
 console.log(
 	JSON.stringify(
@@ -216,6 +329,25 @@ console.log(
 					workerBurstCount / (burstSamples.medianMs / 1_000),
 				),
 			},
+			workerSelection: {
+				budgetMs: selectionBudgetMs,
+				taskCount: selectionTaskCount,
+				...Object.fromEntries(
+					Object.entries(selectionSamples).map(([strategy, samples]) => [
+						strategy,
+						{
+							medianMs: Number(samples.medianMs.toFixed(2)),
+							p95Ms: Number(samples.p95Ms.toFixed(2)),
+							tasksPerSecond: Math.round(
+								selectionTaskCount / (samples.medianMs / 1_000),
+							),
+							// From the last run; workers 2 and 3 are the slow ones.
+							meanCallMs: Number(samples.last.meanCallMs.toFixed(2)),
+							tasksPerWorker: samples.last.tasksPerWorker,
+						},
+					]),
+				),
+			},
 		},
 		null,
 		2,
@@ -237,3 +369,10 @@ if (burstSamples.p95Ms > burstBudgetMs) {
 		`worker-pool benchmark exceeded its ${burstBudgetMs} ms burst p95 budget (${burstSamples.p95Ms.toFixed(2)} ms)`,
 	);
 }
+for (const [strategy, samples] of Object.entries(selectionSamples)) {
+	if (samples.p95Ms > selectionBudgetMs) {
+		throw new Error(
+			`worker-pool benchmark exceeded its ${selectionBudgetMs} ms ${strategy} task p95 budget (${samples.p95Ms.toFixed(2)} ms)`,
+		);
+	}
+}
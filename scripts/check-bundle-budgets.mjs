@@ -6,13 +6,13 @@ const kibibyte = 1024;
 const artifacts = [
 	{
 		file: "packages/comlink-worker-pool/dist/esm/index.js",
-		gzipBudget: 10 * kibibyte,
-		rawBudget: 48 * kibibyte,
+		gzipBudget: 27 * kibibyte,
+		rawBudget: 132 * kibibyte,
 	},
 	{
 		file: "packages/comlink-worker-pool/dist/cjs/index.cjs",
-		gzipBudget: 10 * kibibyte,
-		rawBudget: 48 * kibibyte,
+		gzipBudget: 27 * kibibyte,
+		rawBudget: 132 * kibibyte,
 	},
 	{
 		file: "packages/comlink-worker-pool-react/dist/esm/index.js",
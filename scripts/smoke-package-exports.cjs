@@ -3,13 +3,20 @@ const assert = require("node:assert/strict");
 async function main() {
 	const coreCjs = require("comlink-worker-pool");
 	const reactCjs = require("comlink-worker-pool-react");
+	const workerCjs = require("comlink-worker-pool/worker");
 	const coreEsm = await import("comlink-worker-pool");
+	const workerEsm = await import("comlink-worker-pool/worker");
 	const reactEsm = await import("comlink-worker-pool-react");
 
 	for (const core of [coreCjs, coreEsm]) {
 		assert.equal(typeof core.WorkerPool, "function");
 		assert.equal(typeof core.WorkerPoolTerminatedError, "function");
 	}
+	for (const worker of [workerCjs, workerEsm]) {
+		assert.equal(typeof worker.exposePooled, "function");
+		assert.equal(typeof worker.transferResult, "function");
+		assert.equal(typeof worker.detectTransferables, "function");
+	}
 	for (const react of [reactCjs, reactEsm]) {
 		assert.equal(typeof react.useWorkerPool, "function");
 	}